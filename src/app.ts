@@ -6,16 +6,32 @@ import redisPlugin from './plugins/redis.plugin.js';
 import mssqlPlugin from './plugins/mssql.plugin.js';
 import oauth2Plugin from './plugins/oauth2.plugin.js';
 import cachePlugin from './plugins/cache.plugin.js';
+import revocationPlugin from './plugins/revocation.plugin.js';
+import rawBodyPlugin from './plugins/raw-body.plugin.js';
+import responseSigningPlugin from './plugins/response-signing.plugin.js';
 import { registerControllers } from './utils/registerControllers.js';
 import { HealthController } from './controllers/health.controller.js';
 import { UserController } from './controllers/user.controller.js';
 import { ProtectedController } from './controllers/protected.controller.js';
 import { SignedController } from './controllers/signed.controller.js';
+import { RevocationController } from './controllers/revocation.controller.js';
 import { contextLoggerStorage } from './utils/logger.js';
+import { config } from './config/index.js';
 
 export async function buildApp(): Promise<FastifyInstance> {
+  const { tls } = config.server;
   const app = Fastify({
     logger: true,
+    // Client certificates are requested here and checked per route by mtlsAuth
+    https: tls
+      ? {
+          cert: tls.cert,
+          key: tls.key,
+          ca: tls.ca,
+          requestCert: tls.requestCert,
+          rejectUnauthorized: tls.rejectUnauthorized,
+        }
+      : null,
   });
 
   app.addHook('onRequest', (request, reply, done) => {
@@ -24,13 +40,22 @@ export async function buildApp(): Promise<FastifyInstance> {
 
   // Register plugins
   await app.register(requestContext);
+  await app.register(rawBodyPlugin);
+  await app.register(responseSigningPlugin);
   await app.register(redisPlugin);
+  await app.register(revocationPlugin);
   await app.register(mssqlPlugin);
   await app.register(oauth2Plugin);
   await app.register(cachePlugin, { maxEntries: 1000, defaultTtlMs: 300000 });
 
   // Register controllers
-  registerControllers(app, [HealthController, UserController, ProtectedController, SignedController]);
+  registerControllers(app, [
+    HealthController,
+    UserController,
+    ProtectedController,
+    SignedController,
+    RevocationController,
+  ]);
 
   return app;
 }
@@ -3,33 +3,134 @@
  * Centralizes all environment variables with type safety and validation
  */
 
+interface ServerTlsConfig {
+  /** PEM server certificate chain */
+  cert: string;
+  /** PEM private key */
+  key: string;
+  /** PEM CA bundle that client certificates must chain to */
+  ca: string | undefined;
+  /** Ask clients for a certificate (needed by mtlsAuth) */
+  requestCert: boolean;
+  /** Refuse the TLS handshake without a valid client certificate, for every route */
+  rejectUnauthorized: boolean;
+}
+
 interface ServerConfig {
   port: number;
   host: string;
+  /** HTTPS is enabled when TLS_CERT and TLS_KEY are set */
+  tls: ServerTlsConfig | undefined;
+}
+
+interface JwtIssuerConfig {
+  /** Exact iss claim value that selects this entry */
+  issuer: string;
+  jwksUrl?: string;
+  /** Local JWKS document (static keys) */
+  jwksFile?: string;
+  audiences: string[];
+  algorithms: string[];
+  /** Normalized claim name -> claim name used by this issuer, e.g. { scope: 'scp' } */
+  claims: Record<string, string>;
 }
 
 interface JwtConfig {
   jwksUrl: string | undefined;
+  trustedIssuers: Record<string, JwtIssuerConfig>;
+  issuers: string[];
+  audiences: string[];
+  algorithms: string[];
+  maxTokenAge: number | undefined;
+  clockTolerance: number;
+  /** Claim paths that hold roles, e.g. realm_access.roles */
+  roleClaims: string[];
+  /** realm in WWW-Authenticate Bearer challenges */
+  realm: string;
+  /** Seconds subject/session revocations (and jti revocations without exp) are kept */
+  revocationTtl: number;
+  /** Seconds revocation lookups are cached in-process */
+  revocationCacheTtl: number;
+  /** Accept only DPoP-bound tokens (RFC 9449) */
+  dpopRequired: boolean;
+  /** Signing algorithms accepted for DPoP proofs */
+  dpopAlgorithms: string[];
+  /** Seconds a DPoP proof is accepted after its iat */
+  dpopMaxAge: number;
 }
 
 interface HttpSignatureConfig {
   jwksUrl: string | undefined;
+  keyDirs: string[];
+  secretDirs: string[];
   privateKey: string | undefined;
   keyId: string | undefined;
   defaultAlgorithm: string;
   maxAge: number;
 }
 
+interface MtlsClientConfig {
+  /** Subject fields the certificate must have, e.g. { CN: 'billing', O: 'Corp' } */
+  subject: Record<string, string>;
+  /** Subject alternative names, one of which the certificate must have, e.g. DNS:billing.internal */
+  san: string[];
+  /** Scopes granted to the client */
+  scopes: string[];
+}
+
+interface MtlsConfig {
+  clients: Record<string, MtlsClientConfig>;
+}
+
+interface ApiKeyConfig {
+  /** Header carrying the key */
+  header: string;
+  /** Query parameter carrying the key (unset: not accepted from the query) */
+  queryParam: string | undefined;
+  /** Accepted key prefixes, e.g. live,test (empty: any) */
+  prefixes: string[];
+  /** Seconds a verified key is cached before it is looked up again */
+  cacheTtl: number;
+}
+
 interface OAuth2ProviderConfig {
   tokenUrl: string;
   clientId: string;
   clientSecret: string;
   scope?: string;
+  introspectionUrl?: string;
+  authMethod?: 'client_secret_post' | 'client_secret_basic' | 'private_key_jwt' | 'tls_client_auth';
+  /** PKCS8 PEM key for private_key_jwt */
+  privateKey?: string;
+  keyId?: string;
+  signingAlgorithm?: string;
+  assertionAudience?: string;
+  /** PEM client certificate and key for tls_client_auth */
+  tlsCert?: string;
+  tlsKey?: string;
+  /** Issuer to discover endpoints from, instead of or alongside TOKEN_URL */
+  issuer?: string;
+  required?: boolean;
+  revocationUrl?: string;
+  jwksUri?: string;
 }
 
+const CLIENT_AUTH_METHODS = [
+  'client_secret_post',
+  'client_secret_basic',
+  'private_key_jwt',
+  'tls_client_auth',
+] as const;
+
 interface OAuth2Config {
   providers: Record<string, OAuth2ProviderConfig>;
   refreshBufferSeconds: number;
+  /** Provider whose introspection endpoint introspectionAuth() uses by default */
+  introspectionProvider: string | undefined;
+  /** Secret for encrypting tokens shared through Redis; unset keeps tokens per-process */
+  tokenCacheKey: string | undefined;
+  /** Seconds between refreshes of discovered provider metadata */
+  discoveryRefreshSeconds: number;
 }
 
 interface RedisConfig {
@@ -69,6 +170,8 @@ interface AppConfig {
   server: ServerConfig;
   jwt: JwtConfig;
   httpSignature: HttpSignatureConfig;
+  apiKey: ApiKeyConfig;
+  mtls: MtlsConfig;
   oauth2: OAuth2Config;
   redis: RedisConfig;
   mssql: MssqlConfig;
@@ -100,25 +203,50 @@ function getEnvString(key: string, defaultValue?: string): string | undefined {
   return process.env[key] || defaultValue;
 }
 
+/**
+ * Parse environment variable as a comma-separated list
+ */
+function getEnvList(key: string, defaultValue: string[] = []): string[] {
+  const value = process.env[key];
+  if (!value) return defaultValue;
+  return value
+    .split(',')
+    .map((item) => item.trim())
+    .filter(Boolean);
+}
+
 /**
  * Discover OAuth2 providers from environment variables
- * Looks for OAUTH2_<NAME>_TOKEN_URL patterns
+ * Looks for OAUTH2_<NAME>_TOKEN_URL and OAUTH2_<NAME>_ISSUER patterns
  */
 function discoverOAuth2Providers(): Record<string, OAuth2ProviderConfig> {
   const providers: Record<string, OAuth2ProviderConfig> = {};
-  const tokenUrlPattern = /^OAUTH2_([A-Z0-9_]+)_TOKEN_URL$/;
+  const providerPattern = /^OAUTH2_([A-Z0-9_]+)_(TOKEN_URL|ISSUER)$/;
 
   for (const [key, value] of Object.entries(process.env)) {
-    const match = key.match(tokenUrlPattern);
+    const match = key.match(providerPattern);
     if (match && value) {
       const providerName = match[1].toLowerCase();
       const prefix = `OAUTH2_${match[1]}`;
 
       providers[providerName] = {
-        tokenUrl: value,
+        // Empty when the token endpoint is discovered from the issuer
+        tokenUrl: process.env[`${prefix}_TOKEN_URL`] || '',
         clientId: process.env[`${prefix}_CLIENT_ID`] || '',
         clientSecret: process.env[`${prefix}_CLIENT_SECRET`] || '',
         scope: process.env[`${prefix}_SCOPE`],
+        introspectionUrl: process.env[`${prefix}_INTROSPECTION_URL`],
+        authMethod: process.env[`${prefix}_AUTH_METHOD`] as OAuth2ProviderConfig['authMethod'],
+        privateKey: process.env[`${prefix}_PRIVATE_KEY`],
+        keyId: process.env[`${prefix}_KEY_ID`],
+        signingAlgorithm: process.env[`${prefix}_SIGNING_ALG`],
+        assertionAudience: process.env[`${prefix}_ASSERTION_AUDIENCE`],
+        tlsCert: process.env[`${prefix}_TLS_CERT`],
+        tlsKey: process.env[`${prefix}_TLS_KEY`],
+        issuer: process.env[`${prefix}_ISSUER`],
+        required: getEnvBool(`${prefix}_REQUIRED`, true),
+        revocationUrl: process.env[`${prefix}_REVOCATION_URL`],
+        jwksUri: process.env[`${prefix}_JWKS_URI`],
       };
     }
   }
@@ -126,6 +254,93 @@ function discoverOAuth2Providers(): Record<string, OAuth2ProviderConfig> {
   return providers;
 }
 
+/**
+ * Parse environment variable as comma-separated name=value pairs
+ */
+function getEnvMap(key: string): Record<string, string> {
+  const map: Record<string, string> = {};
+  for (const pair of getEnvList(key)) {
+    const separator = pair.indexOf('=');
+    if (separator > 0) {
+      map[pair.slice(0, separator).trim()] = pair.slice(separator + 1).trim();
+    }
+  }
+  return map;
+}
+
+/**
+ * Discover trusted JWT issuers from environment variables
+ * Looks for JWT_ISSUER_<NAME>_ISS patterns
+ */
+function discoverJwtIssuers(): Record<string, JwtIssuerConfig> {
+  const issuers: Record<string, JwtIssuerConfig> = {};
+  const issuerPattern = /^JWT_ISSUER_([A-Z0-9_]+)_ISS$/;
+
+  for (const [key, value] of Object.entries(process.env)) {
+    const match = key.match(issuerPattern);
+    if (match && value) {
+      const issuerName = match[1].toLowerCase();
+      const prefix = `JWT_ISSUER_${match[1]}`;
+
+      issuers[issuerName] = {
+        issuer: value,
+        jwksUrl: process.env[`${prefix}_JWKS_URL`],
+        jwksFile: process.env[`${prefix}_JWKS_FILE`],
+        audiences: getEnvList(`${prefix}_AUDIENCES`),
+        algorithms: getEnvList(`${prefix}_ALGORITHMS`),
+        claims: getEnvMap(`${prefix}_CLAIMS`),
+      };
+    }
+  }
+
+  return issuers;
+}
+
+/**
+ * HTTPS options, when both a certificate and key are configured
+ */
+function getServerTls(): ServerTlsConfig | undefined {
+  const cert = getEnvString('TLS_CERT');
+  const key = getEnvString('TLS_KEY');
+  if (!cert || !key) {
+    return undefined;
+  }
+
+  return {
+    cert,
+    key,
+    ca: getEnvString('TLS_CA'),
+    requestCert: getEnvBool('TLS_REQUEST_CERT', false),
+    // Off by default so routes without mtlsAuth stay reachable without a certificate
+    rejectUnauthorized: getEnvBool('TLS_REJECT_UNAUTHORIZED', false),
+  };
+}
+
+/**
+ * Discover mTLS clients from environment variables
+ * Looks for MTLS_CLIENT_<NAME>_SUBJECT and MTLS_CLIENT_<NAME>_SAN patterns
+ */
+function discoverMtlsClients(): Record<string, MtlsClientConfig> {
+  const clients: Record<string, MtlsClientConfig> = {};
+  const clientPattern = /^MTLS_CLIENT_([A-Z0-9_]+)_(SUBJECT|SAN)$/;
+
+  for (const [key, value] of Object.entries(process.env)) {
+    const match = key.match(clientPattern);
+    if (match && value) {
+      const clientName = match[1].toLowerCase();
+      const prefix = `MTLS_CLIENT_${match[1]}`;
+
+      clients[clientName] = {
+        subject: getEnvMap(`${prefix}_SUBJECT`),
+        san: getEnvList(`${prefix}_SAN`),
+        scopes: getEnvList(`${prefix}_SCOPES`),
+      };
+    }
+  }
+
+  return clients;
+}
+
 /**
  * Application configuration object
  */
@@ -133,23 +348,53 @@ export const config: AppConfig = {
   server: {
     port: getEnvInt('PORT', 3000),
     host: getEnvString('HOST', '0.0.0.0')!,
+    tls: getServerTls(),
   },
 
   jwt: {
     jwksUrl: getEnvString('JWKS_URL'),
+    trustedIssuers: discoverJwtIssuers(),
+    issuers: getEnvList('JWT_ISSUERS'),
+    audiences: getEnvList('JWT_AUDIENCES'),
+    algorithms: getEnvList('JWT_ALGORITHMS'),
+    maxTokenAge: getEnvInt('JWT_MAX_TOKEN_AGE', 0) || undefined,
+    clockTolerance: getEnvInt('JWT_CLOCK_TOLERANCE', 0),
+    roleClaims: getEnvList('JWT_ROLE_CLAIMS', ['roles', 'groups', 'realm_access.roles']),
+    realm: getEnvString('JWT_REALM', 'api')!,
+    revocationTtl: getEnvInt('JWT_REVOCATION_TTL', 86400),
+    revocationCacheTtl: getEnvInt('JWT_REVOCATION_CACHE_TTL', 5),
+    dpopRequired: getEnvBool('JWT_DPOP_REQUIRED', false),
+    dpopAlgorithms: getEnvList('JWT_DPOP_ALGORITHMS', ['ES256', 'RS256', 'PS256', 'EdDSA']),
+    dpopMaxAge: getEnvInt('JWT_DPOP_MAX_AGE', 300),
   },
 
   httpSignature: {
     jwksUrl: getEnvString('HTTP_SIG_JWKS_URL'),
+    keyDirs: getEnvList('HTTP_SIG_KEY_DIRS'),
+    secretDirs: getEnvList('HTTP_SIG_SECRET_DIRS'),
     privateKey: getEnvString('HTTP_SIG_PRIVATE_KEY'),
     keyId: getEnvString('HTTP_SIG_KEY_ID'),
     defaultAlgorithm: getEnvString('HTTP_SIG_ALGORITHM', 'rsa-pss-sha512')!,
     maxAge: getEnvInt('HTTP_SIG_MAX_AGE', 300),
   },
 
+  apiKey: {
+    header: getEnvString('API_KEY_HEADER', 'x-api-key')!,
+    queryParam: getEnvString('API_KEY_QUERY_PARAM'),
+    prefixes: getEnvList('API_KEY_PREFIXES'),
+    cacheTtl: getEnvInt('API_KEY_CACHE_TTL', 60),
+  },
+
+  mtls: {
+    clients: discoverMtlsClients(),
+  },
+
   oauth2: {
     providers: discoverOAuth2Providers(),
     refreshBufferSeconds: getEnvInt('OAUTH2_REFRESH_BUFFER_SECONDS', 30),
+    introspectionProvider: getEnvString('OAUTH2_INTROSPECTION_PROVIDER'),
+    tokenCacheKey: getEnvString('OAUTH2_TOKEN_CACHE_KEY'),
+    discoveryRefreshSeconds: getEnvInt('OAUTH2_DISCOVERY_REFRESH_SECONDS', 3600),
   },
 
   redis: {
@@ -193,8 +438,26 @@ export const config: AppConfig = {
 export function validateConfig(): void {
   const errors: string[] = [];
 
-  // Add validation for required fields if needed
-  // For now, most fields have defaults
+  for (const [name, provider] of Object.entries(config.oauth2.providers)) {
+    const prefix = `OAUTH2_${name.toUpperCase()}`;
+    const { authMethod = 'client_secret_post' } = provider;
+
+    if (!CLIENT_AUTH_METHODS.includes(authMethod)) {
+      errors.push(`${prefix}_AUTH_METHOD must be one of ${CLIENT_AUTH_METHODS.join(', ')}`);
+    } else if (authMethod === 'private_key_jwt' && !provider.privateKey) {
+      errors.push(`${prefix}_PRIVATE_KEY is required for private_key_jwt`);
+    } else if (authMethod === 'tls_client_auth' && (!provider.tlsCert || !provider.tlsKey)) {
+      errors.push(`${prefix}_TLS_CERT and ${prefix}_TLS_KEY are required for tls_client_auth`);
+    }
+  }
+
+  // A client with nothing to match would accept every certificate issued by TLS_CA
+  for (const [name, client] of Object.entries(config.mtls.clients)) {
+    if (Object.keys(client.subject).length === 0 && client.san.length === 0) {
+      const prefix = `MTLS_CLIENT_${name.toUpperCase()}`;
+      errors.push(`${prefix}_SUBJECT or ${prefix}_SAN must name at least one field=value or SAN`);
+    }
+  }
 
   if (errors.length > 0) {
     throw new Error(`Configuration validation failed:\n${errors.join('\n')}`);
@@ -202,4 +465,4 @@ export function validateConfig(): void {
 }
 
 // Export types for use in other modules
-export type { AppConfig, ServerConfig, JwtConfig, HttpSignatureConfig, OAuth2ProviderConfig, OAuth2Config, RedisConfig, MssqlConfig };
+export type { AppConfig, ServerConfig, ServerTlsConfig, JwtConfig, JwtIssuerConfig, HttpSignatureConfig, ApiKeyConfig, MtlsClientConfig, MtlsConfig, OAuth2ProviderConfig, OAuth2Config, RedisConfig, MssqlConfig };
@@ -42,9 +42,10 @@ export class ProtectedController {
   }
 
   /**
-   * Create user endpoint - requires valid JWT with both 'users:write' and 'admin' scopes
+   * Create user endpoint - requires valid JWT with 'admin' scope, or both 'users:write'
+   * and 'users:read'
    */
-  @Post('/users', jwtAuth(['users:write', 'admin']))
+  @Post('/users', jwtAuth('admin OR (users:write AND users:read)'))
   async createUser(request: FastifyRequest, reply: FastifyReply) {
     return reply.send({
       message: 'User created',
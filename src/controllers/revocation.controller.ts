@@ -0,0 +1,71 @@
+import { FastifyRequest, FastifyReply } from 'fastify';
+import { Controller, Post } from '../decorators/route.decorator.js';
+import { Schema } from '../decorators/schema.decorator.js';
+import { jwtAuth } from '../middleware/jwt-auth.js';
+import { config } from '../config/index.js';
+import {
+  RevokeSessionDto,
+  RevokeSubjectDto,
+  RevokeTokenDto,
+  revokeSessionSchema,
+  revokeSubjectSchema,
+  revokeTokenSchema,
+} from '../schemas/revocation.schema.js';
+
+/**
+ * Admin API for the JWT denylist - requires the 'tokens:revoke' scope
+ */
+@Controller('/api/admin/revocations')
+export class RevocationController {
+  /**
+   * Revoke one token by jti, kept until the token's exp (plus clock tolerance)
+   */
+  @Post('/tokens', jwtAuth('tokens:revoke'))
+  @Schema({ body: revokeTokenSchema })
+  async revokeToken(request: FastifyRequest<{ Body: RevokeTokenDto }>, reply: FastifyReply) {
+    const { iss, jti, exp } = request.body;
+    const ttl =
+      exp !== undefined ? exp - now() + config.jwt.clockTolerance : config.jwt.revocationTtl;
+
+    await request.server.revocation.revokeToken(iss, jti, ttl);
+    request.log.info({ iss, jti, revokedBy: request.user.sub }, 'Token revoked');
+
+    return reply.status(201).send({ revoked: 'token', iss, jti, expiresIn: Math.max(1, ttl) });
+  }
+
+  /**
+   * Revoke every token for a subject issued before a time (default: now)
+   */
+  @Post('/subjects', jwtAuth('tokens:revoke'))
+  @Schema({ body: revokeSubjectSchema })
+  async revokeSubject(request: FastifyRequest<{ Body: RevokeSubjectDto }>, reply: FastifyReply) {
+    const { iss, sub, before = now() } = request.body;
+
+    await request.server.revocation.revokeSubject(iss, sub, before, config.jwt.revocationTtl);
+    request.log.info({ iss, sub, before, revokedBy: request.user.sub }, 'Subject tokens revoked');
+
+    return reply
+      .status(201)
+      .send({ revoked: 'subject', iss, sub, before, expiresIn: config.jwt.revocationTtl });
+  }
+
+  /**
+   * Revoke every token for a session
+   */
+  @Post('/sessions', jwtAuth('tokens:revoke'))
+  @Schema({ body: revokeSessionSchema })
+  async revokeSession(request: FastifyRequest<{ Body: RevokeSessionDto }>, reply: FastifyReply) {
+    const { iss, sid } = request.body;
+
+    await request.server.revocation.revokeSession(iss, sid, config.jwt.revocationTtl);
+    request.log.info({ iss, sid, revokedBy: request.user.sub }, 'Session tokens revoked');
+
+    return reply
+      .status(201)
+      .send({ revoked: 'session', iss, sid, expiresIn: config.jwt.revocationTtl });
+  }
+}
+
+function now(): number {
+  return Math.floor(Date.now() / 1000);
+}
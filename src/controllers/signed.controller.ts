@@ -1,7 +1,10 @@
 import { FastifyRequest, FastifyReply } from 'fastify';
 import { Controller, Get, Post } from '../decorators/route.decorator.js';
 import { httpSig, createSigner } from '../middleware/http-signature/index.js';
+import { jwtAuth } from '../middleware/jwt-auth.js';
+import { auth } from '../middleware/auth.js';
 import { config } from '../config/index.js';
+import type { TokenExchangeOptions } from '../services/oauth2/index.js';
 
 @Controller('/api/signed')
 export class SignedController {
@@ -125,19 +128,30 @@ export class SignedController {
   }
 
   /**
-   * Example endpoint showing combined JWT + HTTP signature auth
-   * Uncomment jwtAuth to require both authentication methods
+   * Example endpoint requiring both a JWT with 'admin' scope and an HTTP signature
+   * The signature covers the Authorization header, binding it to the request
    */
   @Post(
     '/double-auth',
-    // jwtAuth('admin'),  // Uncomment to also require JWT
-    httpSig({ required: ['@method', '@target-uri', 'authorization'] })
+    auth.allOf(jwtAuth('admin'), httpSig({ required: ['@method', '@target-uri', 'authorization'] }))
   )
   async doubleAuth(request: FastifyRequest, reply: FastifyReply) {
     return reply.send({
       message: 'Both JWT and HTTP signature verified',
       httpSignature: request.httpSignature,
-      // user: request.user,  // Available when jwtAuth is enabled
+      user: request.user,
+    });
+  }
+
+  /**
+   * Example endpoint accepting either a JWT with 'admin' scope or an HTTP signature
+   * A rejected request carries both challenges
+   */
+  @Post('/either-auth', auth.anyOf(jwtAuth('admin'), httpSig()))
+  async eitherAuth(request: FastifyRequest, reply: FastifyReply) {
+    return reply.send({
+      message: 'Authenticated',
+      strategies: request.authStrategies,
     });
   }
 
@@ -174,16 +188,25 @@ export class SignedController {
 
   /**
    * Call an external API using token exchange (user context)
-   * Exchanges the incoming user's JWT for a downstream token
+   * Exchanges the incoming user's JWT for a downstream token. With `actor`, the exchange is a
+   * delegation: 'service' makes this service (its client credentials token) act for the
+   * caller, 'caller' makes the caller act for this service
    */
   @Post('/oauth2-exchange')
   async oauth2Exchange(
-    request: FastifyRequest<{ Body: { targetUrl: string } }>,
+    request: FastifyRequest<{ Body: { targetUrl: string; actor?: 'service' | 'caller' } }>,
     reply: FastifyReply
   ) {
-    const { targetUrl } = request.body;
+    const { targetUrl, actor } = request.body;
     const userToken = request.headers.authorization?.replace('Bearer ', '');
 
+    if (actor !== undefined && actor !== 'service' && actor !== 'caller') {
+      return reply.code(400).send({
+        error: 'invalid_request',
+        message: "actor must be 'service' or 'caller'",
+      });
+    }
+
     if (!userToken) {
       return reply.code(401).send({
         error: 'missing_token',
@@ -192,10 +215,17 @@ export class SignedController {
     }
 
     try {
+      let tokenExchange: TokenExchangeOptions = { subjectToken: userToken };
+      if (actor) {
+        const serviceToken = await request.server.oauth2.getToken('partner');
+        tokenExchange =
+          actor === 'service'
+            ? { subjectToken: userToken, actorToken: serviceToken }
+            : { subjectToken: serviceToken, actorToken: userToken };
+      }
+
       // Exchange user token for downstream service token
-      const response = await request.server.oauth2.fetch('partner', targetUrl, {
-        tokenExchange: { subjectToken: userToken },
-      });
+      const response = await request.server.oauth2.fetch('partner', targetUrl, { tokenExchange });
       const data = await response.text();
 
       return reply.send({
@@ -0,0 +1,21 @@
+import type { PolicyRequirement } from '../middleware/policy.js';
+
+/**
+ * Decorator to require a scope/role expression or named policy on a route
+ * Runs after the route middleware, so the route must authenticate with jwtAuth()
+ *
+ * @example
+ * ```typescript
+ * @Post('/users', jwtAuth())
+ * @Authorize('admin OR (users:write AND users:read)')
+ * async createUser(request: FastifyRequest, reply: FastifyReply) {
+ *   // request.user satisfies the expression
+ * }
+ * ```
+ */
+export function Authorize(requirement: PolicyRequirement) {
+  return function (target: any, propertyKey: string, descriptor: PropertyDescriptor) {
+    Reflect.defineMetadata('authorize', requirement, target, propertyKey);
+    return descriptor;
+  };
+}
@@ -1,15 +1,17 @@
 import { buildApp } from './app.js';
 import { configureLogger } from './utils/logger.js';
-import { config } from './config/index.js';
+import { config, validateConfig } from './config/index.js';
 
 async function start() {
+  validateConfig();
   const app = await buildApp();
 
   configureLogger(app);
 
   try {
     await app.listen({ port: config.server.port, host: config.server.host });
-    app.log.info(`Server is running on http://${config.server.host}:${config.server.port}`);
+    const protocol = config.server.tls ? 'https' : 'http';
+    app.log.info(`Server is running on ${protocol}://${config.server.host}:${config.server.port}`);
   } catch (err) {
     app.log.error(err);
     process.exit(1);
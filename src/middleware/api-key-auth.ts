@@ -0,0 +1,230 @@
+import { createHash, randomBytes, timingSafeEqual } from 'node:crypto';
+import type { JWTPayload } from 'jose';
+import type { FastifyRequest, preHandlerHookHandler } from 'fastify';
+import { config } from '../config/index.js';
+import type { MssqlService } from '../services/mssql.service.js';
+import { compilePolicy, evaluatePolicy, type PolicyRequirement } from './policy.js';
+import { namedStrategy } from './auth.js';
+
+/**
+ * Options for apiKeyAuth middleware (default to the API_KEY_* config)
+ */
+export interface ApiKeyAuthOptions {
+  /** Header carrying the key */
+  header?: string;
+  /** Query parameter carrying the key; unset means header only */
+  queryParam?: string;
+  /** Accepted key prefixes, e.g. ['live'] to refuse test keys (empty: any) */
+  prefixes?: string[];
+}
+
+/**
+ * A row of the api_keys table
+ */
+export interface ApiKeyRecord {
+  id: string;
+  prefix: string;
+  /** SHA-256 of salt + secret, base64url */
+  key_hash: string;
+  salt: string;
+  /** Principal the key acts for, exposed as request.user.sub */
+  owner: string;
+  /** Space-separated scopes granted to the key */
+  scopes: string | null;
+  expires_at: Date | null;
+}
+
+/**
+ * A newly issued key: `key` is shown to the client once, the rest is stored
+ */
+export interface GeneratedApiKey {
+  key: string;
+  id: string;
+  prefix: string;
+  salt: string;
+  hash: string;
+}
+
+// <prefix>_<id>_<secret>, with a hex id so the secret may contain underscores
+const API_KEY_PATTERN = /^([A-Za-z0-9]+)_([0-9a-f]{16})_([A-Za-z0-9_-]{32,})$/;
+
+const CACHE_NAME = 'api-keys';
+
+const SELECT_KEY =
+  'SELECT id, prefix, key_hash, salt, owner, scopes, expires_at FROM api_keys WHERE id = @id';
+const TOUCH_KEY = 'UPDATE api_keys SET last_used_at = SYSUTCDATETIME() WHERE id = @id';
+
+/**
+ * Issue a key for storage in api_keys
+ * Secrets are 256-bit random values, so a salted SHA-256 is enough (no slow KDF needed)
+ */
+export function generateApiKey(prefix: string): GeneratedApiKey {
+  if (!/^[A-Za-z0-9]+$/.test(prefix)) {
+    throw new Error(`API key prefix "${prefix}" must be alphanumeric`);
+  }
+  const id = randomBytes(8).toString('hex');
+  const secret = randomBytes(32).toString('base64url');
+  const salt = randomBytes(16).toString('base64url');
+
+  return { key: `${prefix}_${id}_${secret}`, id, prefix, salt, hash: hashApiKey(secret, salt) };
+}
+
+export function hashApiKey(secret: string, salt: string): string {
+  return createHash('sha256').update(salt).update(secret).digest('base64url');
+}
+
+/**
+ * Look up a key and check its secret; undefined when unknown or the secret does not match
+ */
+async function verifyApiKey(
+  mssql: MssqlService,
+  prefix: string,
+  id: string,
+  secret: string
+): Promise<ApiKeyRecord | undefined> {
+  const { recordset } = await mssql.query<ApiKeyRecord>(SELECT_KEY, { id });
+  const record = recordset[0];
+  if (!record || record.prefix !== prefix) {
+    return undefined;
+  }
+
+  const expected = Buffer.from(record.key_hash);
+  const actual = Buffer.from(hashApiKey(secret, record.salt));
+  if (expected.length !== actual.length || !timingSafeEqual(expected, actual)) {
+    return undefined;
+  }
+  return record;
+}
+
+/**
+ * API key authentication middleware factory
+ * Verified keys are cached by key hash for API_KEY_CACHE_TTL seconds, and last_used_at is
+ * updated on each database lookup (so at most once per cache period per instance)
+ * @param scopes - Optional requirement for this route, as for jwtAuth
+ * @param options - Where the key is read from and which prefixes are accepted
+ * @returns Fastify preHandler middleware
+ */
+export function apiKeyAuth(
+  scopes?: PolicyRequirement,
+  options: ApiKeyAuthOptions = {}
+): preHandlerHookHandler {
+  const {
+    header = config.apiKey.header,
+    queryParam = config.apiKey.queryParam,
+    prefixes = config.apiKey.prefixes,
+  } = options;
+  // Node exposes header names in lower case
+  const headerName = header.toLowerCase();
+  const policy = scopes ? compilePolicy(scopes) : null;
+
+  const unauthorized = (reason: string, message: string) => ({
+    error: 'Unauthorized',
+    message,
+    reason,
+  });
+
+  return namedStrategy('apiKey', async (request, reply) => {
+    // Step 1: Read the key from the header, or the query parameter if enabled
+    const apiKey = readApiKey(request, headerName, queryParam);
+    if (apiKey === undefined) {
+      return reply.code(401).send({ error: 'Unauthorized', message: 'Missing API key' });
+    }
+
+    const match = API_KEY_PATTERN.exec(apiKey);
+    if (!match || (prefixes.length > 0 && !prefixes.includes(match[1]))) {
+      return reply.code(401).send(unauthorized('invalid_api_key', 'Invalid API key'));
+    }
+    const [, prefix, id, secret] = match;
+
+    // Step 2: Use a cached record, or verify against the database (keys are cached by hash only)
+    const cache = request.server.cache?.getCache<ApiKeyRecord>(CACHE_NAME);
+    const cacheKey = createHash('sha256').update(apiKey).digest('base64url');
+    let record = cache?.get(cacheKey);
+
+    if (!record) {
+      try {
+        record = await verifyApiKey(request.server.mssql, prefix, id, secret);
+      } catch (error) {
+        request.log.error(
+          { keyId: id, err: error instanceof Error ? error.message : error },
+          'API key lookup failed'
+        );
+        return reply.code(503).send({
+          error: 'Service Unavailable',
+          message: 'API key verification unavailable',
+        });
+      }
+
+      if (!record) {
+        request.log.warn({ keyId: id, reason: 'invalid_api_key' }, 'API key rejected');
+        return reply.code(401).send(unauthorized('invalid_api_key', 'Invalid API key'));
+      }
+
+      cache?.set(cacheKey, record, { ttlMs: config.apiKey.cacheTtl * 1000 });
+      touchApiKey(request, id);
+    }
+
+    // Step 3: Reject expired keys (checked on every request, cached or not)
+    if (record.expires_at && new Date(record.expires_at).getTime() <= Date.now()) {
+      request.log.warn({ keyId: id, reason: 'key_expired' }, 'API key rejected');
+      return reply.code(401).send(unauthorized('key_expired', 'API key has expired'));
+    }
+
+    // Step 4: Attach the key's principal to request.user
+    request.user = toPrincipal(record);
+
+    // Step 5: Evaluate scope requirement against the key's scopes (if any)
+    if (policy) {
+      const { allowed, missing } = evaluatePolicy(policy, request.user);
+      if (!allowed) {
+        return reply.code(403).send({
+          error: 'Forbidden',
+          message: `Insufficient permissions: requires ${missing.join(' AND ')}`,
+          missing,
+        });
+      }
+    }
+  });
+}
+
+function readApiKey(
+  request: FastifyRequest,
+  header: string,
+  queryParam: string | undefined
+): string | undefined {
+  const value = request.headers[header];
+  if (typeof value === 'string' && value.length > 0) {
+    return value;
+  }
+  if (queryParam) {
+    const query = (request.query ?? {}) as Record<string, unknown>;
+    const param = query[queryParam];
+    if (typeof param === 'string' && param.length > 0) {
+      return param;
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Record last use without delaying the request; failures are only logged
+ */
+function touchApiKey(request: FastifyRequest, id: string): void {
+  request.server.mssql.query(TOUCH_KEY, { id }).catch((error) => {
+    request.log.warn(
+      { keyId: id, err: error instanceof Error ? error.message : error },
+      'Failed to record API key use'
+    );
+  });
+}
+
+/**
+ * The same claim shape as a JWT so policies and handlers work unchanged
+ */
+function toPrincipal(record: ApiKeyRecord): JWTPayload {
+  return {
+    sub: record.owner,
+    scope: record.scopes ?? '',
+    key_id: record.id,
+  };
+}
@@ -0,0 +1,220 @@
+import type { FastifyReply, FastifyRequest, preHandlerHookHandler } from 'fastify';
+
+/**
+ * Response a strategy tried to send, held back so another strategy can be tried
+ */
+interface CapturedResponse {
+  statusCode: number;
+  headers: Record<string, string | string[]>;
+  body: unknown;
+}
+
+type StrategyOutcome =
+  | { ok: true; strategies: string[] }
+  | { ok: false; name: string; response: CapturedResponse };
+
+// Strategy names, so the successful ones can be recorded on the request
+const strategyNames = new WeakMap<preHandlerHookHandler, string>();
+
+/**
+ * Name an authentication preHandler (jwtAuth, httpSig, ...) for auth combinators
+ */
+export function namedStrategy(name: string, handler: preHandlerHookHandler): preHandlerHookHandler {
+  strategyNames.set(handler, name);
+  return handler;
+}
+
+export function getStrategyName(handler: preHandlerHookHandler): string | undefined {
+  return strategyNames.get(handler);
+}
+
+/**
+ * Accept the request if ANY strategy succeeds; they are tried in order and the first success wins
+ * When all fail, one response is sent: the status and body of the most specific failure,
+ * with the WWW-Authenticate challenges of every strategy
+ */
+export function anyOf(...handlers: preHandlerHookHandler[]): preHandlerHookHandler {
+  const names = handlers.map(nameOf);
+
+  return namedStrategy(`anyOf(${names.join(', ')})`, async function (request, reply) {
+    const failures: Extract<StrategyOutcome, { ok: false }>[] = [];
+
+    for (const [index, handler] of handlers.entries()) {
+      const outcome = await runStrategy(this, handler, names[index], request);
+      if (outcome.ok) {
+        request.authStrategies = outcome.strategies;
+        return;
+      }
+      failures.push(outcome);
+    }
+
+    const chosen = failures.reduce((best, failure) =>
+      failureRank(failure.response) > failureRank(best.response) ? failure : best
+    );
+    request.log.debug(
+      { strategies: failures.map((failure) => failure.name), chosen: chosen.name },
+      'No authentication strategy succeeded'
+    );
+    return sendCaptured(reply, {
+      ...chosen.response,
+      headers: mergeHeaders(failures.map((failure) => failure.response.headers)),
+    });
+  });
+}
+
+/**
+ * Accept the request only if EVERY strategy succeeds, in order
+ * The first failure is sent as that strategy would have sent it
+ */
+export function allOf(...handlers: preHandlerHookHandler[]): preHandlerHookHandler {
+  const names = handlers.map(nameOf);
+
+  return namedStrategy(`allOf(${names.join(', ')})`, async function (request, reply) {
+    const succeeded: string[] = [];
+
+    for (const [index, handler] of handlers.entries()) {
+      const outcome = await runStrategy(this, handler, names[index], request);
+      if (!outcome.ok) {
+        return sendCaptured(reply, outcome.response);
+      }
+      succeeded.push(...outcome.strategies);
+    }
+
+    request.authStrategies = succeeded;
+  });
+}
+
+/**
+ * Combinators, e.g. `auth.anyOf(jwtAuth('admin'), httpSig())`
+ */
+export const auth = { anyOf, allOf };
+
+function nameOf(handler: preHandlerHookHandler, index: number): string {
+  return strategyNames.get(handler) ?? `strategy${index + 1}`;
+}
+
+/**
+ * Run one strategy against a reply that records instead of sending
+ * request.user is restored when the strategy fails, e.g. a valid JWT that lacks a scope
+ */
+async function runStrategy(
+  instance: ThisParameterType<preHandlerHookHandler>,
+  handler: preHandlerHookHandler,
+  name: string,
+  request: FastifyRequest
+): Promise<StrategyOutcome> {
+  const { user, authStrategies } = request;
+  request.authStrategies = undefined;
+  const capture = createCaptureReply();
+
+  try {
+    await new Promise<void>((resolve, reject) => {
+      const done = (error?: Error) => (error ? reject(error) : resolve());
+      const result: unknown = handler.call(instance, request, capture.reply, done);
+      if (result instanceof Promise) {
+        result.then(() => resolve(), reject);
+      }
+    });
+  } catch (error) {
+    request.authStrategies = authStrategies;
+    throw error;
+  }
+
+  const response = capture.captured();
+  if (response) {
+    request.user = user;
+    request.authStrategies = authStrategies;
+    return { ok: false, name, response };
+  }
+
+  // Nested combinators report the strategies that succeeded inside them
+  const strategies = request.authStrategies ?? [name];
+  return { ok: true, strategies };
+}
+
+/**
+ * The subset of FastifyReply that authentication strategies use to reject a request
+ */
+function createCaptureReply() {
+  let statusCode = 200;
+  const headers: Record<string, string | string[]> = {};
+  let response: CapturedResponse | undefined;
+
+  const reply = {
+    get sent() {
+      return response !== undefined;
+    },
+    get statusCode() {
+      return statusCode;
+    },
+    code(code: number) {
+      statusCode = code;
+      return reply;
+    },
+    status(code: number) {
+      statusCode = code;
+      return reply;
+    },
+    header(name: string, value: string | string[]) {
+      headers[name.toLowerCase()] = value;
+      return reply;
+    },
+    getHeader(name: string) {
+      return headers[name.toLowerCase()];
+    },
+    send(body?: unknown) {
+      response = { statusCode, headers, body };
+      return reply;
+    },
+  };
+
+  return { reply: reply as unknown as FastifyReply, captured: () => response };
+}
+
+/**
+ * How much a failure tells the client: a rejected credential (a challenge with an error,
+ * or a reason in the body) beats a missing one, and a refusal (403) or an outage (5xx) beats both
+ */
+function failureRank({ statusCode, headers, body }: CapturedResponse): number {
+  if (statusCode >= 500) {
+    return 4;
+  }
+  if (statusCode === 403) {
+    return 3;
+  }
+  if (statusCode === 400) {
+    return 2;
+  }
+  const challenges = [headers['www-authenticate'] ?? []].flat();
+  const reason = (body as { reason?: unknown } | undefined)?.reason;
+  return challenges.some((challenge) => /\berror="/.test(challenge)) || reason !== undefined
+    ? 1
+    : 0;
+}
+
+/**
+ * Combine headers of several responses; repeated names (WWW-Authenticate) keep every value
+ */
+function mergeHeaders(all: Record<string, string | string[]>[]): Record<string, string | string[]> {
+  const merged: Record<string, string[]> = {};
+  for (const headers of all) {
+    for (const [name, value] of Object.entries(headers)) {
+      for (const item of Array.isArray(value) ? value : [value]) {
+        merged[name] ??= [];
+        if (!merged[name].includes(item)) {
+          merged[name].push(item);
+        }
+      }
+    }
+  }
+  return Object.fromEntries(
+    Object.entries(merged).map(([name, values]) => [name, values.length === 1 ? values[0] : values])
+  );
+}
+
+function sendCaptured(reply: FastifyReply, { statusCode, headers, body }: CapturedResponse) {
+  for (const [name, value] of Object.entries(headers)) {
+    reply.header(name, value);
+  }
+  return reply.code(statusCode).send(body);
+}
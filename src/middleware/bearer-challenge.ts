@@ -0,0 +1,134 @@
+import type { FastifyReply, FastifyRequest } from 'fastify';
+import { config } from '../config/index.js';
+
+// RFC6750 b64token
+const BEARER_TOKEN_PATTERN = /^[A-Za-z0-9\-._~+/]+=*$/;
+
+/**
+ * RFC6750 error codes for the Bearer WWW-Authenticate challenge
+ * (invalid_dpop_proof is the RFC9449 addition for the DPoP scheme)
+ */
+export type BearerError =
+  | 'invalid_request'
+  | 'invalid_token'
+  | 'insufficient_scope'
+  | 'invalid_dpop_proof';
+
+/**
+ * Authorization schemes that carry an access token
+ */
+export type TokenScheme = 'Bearer' | 'DPoP';
+
+export interface BearerChallenge {
+  /** Challenge scheme (default: Bearer) */
+  scheme?: TokenScheme;
+  /** Omitted when the request carried no bearer token at all (RFC6750 section 3.1) */
+  error?: BearerError;
+  description?: string;
+  /** Scopes that would satisfy the request (insufficient_scope) */
+  scope?: string[];
+  /** Accepted DPoP proof algorithms (DPoP scheme only) */
+  algs?: string[];
+}
+
+const STATUS_CODES: Record<BearerError, number> = {
+  invalid_request: 400,
+  invalid_token: 401,
+  insufficient_scope: 403,
+  invalid_dpop_proof: 401,
+};
+
+/**
+ * Build a WWW-Authenticate value, e.g.
+ * `Bearer realm="api", error="invalid_token", error_description="Token has expired"`
+ */
+export function buildBearerChallenge(
+  challenge: BearerChallenge,
+  realm: string = config.jwt.realm
+): string {
+  const params = [`realm="${quote(realm)}"`];
+
+  if (challenge.error) {
+    params.push(`error="${challenge.error}"`);
+  }
+  if (challenge.description) {
+    params.push(`error_description="${quote(challenge.description)}"`);
+  }
+  if (challenge.scope && challenge.scope.length > 0) {
+    params.push(`scope="${quote(challenge.scope.join(' '))}"`);
+  }
+  if (challenge.algs && challenge.algs.length > 0) {
+    params.push(`algs="${quote(challenge.algs.join(' '))}"`);
+  }
+
+  return `${challenge.scheme ?? 'Bearer'} ${params.join(', ')}`;
+}
+
+/**
+ * Send an error response with a Bearer challenge; the status follows the error code
+ */
+export function sendBearerChallenge(
+  reply: FastifyReply,
+  challenge: BearerChallenge,
+  body: Record<string, unknown>
+) {
+  const statusCode = challenge.error ? STATUS_CODES[challenge.error] : 401;
+
+  return reply
+    .header('WWW-Authenticate', buildBearerChallenge(challenge))
+    .code(statusCode)
+    .send(body);
+}
+
+/**
+ * Read the bearer token from the Authorization header (the scheme is case-insensitive)
+ * Sends the challenge and returns undefined when there is no usable token
+ */
+export function extractBearerToken(
+  request: FastifyRequest,
+  reply: FastifyReply
+): string | undefined {
+  return extractAccessToken(request, reply, ['Bearer'])?.token;
+}
+
+/**
+ * Read an access token sent with any of the given schemes, e.g. Bearer or DPoP
+ * Missing credentials are challenged with the first scheme
+ */
+export function extractAccessToken(
+  request: FastifyRequest,
+  reply: FastifyReply,
+  schemes: TokenScheme[]
+): { scheme: TokenScheme; token: string } | undefined {
+  const authHeader = request.headers.authorization;
+  const [name = '', token = ''] = authHeader?.split(/ +(.*)/s) ?? [];
+  const scheme = schemes.find((candidate) => candidate.toLowerCase() === name.toLowerCase());
+
+  if (!authHeader || !scheme) {
+    // No bearer credentials: a bare challenge without an error code (RFC6750 3.1)
+    sendBearerChallenge(
+      reply,
+      { scheme: schemes[0] },
+      { error: 'Unauthorized', message: 'Invalid or missing token' }
+    );
+    return undefined;
+  }
+
+  if (!BEARER_TOKEN_PATTERN.test(token)) {
+    sendBearerChallenge(
+      reply,
+      { scheme, error: 'invalid_request', description: 'Malformed bearer token' },
+      { error: 'Bad Request', message: 'Malformed bearer token', reason: 'invalid_request' }
+    );
+    return undefined;
+  }
+
+  return { scheme, token };
+}
+
+/**
+ * Challenge parameters only allow printable ASCII without quotes or backslashes
+ */
+function quote(value: string): string {
+  return value.replace(/["\\]/g, '').replace(/[^\x20-\x7e]/g, '');
+}
@@ -0,0 +1,190 @@
+import { createHash } from 'node:crypto';
+import { calculateJwkThumbprint, EmbeddedJWK, jwtVerify, type JWK, type JWTPayload } from 'jose';
+import type { FastifyRequest } from 'fastify';
+import { config } from '../config/index.js';
+import type { TokenScheme } from './bearer-challenge.js';
+import { extractComponent } from './http-signature/components.js';
+import {
+  createMemoryReplayStore,
+  createRedisReplayStore,
+  type ReplayStore,
+} from './http-signature/replay.js';
+
+/**
+ * Options for DPoP proof verification (default to the JWT_DPOP_* config)
+ */
+export interface DpopOptions {
+  /** Signing algorithms accepted for proofs */
+  algorithms?: string[];
+  /** Seconds a proof is accepted after its iat */
+  maxAge?: number;
+  /** Allowed clock skew for the iat check, in seconds */
+  clockTolerance?: number;
+  /** Store of seen proof jtis (default: Redis when available, else in-memory) */
+  replayStore?: ReplayStore;
+}
+
+/**
+ * DPoP check failed; error is the RFC 9449 challenge error code
+ */
+export class DpopError extends Error {
+  constructor(
+    message: string,
+    public readonly error: 'invalid_token' | 'invalid_dpop_proof' = 'invalid_dpop_proof'
+  ) {
+    super(message);
+    this.name = 'DpopError';
+  }
+}
+
+const REPLAY_PREFIX = 'dpop:jti';
+
+// Lazy-initialized store shared by all jwtAuth instances when Redis is absent
+let defaultMemoryStore: ReplayStore | null = null;
+
+function getReplayStore(request: FastifyRequest): ReplayStore {
+  if (request.server?.redis) {
+    return createRedisReplayStore(request.server.redis, REPLAY_PREFIX);
+  }
+  if (!defaultMemoryStore) {
+    defaultMemoryStore = createMemoryReplayStore();
+  }
+  return defaultMemoryStore;
+}
+
+/**
+ * The cnf.jkt confirmation of a DPoP-bound access token (RFC 9449 section 6.1)
+ */
+export function getTokenThumbprint(payload: JWTPayload): string | undefined {
+  const cnf = payload.cnf as { jkt?: unknown } | undefined;
+  return typeof cnf?.jkt === 'string' ? cnf.jkt : undefined;
+}
+
+/**
+ * Check that an access token is used as its binding requires
+ * Bound tokens need the DPoP scheme and a proof signed by the bound key; with
+ * `required`, unbound tokens are rejected too
+ */
+export async function verifyDpopBinding(
+  request: FastifyRequest,
+  accessToken: string,
+  scheme: TokenScheme,
+  payload: JWTPayload,
+  required: boolean,
+  options: DpopOptions = {}
+): Promise<void> {
+  const jkt = getTokenThumbprint(payload);
+
+  if (jkt === undefined) {
+    if (scheme === 'DPoP' || required) {
+      throw new DpopError('Token is not DPoP-bound', 'invalid_token');
+    }
+    return;
+  }
+  if (scheme !== 'DPoP') {
+    throw new DpopError('DPoP-bound token must use the DPoP scheme', 'invalid_token');
+  }
+
+  const thumbprint = await verifyDpopProof(request, accessToken, options);
+  if (thumbprint !== jkt) {
+    throw new DpopError('DPoP proof key does not match the token binding');
+  }
+}
+
+/**
+ * Verify the DPoP header proof for a request (RFC 9449 section 4.3)
+ * @returns The JWK SHA-256 thumbprint of the proof key
+ */
+export async function verifyDpopProof(
+  request: FastifyRequest,
+  accessToken: string,
+  options: DpopOptions = {}
+): Promise<string> {
+  const {
+    algorithms = config.jwt.dpopAlgorithms,
+    maxAge = config.jwt.dpopMaxAge,
+    clockTolerance = config.jwt.clockTolerance,
+    replayStore = getReplayStore(request),
+  } = options;
+
+  // Repeated headers are joined with commas, which a compact JWS never contains
+  const proof = request.headers.dpop;
+  if (typeof proof !== 'string' || proof.includes(',')) {
+    throw new DpopError('Exactly one DPoP proof is required');
+  }
+
+  let payload: JWTPayload;
+  let jwk: JWK | undefined;
+  try {
+    // The proof is signed by the public key in its own jwk header
+    const result = await jwtVerify(proof, EmbeddedJWK, { typ: 'dpop+jwt', algorithms });
+    payload = result.payload;
+    jwk = result.protectedHeader.jwk;
+  } catch (error) {
+    request.log.debug(
+      { err: error instanceof Error ? error.message : error },
+      'DPoP proof rejected'
+    );
+    throw new DpopError('DPoP proof is invalid');
+  }
+
+  if (payload.htm !== extractComponent(request, '@method')) {
+    throw new DpopError('DPoP proof htm does not match the request method');
+  }
+  if (!matchesTargetUri(request, payload.htu)) {
+    throw new DpopError('DPoP proof htu does not match the request URI');
+  }
+
+  const now = Math.floor(Date.now() / 1000);
+  if (
+    typeof payload.iat !== 'number' ||
+    payload.iat > now + clockTolerance ||
+    payload.iat < now - maxAge - clockTolerance
+  ) {
+    throw new DpopError('DPoP proof iat is outside the acceptance window');
+  }
+  if (typeof payload.jti !== 'string' || payload.jti.length === 0) {
+    throw new DpopError('DPoP proof has no jti');
+  }
+  if (payload.ath !== createHash('sha256').update(accessToken).digest('base64url')) {
+    throw new DpopError('DPoP proof ath does not match the access token');
+  }
+
+  const thumbprint = await calculateJwkThumbprint(jwk!, 'sha256');
+
+  // Recorded last so rejected proofs do not use up their jti
+  const ttl = maxAge + 2 * clockTolerance;
+  if (!(await replayStore.checkAndStore(thumbprint, payload.jti, ttl))) {
+    throw new DpopError('DPoP proof has already been used');
+  }
+
+  return thumbprint;
+}
+
+/**
+ * htu is compared without query and fragment (RFC 9449 section 4.3), using the same
+ * target URI as HTTP message signatures; both sides are normalized by URL
+ */
+function matchesTargetUri(request: FastifyRequest, htu: unknown): boolean {
+  if (typeof htu !== 'string') {
+    return false;
+  }
+  let proofUrl: URL;
+  try {
+    proofUrl = new URL(htu);
+  } catch {
+    return false;
+  }
+
+  const scheme = extractComponent(request, '@scheme');
+  const authority = extractComponent(request, '@authority');
+  const path = extractComponent(request, '@path');
+  return (
+    `${proofUrl.protocol}//${proofUrl.host}${proofUrl.pathname}` ===
+    `${scheme}://${authority}${path}`
+  );
+}
+
+export function resetDpopReplayStore(): void {
+  defaultMemoryStore = null;
+}
@@ -0,0 +1,139 @@
+import type { SignerOptions } from './types.js';
+import { parseComponentId } from './components.js';
+import {
+  isInnerList,
+  parseDictionary,
+  serializeDictionary,
+  serializeParameters,
+  type Dictionary,
+  type Parameters,
+} from './structured-fields.js';
+
+/**
+ * A signature requested through the Accept-Signature field (RFC9421 section 5.1)
+ */
+export interface SignatureRequest {
+  label: string;
+  components: string[];
+  keyid?: string;
+  alg?: string;
+  /** Include a created timestamp */
+  created?: boolean;
+  /** Include an expiry */
+  expires?: boolean;
+  /** Include a nonce, or use the given server-provided value */
+  nonce?: boolean | string;
+  tag?: string;
+}
+
+/** Lifetime of signatures whose expiry was requested without one being configured */
+const DEFAULT_EXPIRES_IN = 300;
+
+/**
+ * Serialize signature requests as an Accept-Signature value
+ */
+export function buildAcceptSignature(requests: SignatureRequest[]): string {
+  const dictionary: Dictionary = new Map();
+
+  for (const request of requests) {
+    const params: Parameters = new Map();
+    if (request.created) {
+      params.set('created', true);
+    }
+    if (request.expires) {
+      params.set('expires', true);
+    }
+    if (request.keyid !== undefined) {
+      params.set('keyid', request.keyid);
+    }
+    if (request.alg !== undefined) {
+      params.set('alg', request.alg);
+    }
+    if (request.nonce) {
+      params.set('nonce', request.nonce);
+    }
+    if (request.tag !== undefined) {
+      params.set('tag', request.tag);
+    }
+
+    const items = request.components.map((component) => {
+      const { name, params: componentParams } = parseComponentId(component);
+      return { value: name, params: componentParams };
+    });
+
+    dictionary.set(request.label, { items, params });
+  }
+
+  return serializeDictionary(dictionary);
+}
+
+/**
+ * Parse an Accept-Signature value; malformed members are skipped
+ */
+export function parseAcceptSignature(header: string): SignatureRequest[] {
+  let dictionary: Dictionary;
+  try {
+    dictionary = parseDictionary(header);
+  } catch {
+    return [];
+  }
+
+  const requests: SignatureRequest[] = [];
+
+  for (const [label, member] of dictionary) {
+    if (!isInnerList(member) || member.items.some((item) => typeof item.value !== 'string')) {
+      continue;
+    }
+
+    const { params } = member;
+    const keyid = params.get('keyid');
+    const alg = params.get('alg');
+    const nonce = params.get('nonce');
+    const tag = params.get('tag');
+
+    requests.push({
+      label,
+      components: member.items.map((item) => `${item.value}${serializeParameters(item.params)}`),
+      keyid: typeof keyid === 'string' ? keyid : undefined,
+      alg: typeof alg === 'string' ? alg : undefined,
+      created: params.has('created'),
+      expires: params.has('expires'),
+      nonce: typeof nonce === 'string' ? nonce : params.has('nonce'),
+      tag: typeof tag === 'string' ? tag : undefined,
+    });
+  }
+
+  return requests;
+}
+
+/**
+ * Adapt signer options to the first requested signature this signer can produce
+ * @throws if every request names a different keyid or algorithm
+ */
+export function applyAcceptSignature(options: SignerOptions, header: string): SignerOptions {
+  const request = parseAcceptSignature(header).find(
+    (r) =>
+      (r.keyid === undefined || r.keyid === options.keyId) &&
+      (r.alg === undefined || r.alg === options.algorithm)
+  );
+
+  if (!request) {
+    throw new Error(
+      `Accept-Signature does not allow keyid ${options.keyId} with algorithm ${options.algorithm}`
+    );
+  }
+
+  const { nonce } = request;
+
+  return {
+    ...options,
+    label: request.label,
+    components: request.components,
+    // Everything the server asked for must be signed
+    optionalComponents: undefined,
+    includeAlg: request.alg !== undefined || options.includeAlg,
+    nonce: typeof nonce === 'string' ? () => nonce : nonce || options.nonce,
+    tag: request.tag ?? options.tag,
+    expiresIn: request.expires ? (options.expiresIn ?? DEFAULT_EXPIRES_IN) : options.expiresIn,
+  };
+}
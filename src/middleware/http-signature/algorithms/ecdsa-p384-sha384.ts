@@ -0,0 +1,31 @@
+import * as crypto from 'node:crypto';
+import type { KeyLike } from '../types.js';
+import { registerAlgorithm } from './index.js';
+
+registerAlgorithm({
+  name: 'ecdsa-p384-sha384',
+  joseAlgorithm: 'ES384',
+  keyTypes: ['ec'],
+  namedCurve: 'secp384r1',
+
+  async verify(publicKey: KeyLike, signature: Uint8Array, data: Uint8Array): Promise<boolean> {
+    try {
+      // RFC9421 signatures are the raw r||s concatenation, not DER
+      return crypto.verify(
+        'sha384',
+        data,
+        { key: publicKey as crypto.KeyObject, dsaEncoding: 'ieee-p1363' },
+        signature
+      );
+    } catch {
+      return false;
+    }
+  },
+
+  async sign(privateKey: KeyLike, data: Uint8Array): Promise<Uint8Array> {
+    return crypto.sign('sha384', data, {
+      key: privateKey as crypto.KeyObject,
+      dsaEncoding: 'ieee-p1363',
+    });
+  },
+});
@@ -0,0 +1,22 @@
+import * as crypto from 'node:crypto';
+import type { KeyLike } from '../types.js';
+import { registerAlgorithm } from './index.js';
+
+registerAlgorithm({
+  name: 'ed25519',
+  joseAlgorithm: 'Ed25519',
+  keyTypes: ['ed25519'],
+
+  async verify(publicKey: KeyLike, signature: Uint8Array, data: Uint8Array): Promise<boolean> {
+    try {
+      // EdDSA hashes internally, so no digest algorithm is passed
+      return crypto.verify(null, data, publicKey as crypto.KeyObject, signature);
+    } catch {
+      return false;
+    }
+  },
+
+  async sign(privateKey: KeyLike, data: Uint8Array): Promise<Uint8Array> {
+    return crypto.sign(null, data, privateKey as crypto.KeyObject);
+  },
+});
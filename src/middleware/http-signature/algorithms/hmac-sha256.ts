@@ -0,0 +1,28 @@
+import * as crypto from 'node:crypto';
+import type { KeyLike } from '../types.js';
+import { registerAlgorithm } from './index.js';
+
+registerAlgorithm({
+  name: 'hmac-sha256',
+  joseAlgorithm: 'HS256',
+  symmetric: true,
+
+  async verify(secret: KeyLike, signature: Uint8Array, data: Uint8Array): Promise<boolean> {
+    try {
+      const expected = crypto
+        .createHmac('sha256', secret as crypto.KeyObject | Uint8Array)
+        .update(data)
+        .digest();
+      return signature.length === expected.length && crypto.timingSafeEqual(signature, expected);
+    } catch {
+      return false;
+    }
+  },
+
+  async sign(secret: KeyLike, data: Uint8Array): Promise<Uint8Array> {
+    return crypto
+      .createHmac('sha256', secret as crypto.KeyObject | Uint8Array)
+      .update(data)
+      .digest();
+  },
+});
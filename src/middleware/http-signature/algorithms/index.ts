@@ -1,3 +1,4 @@
+import type { KeyObject } from 'node:crypto';
 import type { SignatureAlgorithm } from '../types.js';
 
 const registry = new Map<string, SignatureAlgorithm>();
@@ -13,3 +14,24 @@ export function getAlgorithm(name: string): SignatureAlgorithm | undefined {
 export function getRegisteredAlgorithms(): string[] {
   return Array.from(registry.keys());
 }
+
+/**
+ * Map an RFC9421 algorithm name to its JOSE identifier (for key import and JWKS lookup)
+ */
+export function getJoseAlgorithm(name: string): string | undefined {
+  return registry.get(name)?.joseAlgorithm;
+}
+
+/**
+ * Whether a public key is of the type (and curve) an algorithm verifies with
+ */
+export function keyMatchesAlgorithm(key: KeyObject, name: string): boolean {
+  const algo = registry.get(name);
+  if (!algo?.keyTypes || !key.asymmetricKeyType) {
+    return false;
+  }
+  if (!algo.keyTypes.includes(key.asymmetricKeyType)) {
+    return false;
+  }
+  return algo.namedCurve === undefined || key.asymmetricKeyDetails?.namedCurve === algo.namedCurve;
+}
@@ -4,6 +4,8 @@ import { registerAlgorithm } from './index.js';
 
 registerAlgorithm({
   name: 'rsa-pss-sha512',
+  joseAlgorithm: 'PS512',
+  keyTypes: ['rsa', 'rsa-pss'],
 
   async verify(publicKey: KeyLike, signature: Uint8Array, data: Uint8Array): Promise<boolean> {
     try {
@@ -4,6 +4,8 @@ import { registerAlgorithm } from './index.js';
 
 registerAlgorithm({
   name: 'rsa-v1_5-sha256',
+  joseAlgorithm: 'RS256',
+  keyTypes: ['rsa'],
 
   async verify(publicKey: KeyLike, signature: Uint8Array, data: Uint8Array): Promise<boolean> {
     try {
@@ -1,49 +1,255 @@
 import type { FastifyRequest } from 'fastify';
+import {
+  parseDictionary,
+  parseList,
+  parseParameters,
+  serializeDictionary,
+  serializeItem,
+  serializeList,
+  serializeMember,
+  type Parameters,
+} from './structured-fields.js';
+
+/**
+ * The parts of an HTTP message that signature components are derived from
+ * Lets requests and responses, incoming and outgoing, share one extraction path
+ */
+export interface HttpMessage {
+  method?: string;
+  /** Absolute target URI of the request */
+  targetUri?: string;
+  /** Response status code */
+  status?: number;
+  /** Field lines for a lowercase field name, or undefined if the field is absent */
+  fieldLines(name: string): string[] | undefined;
+}
+
+/**
+ * A component identifier split into its name and parameters
+ * e.g. `@query-param;name="foo"` or `example-dict;key="a"`
+ */
+export interface ComponentId {
+  name: string;
+  params: Parameters;
+}
+
+export function parseComponentId(component: string): ComponentId {
+  const paramsIndex = component.indexOf(';');
+  if (paramsIndex < 0) {
+    return { name: component, params: new Map() };
+  }
+  return {
+    name: component.slice(0, paramsIndex),
+    params: parseParameters(component.slice(paramsIndex)),
+  };
+}
+
+/**
+ * Serialize a component identifier as it appears in the signature base and Signature-Input
+ */
+export function serializeComponentId(component: string): string {
+  const { name, params } = parseComponentId(component);
+  return serializeItem({ value: name, params });
+}
+
+/**
+ * Target URI of a Fastify request, as the client addressed it
+ * The port is kept unless it is the scheme's default, matching URL.host on the signing side
+ */
+export function requestTargetUri(request: FastifyRequest): string {
+  const defaultPort = request.protocol === 'https' ? ':443' : ':80';
+  const host = request.host.endsWith(defaultPort)
+    ? request.host.slice(0, -defaultPort.length)
+    : request.host;
+  return `${request.protocol}://${host}${request.url}`;
+}
+
+/**
+ * View a Fastify request as an HTTP message
+ */
+export function requestMessage(request: FastifyRequest): HttpMessage {
+  return {
+    method: request.method,
+    targetUri: requestTargetUri(request),
+    fieldLines(name: string): string[] | undefined {
+      // Raw headers keep repeated field lines that Node may otherwise merge or drop
+      const rawHeaders = request.raw?.rawHeaders;
+      if (rawHeaders) {
+        const lines: string[] = [];
+        for (let i = 0; i < rawHeaders.length; i += 2) {
+          if (rawHeaders[i].toLowerCase() === name) {
+            lines.push(rawHeaders[i + 1]);
+          }
+        }
+        return lines.length > 0 ? lines : undefined;
+      }
+
+      const value = request.headers[name];
+      if (value === undefined) {
+        return undefined;
+      }
+      return Array.isArray(value) ? value : [value];
+    },
+  };
+}
 
 /**
  * Extract a component value from a request per RFC9421
  */
 export function extractComponent(request: FastifyRequest, component: string): string | undefined {
-  // Derived components start with @
-  if (component.startsWith('@')) {
-    return extractDerivedComponent(request, component);
+  return extractMessageComponent(requestMessage(request), component);
+}
+
+/**
+ * Extract a component value from a message per RFC9421
+ * @param related - The request a response answers, used by components with ;req
+ * @returns undefined when the component is absent or cannot be derived
+ */
+export function extractMessageComponent(
+  message: HttpMessage,
+  component: string,
+  related?: HttpMessage
+): string | undefined {
+  let id: ComponentId;
+  try {
+    id = parseComponentId(component);
+  } catch {
+    return undefined;
+  }
+
+  const source = id.params.has('req') ? related : message;
+  if (!source) {
+    return undefined;
   }
 
-  // Regular headers (case-insensitive lookup)
-  const headerValue = request.headers[component.toLowerCase()];
-  if (Array.isArray(headerValue)) {
-    return headerValue.join(', ');
+  // Derived components start with @
+  if (id.name.startsWith('@')) {
+    return extractDerivedComponent(source, id);
   }
-  return headerValue;
+
+  return extractFieldComponent(source, id);
 }
 
-function extractDerivedComponent(request: FastifyRequest, component: string): string | undefined {
-  switch (component) {
-    case '@method':
-      return request.method;
+function extractDerivedComponent(
+  message: HttpMessage,
+  { name, params }: ComponentId
+): string | undefined {
+  if (name === '@method') {
+    return message.method;
+  }
+  if (name === '@status') {
+    return message.status !== undefined ? String(message.status) : undefined;
+  }
+  if (name === '@target-uri') {
+    return message.targetUri;
+  }
 
-    case '@target-uri':
-      return `${request.protocol}://${request.hostname}${request.url}`;
+  const url = parseUrl(message.targetUri);
+  if (!url) {
+    return undefined;
+  }
 
+  switch (name) {
     case '@authority':
-      return request.hostname;
+      return url.host;
 
     case '@scheme':
-      return request.protocol;
+      return url.protocol.replace(':', '');
 
-    case '@path': {
-      const url = request.url;
-      const queryIndex = url.indexOf('?');
-      return queryIndex >= 0 ? url.substring(0, queryIndex) : url;
-    }
+    case '@request-target':
+      return `${url.pathname}${url.search}`;
+
+    case '@path':
+      return url.pathname;
+
+    case '@query':
+      return url.search || '?';
 
-    case '@query': {
-      const url = request.url;
-      const queryIndex = url.indexOf('?');
-      return queryIndex >= 0 ? url.substring(queryIndex) : '?';
+    case '@query-param': {
+      const paramName = params.get('name');
+      return typeof paramName === 'string' ? extractQueryParam(url, paramName) : undefined;
     }
 
     default:
       return undefined;
   }
 }
+
+/**
+ * Query parameters are decoded and re-encoded so both sides agree on the value
+ * Repeated parameters are ambiguous and are treated as absent
+ */
+function extractQueryParam(url: URL, encodedName: string): string | undefined {
+  const values: string[] = [];
+  for (const [name, value] of url.searchParams) {
+    if (encodeURIComponent(name) === encodedName) {
+      values.push(value);
+    }
+  }
+  return values.length === 1 ? encodeURIComponent(values[0]) : undefined;
+}
+
+function extractFieldComponent(
+  message: HttpMessage,
+  { name, params }: ComponentId
+): string | undefined {
+  const lines = message.fieldLines(name.toLowerCase());
+  if (!lines) {
+    return undefined;
+  }
+
+  // Binary-wrapped fields keep each line intact, e.g. for Set-Cookie
+  if (params.has('bs')) {
+    if (params.has('sf') || params.has('key')) {
+      return undefined;
+    }
+    return lines.map((line) => `:${Buffer.from(line.trim()).toString('base64')}:`).join(', ');
+  }
+
+  const value = lines.map((line) => line.trim()).join(', ');
+
+  try {
+    const key = params.get('key');
+    if (key !== undefined) {
+      if (typeof key !== 'string') {
+        return undefined;
+      }
+      const member = parseDictionary(value).get(key);
+      return member ? serializeMember(member) : undefined;
+    }
+
+    if (params.has('sf')) {
+      return serializeStructuredField(value);
+    }
+  } catch {
+    // Not a valid structured field
+    return undefined;
+  }
+
+  return value;
+}
+
+/**
+ * Re-serialize a structured field so whitespace differences do not break signatures
+ * The field type is not known here, so a dictionary is tried before a list
+ * (where both parse, e.g. "a, b", they serialize identically)
+ */
+function serializeStructuredField(value: string): string {
+  try {
+    return serializeDictionary(parseDictionary(value));
+  } catch {
+    // Not a dictionary
+  }
+  return serializeList(parseList(value));
+}
+
+function parseUrl(targetUri: string | undefined): URL | undefined {
+  if (!targetUri) {
+    return undefined;
+  }
+  try {
+    return new URL(targetUri);
+  } catch {
+    return undefined;
+  }
+}
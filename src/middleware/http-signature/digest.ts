@@ -0,0 +1,88 @@
+import * as crypto from 'node:crypto';
+
+/**
+ * Digest algorithms supported for Content-Digest per RFC9530
+ */
+const DIGEST_ALGORITHMS: Record<string, string> = {
+  'sha-256': 'sha256',
+  'sha-512': 'sha512',
+};
+
+/**
+ * A single verified Content-Digest entry
+ */
+export interface ContentDigest {
+  algorithm: string;
+  value: string;
+}
+
+export interface DigestVerificationResult {
+  valid: boolean;
+  digest?: ContentDigest;
+  error?: string;
+}
+
+/**
+ * Compute a Content-Digest header value for a body
+ */
+export function computeContentDigest(body: string | Uint8Array, algorithm = 'sha-256'): string {
+  const hashName = DIGEST_ALGORITHMS[algorithm];
+  if (!hashName) {
+    throw new Error(`Unsupported digest algorithm: ${algorithm}`);
+  }
+
+  const hash = crypto.createHash(hashName).update(body).digest('base64');
+  return `${algorithm}=:${hash}:`;
+}
+
+/**
+ * Parse a Content-Digest header into algorithm/value pairs
+ */
+export function parseContentDigest(header: string): ContentDigest[] {
+  const results: ContentDigest[] = [];
+
+  // Format: sha-256=:base64:, sha-512=:base64:
+  const regex = /([a-z][a-z0-9-]*)=:([A-Za-z0-9+/=]*):/g;
+  let match;
+
+  while ((match = regex.exec(header)) !== null) {
+    results.push({
+      algorithm: match[1],
+      value: match[2],
+    });
+  }
+
+  return results;
+}
+
+/**
+ * Verify a Content-Digest header against the received body
+ * Every supported algorithm present in the header must match; unknown algorithms are ignored
+ */
+export function verifyContentDigest(
+  header: string | undefined,
+  body: Uint8Array
+): DigestVerificationResult {
+  if (!header) {
+    return { valid: false, error: 'digest_mismatch' };
+  }
+
+  const digests = parseContentDigest(header).filter((d) => d.algorithm in DIGEST_ALGORITHMS);
+  if (digests.length === 0) {
+    return { valid: false, error: 'digest_mismatch' };
+  }
+
+  for (const digest of digests) {
+    const expected = crypto.createHash(DIGEST_ALGORITHMS[digest.algorithm]).update(body).digest();
+    const received = Buffer.from(digest.value, 'base64');
+
+    if (received.length !== expected.length || !crypto.timingSafeEqual(received, expected)) {
+      return { valid: false, error: 'digest_mismatch' };
+    }
+  }
+
+  // Report the strongest verified digest
+  const digest = digests.find((d) => d.algorithm === 'sha-512') ?? digests[0];
+
+  return { valid: true, digest };
+}
@@ -1,7 +1,9 @@
-import type { HttpSignatureInfo } from './types.js';
+import type { HttpSignatureInfo, Signer } from './types.js';
 
 declare module 'fastify' {
   interface FastifyRequest {
     httpSignature?: HttpSignatureInfo;
+    /** Set by signResponse(); responseSigningPlugin signs the response with it */
+    responseSigner?: Signer | null;
   }
 }
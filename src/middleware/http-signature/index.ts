@@ -1,9 +1,18 @@
-import type { preHandlerHookHandler } from 'fastify';
-import type { HttpSigOptions, HttpSignatureInfo } from './types.js';
+import type { FastifyRequest, preHandlerHookHandler } from 'fastify';
+import type { HttpSigOptions, VerifiedSignature } from './types.js';
 import { config } from '../../config/index.js';
 import { parseSignatureInput, parseSignature } from './parse.js';
 import { verifySignature } from './verify.js';
-import { createKeyResolver } from './jwks.js';
+import { createKeyResolver, type KeyResolver } from './jwks.js';
+import { createSecretKeyResolver } from './secrets.js';
+import { getAlgorithm } from './algorithms/index.js';
+import { buildAcceptSignature } from './accept-signature.js';
+import {
+  createRedisReplayStore,
+  getDefaultMemoryReplayStore,
+  type ReplayStore,
+} from './replay.js';
+import { namedStrategy } from '../auth.js';
 
 // Import types to augment FastifyRequest
 import './http-signature-types.js';
@@ -11,9 +20,28 @@ import './http-signature-types.js';
 // Import algorithms to register them
 import './algorithms/rsa-pss-sha512.js';
 import './algorithms/rsa-v1_5-sha256.js';
+import './algorithms/ed25519.js';
+import './algorithms/ecdsa-p256-sha256.js';
+import './algorithms/ecdsa-p384-sha384.js';
+import './algorithms/hmac-sha256.js';
 
 const DEFAULT_REQUIRED_COMPONENTS = ['@method', '@target-uri', '@authority'];
 
+const ERROR_MESSAGES: Record<string, string> = {
+  unsupported_algorithm: 'Unsupported signature algorithm',
+  algorithm_not_allowed: 'Signature algorithm not allowed',
+  signature_expired: 'Signature has expired',
+  signature_future: 'Signature timestamp is in the future',
+  key_not_found: 'Signing key not found',
+  invalid_signature: 'Signature verification failed',
+  verification_failed: 'Signature verification failed',
+  digest_mismatch: 'Content-Digest does not match request body',
+  nonce_required: 'Signature nonce required',
+  created_required: 'Signature created parameter required',
+  invalid_component: 'Signature covers a component the request does not have',
+  replayed_signature: 'Signature has already been used',
+};
+
 /**
  * HTTP Signature verification middleware factory
  */
@@ -21,18 +49,55 @@ export function httpSig(options: HttpSigOptions = {}): preHandlerHookHandler {
   const {
     required = DEFAULT_REQUIRED_COMPONENTS,
     jwksUrl = config.httpSignature.jwksUrl,
+    keyDirs = config.httpSignature.keyDirs,
+    secretDirs = config.httpSignature.secretDirs,
     maxAge = config.httpSignature.maxAge,
     algorithms,
+    defaultAlgorithm,
+    requireNonce = false,
+    label,
+    keyId,
+    minSignatures = 1,
   } = options;
 
-  return async (request, reply) => {
+  if (!Number.isInteger(minSignatures) || minSignatures < 1) {
+    throw new Error(`httpSig minSignatures must be a positive integer, got ${minSignatures}`);
+  }
+
+  const jwksUrls = jwksUrl ? (Array.isArray(jwksUrl) ? jwksUrl : [jwksUrl]) : [];
+
+  // Tell clients exactly what to sign; a single allowed algorithm or keyid is requested explicitly
+  const acceptSignature = buildAcceptSignature([
+    {
+      label: label ?? 'sig1',
+      components: required,
+      keyid: typeof keyId === 'string' ? keyId : undefined,
+      alg: algorithms?.length === 1 ? algorithms[0] : undefined,
+      // Only asked for where it is enforced, i.e. to bound how long nonces are remembered
+      created: requireNonce || options.replayStore !== undefined,
+      nonce: requireNonce,
+    },
+  ]);
+
+  // One resolver per middleware instance so JWKS documents are cached across requests
+  let keyResolver: KeyResolver | null = options.keyResolver ?? null;
+  let secretResolver: KeyResolver | null = options.secretResolver ?? null;
+  let replayStore: ReplayStore | null = options.replayStore ?? null;
+
+  return namedStrategy('httpSig', async (request, reply) => {
     // Extract headers
     const signatureHeader = request.headers['signature'] as string | undefined;
     const signatureInputHeader = request.headers['signature-input'] as string | undefined;
 
     // Check for required headers
     if (!signatureHeader || !signatureInputHeader) {
-      return sendChallenge(reply, 'signature_required', 'Request signature required', required);
+      return sendChallenge(
+        reply,
+        acceptSignature,
+        'signature_required',
+        'Request signature required',
+        required
+      );
     }
 
     // Parse headers
@@ -40,76 +105,174 @@ export function httpSig(options: HttpSigOptions = {}): preHandlerHookHandler {
     const signatures = parseSignature(signatureHeader);
 
     if (sigInputs.length === 0 || signatures.length === 0) {
-      return sendChallenge(reply, 'invalid_signature', 'Invalid signature format', required);
+      return sendChallenge(
+        reply,
+        acceptSignature,
+        'invalid_signature',
+        'Invalid signature format',
+        required
+      );
     }
 
-    // Find matching signature input and signature
-    const sigInput = sigInputs[0];
-    const signature = signatures.find((s) => s.label === sigInput.label);
+    // Select the signatures this route cares about (a gateway may have added its own)
+    const candidates = sigInputs.filter(
+      (input) => (!label || input.label === label) && matchesKeyId(input.keyid, keyId)
+    );
 
-    if (!signature) {
-      return sendChallenge(reply, 'invalid_signature', 'Signature label mismatch', required);
+    if (candidates.length === 0) {
+      return sendChallenge(
+        reply,
+        acceptSignature,
+        'invalid_signature',
+        'No signature matches the required label or keyid',
+        required
+      );
     }
 
-    // Check required components are covered
-    const missingComponents = required.filter((c) => !sigInput.components.includes(c));
-    if (missingComponents.length > 0) {
+    // A covered Content-Digest the client did not send can never match
+    const coversDigest = candidates.some((input) => input.components.includes('content-digest'));
+    if (coversDigest && !request.headers['content-digest']) {
       return sendChallenge(
         reply,
-        'missing_components',
-        `Signature must cover: ${missingComponents.join(', ')}`,
+        acceptSignature,
+        'digest_mismatch',
+        'Content-Digest header is covered by the signature but missing',
         required,
-        missingComponents
+        ['content-digest']
       );
     }
 
-    // Get key resolver
-    if (!jwksUrl) {
+    // Content-Digest can only be checked against the exact bytes received; rawBodyPlugin
+    // captures them for every request with the header, so none means it is not registered
+    if (coversDigest && request.rawBody === undefined && request.body !== undefined) {
       return reply.code(500).send({
         error: 'configuration_error',
-        message: 'HTTP_SIG_JWKS_URL not configured',
+        message: 'Raw body capture not enabled (register rawBodyPlugin)',
       });
     }
 
-    const keyResolver = createKeyResolver(jwksUrl);
-
-    // Verify signature
-    const result = await verifySignature(request, sigInput, signature, keyResolver, {
-      maxAge,
-      algorithms,
-    });
-
-    if (!result.valid) {
-      const errorMessages: Record<string, string> = {
-        unsupported_algorithm: 'Unsupported signature algorithm',
-        algorithm_not_allowed: 'Signature algorithm not allowed',
-        signature_expired: 'Signature has expired',
-        signature_future: 'Signature timestamp is in the future',
-        key_not_found: 'Signing key not found',
-        invalid_signature: 'Signature verification failed',
-        verification_failed: 'Signature verification failed',
-      };
+    // Nonces are shared through Redis when available so replays are caught across instances
+    if (!replayStore && requireNonce) {
+      replayStore = request.server?.redis
+        ? createRedisReplayStore(request.server.redis)
+        : getDefaultMemoryReplayStore();
+    }
+
+    // Verify every candidate; the first failure is reported if too few succeed
+    const verified: VerifiedSignature[] = [];
+    let failure: { error: string; message: string; missing?: string[] } | null = null;
+
+    for (const sigInput of candidates) {
+      const signature = signatures.find((s) => s.label === sigInput.label);
+      if (!signature) {
+        failure ??= { error: 'invalid_signature', message: 'Signature label mismatch' };
+        continue;
+      }
+
+      // Check required components are covered
+      const missingComponents = required.filter((c) => !sigInput.components.includes(c));
+      if (missingComponents.length > 0) {
+        failure ??= {
+          error: 'missing_components',
+          message: `Signature must cover: ${missingComponents.join(', ')}`,
+          missing: missingComponents,
+        };
+        continue;
+      }
+
+      const resolver = getResolver(request, sigInput.alg ?? defaultAlgorithm);
+      if (!resolver) {
+        return reply.code(500).send({
+          error: 'configuration_error',
+          message: 'HTTP_SIG_JWKS_URL or HTTP_SIG_KEY_DIRS not configured',
+        });
+      }
+
+      const result = await verifySignature(request, sigInput, signature, resolver, {
+        maxAge,
+        algorithms,
+        defaultAlgorithm,
+        requireNonce,
+        replayStore: replayStore ?? undefined,
+      });
+
+      if (!result.valid) {
+        const error = result.error ?? 'invalid_signature';
+        failure ??= { error, message: ERROR_MESSAGES[error] ?? 'Signature verification failed' };
+        continue;
+      }
+
+      verified.push({
+        label: sigInput.label,
+        keyId: result.keyId!,
+        algorithm: result.algorithm!,
+        components: result.components!,
+        created: result.created,
+        digest: result.digest,
+      });
+    }
 
+    // Signers are counted by key, so one key signing under several labels counts once
+    const signers = new Set(verified.map((signature) => signature.keyId));
+    if (signers.size < minSignatures) {
+      if (failure) {
+        return sendChallenge(
+          reply,
+          acceptSignature,
+          failure.error,
+          failure.message,
+          required,
+          failure.missing
+        );
+      }
       return sendChallenge(
         reply,
-        result.error ?? 'invalid_signature',
-        errorMessages[result.error ?? 'invalid_signature'] ?? 'Signature verification failed',
+        acceptSignature,
+        'insufficient_signatures',
+        `At least ${minSignatures} valid signatures from distinct keys required`,
         required
       );
     }
 
-    // Attach signature info to request
+    // Attach signature info to request (the first verified signature is the primary one)
     request.httpSignature = {
-      keyId: result.keyId!,
-      algorithm: result.algorithm!,
-      components: result.components!,
-      created: result.created,
+      ...verified[0],
+      signatures: verified,
     };
-  };
+  });
+
+  /**
+   * Shared-secret algorithms resolve from the secret store, others from public keys
+   * Returns null when no public key source is configured
+   */
+  function getResolver(request: FastifyRequest, alg: string | undefined): KeyResolver | null {
+    if (alg && getAlgorithm(alg)?.symmetric) {
+      secretResolver ??= createSecretKeyResolver({ secretDirs, redis: request.server?.redis });
+      return secretResolver;
+    }
+
+    if (!keyResolver && (jwksUrls.length > 0 || keyDirs.length > 0)) {
+      keyResolver = createKeyResolver({ jwksUrls, keyDirs, logger: request.server?.log });
+    }
+    return keyResolver;
+  }
+}
+
+function matchesKeyId(keyid: string, pattern: string | RegExp | undefined): boolean {
+  if (pattern === undefined) {
+    return true;
+  }
+  if (typeof pattern === 'string') {
+    return keyid === pattern;
+  }
+  // A g or y flag makes test() resume from the previous match
+  pattern.lastIndex = 0;
+  return pattern.test(keyid);
 }
 
 function sendChallenge(
   reply: any,
+  acceptSignature: string,
   error: string,
   message: string,
   requiredHeaders: string[],
@@ -129,10 +292,30 @@ function sendChallenge(
 
   return reply
     .header('WWW-Authenticate', challenge)
+    .header('Accept-Signature', acceptSignature)
     .code(401)
     .send({ error, message });
 }
 
 // Re-export types and utilities
-export type { HttpSigOptions, HttpSignatureInfo } from './types.js';
+export type { HttpSigOptions, HttpSignatureInfo, VerifiedSignature } from './types.js';
+export type { KeyResolver, KeyResolverOptions } from './jwks.js';
+export type { ReplayStore } from './replay.js';
+export type { SecretKeyResolverOptions } from './secrets.js';
+export type { ContentDigest } from './digest.js';
+export type { SignatureRequest } from './accept-signature.js';
+export type { SignResponseData, Signer } from './types.js';
+export type {
+  ResponseSigningOptions,
+  ReceivedResponse,
+  ResponseVerifyOptions,
+} from './response.js';
 export { createSigner } from './sign.js';
+export { ComponentError } from './signature-base.js';
+export { createKeyResolver } from './jwks.js';
+export { importPrivateKey, importPublicKey } from './keys.js';
+export { createRedisReplayStore, createMemoryReplayStore } from './replay.js';
+export { createSecretKeyResolver } from './secrets.js';
+export { computeContentDigest, verifyContentDigest } from './digest.js';
+export { buildAcceptSignature, parseAcceptSignature } from './accept-signature.js';
+export { signResponse, verifyResponse } from './response.js';
@@ -1,40 +1,157 @@
-import { createRemoteJWKSet, type CryptoKey } from 'jose';
+import * as crypto from 'node:crypto';
+import { readdir, readFile } from 'node:fs/promises';
+import * as path from 'node:path';
+import type { FastifyBaseLogger } from 'fastify';
+import { createRemoteJWKSet } from 'jose';
+import type { KeyLike } from './types.js';
+import { getJoseAlgorithm, keyMatchesAlgorithm } from './algorithms/index.js';
 
 export interface KeyResolver {
-  resolve(keyId: string, algorithm: string): Promise<CryptoKey>;
+  resolve(keyId: string, algorithm: string): Promise<KeyLike>;
 }
 
 /**
- * Create a key resolver that fetches keys from a JWKS endpoint
+ * Sources and caching behaviour for a key resolver
  */
-export function createKeyResolver(jwksUrl: string): KeyResolver {
-  const getKey = createRemoteJWKSet(new URL(jwksUrl));
+export interface KeyResolverOptions {
+  /** JWKS endpoints, consulted in order */
+  jwksUrls?: string[];
+  /** Directories of static public keys (*.pem named by keyid, *.json JWK or JWKS) */
+  keyDirs?: string[];
+  /** How long a fetched JWKS document is trusted, in milliseconds (default: 600000) */
+  cacheMaxAge?: number;
+  /** Minimum time between refetches triggered by an unknown keyid, in milliseconds (default: 30000) */
+  cooldownDuration?: number;
+  /** Reports key files and directories that could not be loaded */
+  logger?: FastifyBaseLogger;
+}
+
+const DEFAULT_CACHE_MAX_AGE = 600000;
+const DEFAULT_COOLDOWN_DURATION = 30000;
+
+// jose skips JWKs whose alg differs from the one requested, and RFC 8037 keys carry
+// "EdDSA" rather than the fully-specified "Ed25519", so both names are looked up
+const JOSE_ALGORITHM_ALIASES: Record<string, string[]> = {
+  Ed25519: ['Ed25519', 'EdDSA'],
+};
+
+/**
+ * Create a key resolver that selects keys strictly by keyid
+ * Static keys are checked first, then each JWKS endpoint in order. A JWKS
+ * document is refetched when its cache expires or when an unknown keyid is
+ * requested (rate-limited by cooldownDuration).
+ */
+export function createKeyResolver(source: string | KeyResolverOptions): KeyResolver {
+  const options = typeof source === 'string' ? { jwksUrls: [source] } : source;
+  const {
+    jwksUrls = [],
+    keyDirs = [],
+    cacheMaxAge = DEFAULT_CACHE_MAX_AGE,
+    cooldownDuration = DEFAULT_COOLDOWN_DURATION,
+    logger,
+  } = options;
+
+  const remoteSets = jwksUrls.map((url) =>
+    createRemoteJWKSet(new URL(url), { cacheMaxAge, cooldownDuration })
+  );
+
+  let staticKeys: Promise<Map<string, crypto.KeyObject>> | null = null;
 
   return {
-    async resolve(keyId: string, algorithm: string): Promise<CryptoKey> {
+    async resolve(keyId: string, algorithm: string): Promise<KeyLike> {
+      if (keyDirs.length > 0) {
+        if (!staticKeys) {
+          staticKeys = loadStaticKeys(keyDirs, logger);
+          // A failed load is retried on the next request rather than cached
+          staticKeys.catch(() => (staticKeys = null));
+        }
+        const key = (await staticKeys).get(keyId);
+        if (key) {
+          // jose binds JWKS keys to the algorithm; static keys are checked here instead
+          if (!keyMatchesAlgorithm(key, algorithm)) {
+            throw new Error(`Key ${keyId} cannot be used with ${algorithm}`);
+          }
+          return key;
+        }
+      }
+
       // Map our algorithm names to JOSE algorithm identifiers
-      const joseAlg = mapToJoseAlgorithm(algorithm);
+      const joseAlg = getJoseAlgorithm(algorithm);
+      if (!joseAlg) {
+        throw new Error(`Unsupported algorithm: ${algorithm}`);
+      }
 
-      // Fetch the key from JWKS
-      const key = await getKey(
-        { alg: joseAlg },
-        { payload: '', signature: '' } as any // Token not used for signature verification
-      );
+      const joseAlgs = JOSE_ALGORITHM_ALIASES[joseAlg] ?? [joseAlg];
+      for (const getKey of remoteSets) {
+        for (const alg of joseAlgs) {
+          try {
+            // The kid in the header makes jose match only that key (and refetch if unknown)
+            return await getKey(
+              { alg, kid: keyId },
+              { payload: '', signature: '' } as any // Token not used for signature verification
+            );
+          } catch {
+            // Try the next algorithm name, then the next JWKS endpoint
+          }
+        }
+      }
 
-      return key;
+      throw new Error(`Key not found: ${keyId}`);
     },
   };
 }
 
-function mapToJoseAlgorithm(algorithm: string): string {
-  switch (algorithm) {
-    case 'rsa-pss-sha512':
-      return 'PS512';
-    case 'rsa-v1_5-sha256':
-      return 'RS256';
-    default:
-      return algorithm.toUpperCase();
+/**
+ * Load public keys from directories of PEM and JWK files, indexed by keyid
+ * A missing directory or unreadable file is logged and skipped, so it cannot take
+ * the other keys down with it
+ */
+async function loadStaticKeys(
+  keyDirs: string[],
+  logger?: FastifyBaseLogger
+): Promise<Map<string, crypto.KeyObject>> {
+  const keys = new Map<string, crypto.KeyObject>();
+
+  for (const dir of keyDirs) {
+    let files: string[];
+    try {
+      files = await readdir(dir);
+    } catch (error) {
+      logger?.warn({ dir, err: errorMessage(error) }, 'HTTP signature key directory not readable');
+      continue;
+    }
+
+    for (const file of files) {
+      const ext = path.extname(file);
+      const fileKeyId = path.basename(file, ext);
+
+      try {
+        if (ext === '.pem') {
+          const pem = await readFile(path.join(dir, file), 'utf8');
+          keys.set(fileKeyId, crypto.createPublicKey(pem));
+        } else if (ext === '.json') {
+          const json = JSON.parse(await readFile(path.join(dir, file), 'utf8'));
+          const jwks: crypto.JsonWebKey[] = Array.isArray(json.keys) ? json.keys : [json];
+
+          for (const jwk of jwks) {
+            const keyId = typeof jwk.kid === 'string' ? jwk.kid : fileKeyId;
+            keys.set(keyId, crypto.createPublicKey({ key: jwk, format: 'jwk' }));
+          }
+        }
+      } catch (error) {
+        logger?.warn(
+          { file: path.join(dir, file), err: errorMessage(error) },
+          'HTTP signature key file skipped'
+        );
+      }
+    }
   }
+
+  return keys;
+}
+
+function errorMessage(error: unknown): string {
+  return error instanceof Error ? error.message : String(error);
 }
 
 // Lazy-initialized default resolver
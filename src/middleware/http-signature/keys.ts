@@ -0,0 +1,60 @@
+import { importJWK, importPKCS8, importSPKI, type JWK } from 'jose';
+import type { KeyLike } from './types.js';
+import { getJoseAlgorithm } from './algorithms/index.js';
+
+/**
+ * Import a private key for signing
+ * Accepts a PKCS8 PEM string, a private JWK, or an already imported key
+ */
+export async function importPrivateKey(
+  key: string | JWK | KeyLike,
+  algorithm: string
+): Promise<KeyLike> {
+  return importJosePrivateKey(key, resolveJoseAlgorithm(algorithm));
+}
+
+/**
+ * Import a private key for a JOSE algorithm such as RS256 (e.g. for signing JWTs)
+ * Accepts a PKCS8 PEM string, a private JWK, or an already imported key
+ */
+export async function importJosePrivateKey(
+  key: string | JWK | KeyLike,
+  joseAlgorithm: string
+): Promise<KeyLike> {
+  if (typeof key === 'string') {
+    return importPKCS8(key, joseAlgorithm);
+  }
+  if (isJwk(key)) {
+    return importJWK(key, joseAlgorithm);
+  }
+  return key;
+}
+
+/**
+ * Import a public key for verification
+ * Accepts an SPKI PEM string, a public JWK, or an already imported key
+ */
+export async function importPublicKey(
+  key: string | JWK | KeyLike,
+  algorithm: string
+): Promise<KeyLike> {
+  if (typeof key === 'string') {
+    return importSPKI(key, resolveJoseAlgorithm(algorithm));
+  }
+  if (isJwk(key)) {
+    return importJWK(key, resolveJoseAlgorithm(algorithm));
+  }
+  return key;
+}
+
+function resolveJoseAlgorithm(algorithm: string): string {
+  const joseAlg = getJoseAlgorithm(algorithm);
+  if (!joseAlg) {
+    throw new Error(`Unsupported algorithm: ${algorithm}`);
+  }
+  return joseAlg;
+}
+
+function isJwk(key: JWK | KeyLike): key is JWK {
+  return !(key instanceof Uint8Array) && typeof (key as JWK).kty === 'string';
+}
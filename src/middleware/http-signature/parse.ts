@@ -1,4 +1,10 @@
 import type { ParsedSignatureInput, ParsedSignature } from './types.js';
+import {
+  isInnerList,
+  parseDictionary,
+  serializeMember,
+  serializeParameters,
+} from './structured-fields.js';
 
 /**
  * Parse the Signature-Input header
@@ -55,36 +61,49 @@ function splitSignatures(header: string): string[] {
 }
 
 function parseSingleSignatureInput(input: string): ParsedSignatureInput | null {
-  // Format: label=("comp1" "comp2");keyid="xxx";alg="yyy";created=123
-  const labelMatch = input.match(/^([a-zA-Z][a-zA-Z0-9_-]*)=\(([^)]*)\)/);
-  if (!labelMatch) {
+  // Format: label=("comp1" "comp2";param);keyid="xxx";alg="yyy";created=123
+  const dictionary = parseDictionary(input);
+  if (dictionary.size !== 1) {
     return null;
   }
 
-  const label = labelMatch[1];
-  const componentsStr = labelMatch[2];
-  const components = componentsStr.match(/"([^"]+)"/g)?.map((c) => c.slice(1, -1)) ?? [];
+  const [[label, member]] = dictionary;
+  if (!isInnerList(member)) {
+    return null;
+  }
 
-  const params = input.substring(labelMatch[0].length);
+  // Components keep their parameters, e.g. @query-param;name="foo"
+  const components: string[] = [];
+  for (const item of member.items) {
+    if (typeof item.value !== 'string') {
+      return null;
+    }
+    components.push(`${item.value}${serializeParameters(item.params)}`);
+  }
 
-  const keyidMatch = params.match(/;keyid="([^"]+)"/);
-  const algMatch = params.match(/;alg="([^"]+)"/);
-  const createdMatch = params.match(/;created=(\d+)/);
-  const expiresMatch = params.match(/;expires=(\d+)/);
-  const nonceMatch = params.match(/;nonce="([^"]+)"/);
+  const { params } = member;
+  const keyid = params.get('keyid');
+  const alg = params.get('alg');
+  const created = params.get('created');
+  const expires = params.get('expires');
+  const nonce = params.get('nonce');
+  const tag = params.get('tag');
 
-  if (!keyidMatch || !algMatch) {
+  if (typeof keyid !== 'string' || (alg !== undefined && typeof alg !== 'string')) {
     return null;
   }
 
   return {
     label,
     components,
-    keyid: keyidMatch[1],
-    alg: algMatch[1],
-    created: createdMatch ? parseInt(createdMatch[1], 10) : undefined,
-    expires: expiresMatch ? parseInt(expiresMatch[1], 10) : undefined,
-    nonce: nonceMatch ? nonceMatch[1] : undefined,
+    keyid,
+    alg,
+    created: typeof created === 'number' ? created : undefined,
+    expires: typeof expires === 'number' ? expires : undefined,
+    nonce: typeof nonce === 'string' ? nonce : undefined,
+    tag: typeof tag === 'string' ? tag : undefined,
+    // Parameters are signed in the order the signer chose, including unknown ones
+    signatureParams: serializeMember(member),
   };
 }
 
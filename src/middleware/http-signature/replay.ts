@@ -0,0 +1,64 @@
+import type { RedisService } from '../../services/redis.service.js';
+import { createCache } from '../../utils/cache.js';
+
+/**
+ * Store of seen (keyid, nonce) pairs used to reject replayed signatures
+ */
+export interface ReplayStore {
+  /**
+   * Record a nonce for a key
+   * @returns true if the nonce was unseen, false if it is a replay or cannot be recorded
+   */
+  checkAndStore(keyId: string, nonce: string, ttlSeconds: number): Promise<boolean>;
+}
+
+const KEY_PREFIX = 'httpsig:nonce';
+
+/**
+ * Replay store shared across instances via Redis (SET NX with TTL)
+ * @param prefix - Key prefix, so other proof types (e.g. DPoP) keep their own namespace
+ */
+export function createRedisReplayStore(redis: RedisService, prefix = KEY_PREFIX): ReplayStore {
+  return {
+    async checkAndStore(keyId: string, nonce: string, ttlSeconds: number): Promise<boolean> {
+      return redis.setnx(`${prefix}:${keyId}:${nonce}`, ttlSeconds, '1');
+    },
+  };
+}
+
+/**
+ * Per-process replay store for deployments without Redis
+ * Holds at most maxEntries unexpired nonces. A nonce is never forgotten before its TTL,
+ * since that would let it be replayed; when the store is full, new nonces are refused
+ * (and their signatures rejected) until older ones expire
+ */
+export function createMemoryReplayStore(maxEntries = 10000): ReplayStore {
+  const seen = createCache<true>();
+
+  return {
+    async checkAndStore(keyId: string, nonce: string, ttlSeconds: number): Promise<boolean> {
+      const key = `${keyId}:${nonce}`;
+      if (seen.has(key)) {
+        return false;
+      }
+      if (seen.size >= maxEntries) {
+        seen.prune();
+        if (seen.size >= maxEntries) {
+          return false;
+        }
+      }
+      seen.set(key, true, { ttlMs: ttlSeconds * 1000 });
+      return true;
+    },
+  };
+}
+
+// Lazy-initialized store shared by all httpSig instances when Redis is absent
+let defaultMemoryStore: ReplayStore | null = null;
+
+export function getDefaultMemoryReplayStore(): ReplayStore {
+  if (!defaultMemoryStore) {
+    defaultMemoryStore = createMemoryReplayStore();
+  }
+  return defaultMemoryStore;
+}
@@ -0,0 +1,174 @@
+import type { preHandlerHookHandler } from 'fastify';
+import type { SignerOptions, SignRequestData, Signer } from './types.js';
+import type { KeyResolver } from './jwks.js';
+import { config } from '../../config/index.js';
+import { createSigner, outgoingRequestMessage } from './sign.js';
+import { parseSignature, parseSignatureInput } from './parse.js';
+import { verifyMessageSignature, type VerificationResult } from './verify.js';
+import type { HttpMessage } from './components.js';
+
+const DEFAULT_RESPONSE_COMPONENTS = [
+  '@status',
+  'content-type',
+  'content-digest',
+  '@method;req',
+  '@target-uri;req',
+];
+
+// Covered only when present, e.g. a 204 has neither
+const OPTIONAL_RESPONSE_COMPONENTS = ['content-type', 'content-digest'];
+
+/**
+ * Options for signing responses (defaults come from HTTP_SIG_* config)
+ */
+export type ResponseSigningOptions = Partial<SignerOptions>;
+
+/**
+ * Response signing middleware factory
+ * Marks the route's responses for signing by responseSigningPlugin's onSend hook.
+ * By default covers @status, content-type and content-digest when the response has them,
+ * and the request's method and target URI (via ;req).
+ */
+export function signResponse(options: ResponseSigningOptions = {}): preHandlerHookHandler {
+  const {
+    keyId = config.httpSignature.keyId,
+    privateKey = config.httpSignature.privateKey,
+    algorithm = config.httpSignature.defaultAlgorithm,
+    components = DEFAULT_RESPONSE_COMPONENTS,
+    optionalComponents = options.components ? undefined : OPTIONAL_RESPONSE_COMPONENTS,
+    secret,
+    nonce,
+  } = options;
+
+  // One signer per middleware instance so the key is imported once
+  let signer: Promise<Signer> | null = null;
+
+  return async (request, reply) => {
+    if (!request.server.hasRequestDecorator('responseSigner')) {
+      return reply.code(500).send({
+        error: 'configuration_error',
+        message: 'Response signing not enabled (register responseSigningPlugin)',
+      });
+    }
+
+    if (!keyId || (privateKey === undefined && secret === undefined)) {
+      return reply.code(500).send({
+        error: 'configuration_error',
+        message: 'HTTP_SIG_PRIVATE_KEY and HTTP_SIG_KEY_ID not configured',
+      });
+    }
+
+    signer ??= createSigner({
+      keyId,
+      privateKey,
+      secret,
+      algorithm,
+      components,
+      optionalComponents,
+      nonce,
+    });
+
+    try {
+      request.responseSigner = await signer;
+    } catch (error) {
+      // Let a later request retry, e.g. after a key rotation
+      signer = null;
+      throw error;
+    }
+  };
+}
+
+/**
+ * A received response to verify
+ */
+export interface ReceivedResponse {
+  status: number;
+  headers: Headers | Record<string, string>;
+  /** Exact body bytes, checked against Content-Digest when covered */
+  body?: string | Uint8Array;
+}
+
+/**
+ * Options for verifying a signed response
+ */
+export interface ResponseVerifyOptions {
+  /** Resolves the responder's key (or shared secret for symmetric algorithms) */
+  keyResolver: KeyResolver;
+  /** Components that must be covered by the signature (default: @status) */
+  required?: string[];
+  /** Only consider the signature with this label */
+  label?: string;
+  /** Maximum age of signature in seconds (default: 300) */
+  maxAge?: number;
+  /** Allowed algorithms (default: all registered) */
+  algorithms?: string[];
+  /** Algorithm for signatures that omit alg (default: such signatures are rejected) */
+  defaultAlgorithm?: string;
+}
+
+/**
+ * Verify a signed response, e.g. from a partner called with createSigner
+ * @param request - The request the response answers, for components with ;req
+ */
+export async function verifyResponse(
+  response: ReceivedResponse,
+  request: SignRequestData | undefined,
+  options: ResponseVerifyOptions
+): Promise<VerificationResult> {
+  const {
+    keyResolver,
+    required = ['@status'],
+    label,
+    maxAge,
+    algorithms,
+    defaultAlgorithm,
+  } = options;
+  const message = receivedResponseMessage(response);
+
+  const signatureHeader = message.fieldLines('signature')?.join(', ');
+  const signatureInputHeader = message.fieldLines('signature-input')?.join(', ');
+  if (!signatureHeader || !signatureInputHeader) {
+    return { valid: false, error: 'signature_required' };
+  }
+
+  const sigInput = parseSignatureInput(signatureInputHeader).find(
+    (input) => !label || input.label === label
+  );
+  const signature = parseSignature(signatureHeader).find((s) => s.label === sigInput?.label);
+  if (!sigInput || !signature) {
+    return { valid: false, error: 'invalid_signature' };
+  }
+
+  if (required.some((c) => !sigInput.components.includes(c))) {
+    return { valid: false, error: 'missing_components' };
+  }
+
+  const body =
+    typeof response.body === 'string' ? new TextEncoder().encode(response.body) : response.body;
+
+  return verifyMessageSignature(
+    message,
+    body,
+    sigInput,
+    signature,
+    keyResolver,
+    { maxAge, algorithms, defaultAlgorithm },
+    request ? outgoingRequestMessage(request, request.headers) : undefined
+  );
+}
+
+function receivedResponseMessage(response: ReceivedResponse): HttpMessage {
+  const { status, headers } = response;
+
+  return {
+    status,
+    fieldLines(name: string): string[] | undefined {
+      if (headers instanceof Headers) {
+        const value = headers.get(name);
+        return value !== null ? [value] : undefined;
+      }
+      const header = Object.keys(headers).find((h) => h.toLowerCase() === name);
+      return header !== undefined ? [headers[header]] : undefined;
+    },
+  };
+}
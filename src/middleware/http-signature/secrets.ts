@@ -0,0 +1,92 @@
+import { readFile } from 'node:fs/promises';
+import * as path from 'node:path';
+import type { RedisService } from '../../services/redis.service.js';
+import type { KeyResolver } from './jwks.js';
+import type { KeyLike } from './types.js';
+import { createCache } from '../../utils/cache.js';
+
+/**
+ * Sources for shared secrets used by symmetric algorithms (hmac-sha256)
+ * Secrets are strings; their UTF-8 bytes are the HMAC key.
+ */
+export interface SecretKeyResolverOptions {
+  /**
+   * Prefix of environment variables holding secrets, e.g. HTTP_SIG_SECRET_MY_CLIENT for keyid
+   * MY_CLIENT; only keyids of uppercase letters, digits and underscores are looked up here
+   * (default: HTTP_SIG_SECRET_)
+   */
+  envPrefix?: string;
+  /** Directories containing one file per keyid whose content is the secret */
+  secretDirs?: string[];
+  /** Redis instance holding secrets under `<redisPrefix>:<keyid>` */
+  redis?: RedisService;
+  /** Redis key prefix (default: httpsig:secret) */
+  redisPrefix?: string;
+  /** How long a resolved secret is cached, in milliseconds (default: 60000) */
+  cacheTtlMs?: number;
+}
+
+// Keyids become file names and env var suffixes, so restrict them to a safe charset
+const SAFE_KEY_ID = /^[A-Za-z0-9][A-Za-z0-9._-]*$/;
+
+// Env var names are used as is, so keyids differing only in case or punctuation never share one
+const ENV_KEY_ID = /^[A-Z0-9_]+$/;
+
+/**
+ * Create a key resolver that looks up shared secrets by keyid
+ * Sources are checked in order: environment, secret directories, Redis
+ */
+export function createSecretKeyResolver(options: SecretKeyResolverOptions = {}): KeyResolver {
+  const {
+    envPrefix = 'HTTP_SIG_SECRET_',
+    secretDirs = [],
+    redis,
+    redisPrefix = 'httpsig:secret',
+    cacheTtlMs = 60000,
+  } = options;
+
+  const cache = createCache<Uint8Array>({ maxEntries: 1000, defaultTtlMs: cacheTtlMs });
+
+  async function lookup(keyId: string): Promise<string | undefined> {
+    const envValue = ENV_KEY_ID.test(keyId) ? process.env[`${envPrefix}${keyId}`] : undefined;
+    if (envValue) {
+      return envValue;
+    }
+
+    for (const dir of secretDirs) {
+      try {
+        return (await readFile(path.join(dir, keyId), 'utf8')).trim();
+      } catch {
+        // Not in this directory
+      }
+    }
+
+    if (redis) {
+      return (await redis.get(`${redisPrefix}:${keyId}`)) ?? undefined;
+    }
+
+    return undefined;
+  }
+
+  return {
+    async resolve(keyId: string): Promise<KeyLike> {
+      if (!SAFE_KEY_ID.test(keyId)) {
+        throw new Error(`Invalid keyid: ${keyId}`);
+      }
+
+      const cached = cache.get(keyId);
+      if (cached) {
+        return cached;
+      }
+
+      const secret = await lookup(keyId);
+      if (!secret) {
+        throw new Error(`Secret not found: ${keyId}`);
+      }
+
+      const key = new TextEncoder().encode(secret);
+      cache.set(keyId, key);
+      return key;
+    },
+  };
+}
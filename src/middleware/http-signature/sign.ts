@@ -1,129 +1,169 @@
 import * as crypto from 'node:crypto';
-import type { KeyLike } from './types.js';
-import { importPKCS8 } from 'jose';
-import type { SignerOptions, SignRequestData, Signer } from './types.js';
+import type {
+  KeyLike,
+  ParsedSignatureInput,
+  SignerOptions,
+  SignRequestData,
+  SignResponseData,
+  Signer,
+} from './types.js';
 import { getAlgorithm } from './algorithms/index.js';
+import { computeContentDigest } from './digest.js';
+import { buildMessageSignatureBase, buildSignatureParams } from './signature-base.js';
+import { extractMessageComponent, type HttpMessage } from './components.js';
+import { importPrivateKey } from './keys.js';
+import { applyAcceptSignature } from './accept-signature.js';
 
 /**
- * Create a signer for outgoing HTTP requests
+ * Create a signer for outgoing HTTP requests and for responses
  */
-export async function createSigner(options: SignerOptions): Promise<Signer> {
-  const { keyId, privateKey, algorithm, components } = options;
-
-  // Import the private key if it's a string (PEM format)
-  let key: KeyLike;
-  if (typeof privateKey === 'string') {
-    key = await importPKCS8(privateKey, mapToJoseAlgorithm(algorithm));
-  } else {
-    key = privateKey;
-  }
+export async function createSigner(signerOptions: SignerOptions): Promise<Signer> {
+  const options = signerOptions.acceptSignature
+    ? applyAcceptSignature(signerOptions, signerOptions.acceptSignature)
+    : signerOptions;
+  const {
+    keyId,
+    privateKey,
+    secret,
+    algorithm,
+    components,
+    optionalComponents = [],
+    nonce = false,
+    label = 'sig1',
+    tag,
+    includeAlg = true,
+    created = () => Math.floor(Date.now() / 1000),
+    expiresIn,
+  } = options;
 
   const algo = getAlgorithm(algorithm);
   if (!algo) {
     throw new Error(`Unsupported algorithm: ${algorithm}`);
   }
 
-  return {
-    async sign(request: SignRequestData): Promise<Record<string, string>> {
-      const result: Record<string, string> = { ...request.headers };
-      const created = Math.floor(Date.now() / 1000);
-
-      // Compute Content-Digest if body is provided and content-digest is in components
-      if (request.body && components.includes('content-digest')) {
-        const digest = computeContentDigest(request.body);
-        result['Content-Digest'] = digest;
-      }
+  let key: KeyLike;
+  if (algo.symmetric) {
+    // Shared-secret algorithms sign with the raw secret bytes
+    if (secret === undefined) {
+      throw new Error(`Algorithm ${algorithm} requires a secret`);
+    }
+    key = typeof secret === 'string' ? new TextEncoder().encode(secret) : secret;
+  } else {
+    if (privateKey === undefined) {
+      throw new Error(`Algorithm ${algorithm} requires a private key`);
+    }
+    // Import the private key if it's PEM (PKCS8) or JWK
+    key = await importPrivateKey(privateKey, algorithm);
+  }
 
-      // Build signature base
-      const signatureBase = buildOutgoingSignatureBase(request, result, components, keyId, algorithm, created);
+  /**
+   * Add Content-Digest, Signature-Input and Signature to a copy of the message headers
+   */
+  const signMessage = async (
+    headers: Record<string, string>,
+    body: string | Uint8Array | undefined,
+    toMessage: (headers: Record<string, string>) => HttpMessage,
+    related?: HttpMessage
+  ): Promise<Record<string, string>> => {
+    const result: Record<string, string> = { ...headers };
+
+    // Compute Content-Digest if body is provided and content-digest is in components
+    if (body && components.includes('content-digest')) {
+      const digest = computeContentDigest(body);
+      result['Content-Digest'] = digest;
+    }
 
-      // Sign
-      const signatureBytes = await algo.sign(key, new TextEncoder().encode(signatureBase));
-      const base64Sig = uint8ArrayToBase64(signatureBytes);
+    // Leave out optional components the message lacks, so Signature-Input only lists signed ones
+    const message = toMessage(result);
+    const covered = components.filter(
+      (component) =>
+        !optionalComponents.includes(component) ||
+        extractMessageComponent(message, component, related) !== undefined
+    );
+
+    const createdAt = created();
+    const sigInput: ParsedSignatureInput = {
+      label,
+      components: covered,
+      keyid: keyId,
+      alg: includeAlg ? algorithm : undefined,
+      created: createdAt,
+      expires: expiresIn !== undefined ? createdAt + expiresIn : undefined,
+      nonce: generateNonce(nonce),
+      tag,
+    };
+
+    // Build signature base
+    const signatureBase = buildMessageSignatureBase(message, sigInput, related);
+
+    // Sign
+    const signatureBytes = await algo.sign(key, new TextEncoder().encode(signatureBase));
+    const base64Sig = uint8ArrayToBase64(signatureBytes);
+
+    // Build headers
+    result['Signature-Input'] = `${sigInput.label}=${buildSignatureParams(sigInput)}`;
+    result['Signature'] = `${sigInput.label}=:${base64Sig}:`;
+
+    return result;
+  };
 
-      // Build headers
-      const componentsList = components.map((c) => `"${c}"`).join(' ');
-      result['Signature-Input'] = `sig1=(${componentsList});keyid="${keyId}";alg="${algorithm}";created=${created}`;
-      result['Signature'] = `sig1=:${base64Sig}:`;
+  return {
+    async sign(request: SignRequestData): Promise<Record<string, string>> {
+      return signMessage(request.headers, request.body, (headers) =>
+        outgoingRequestMessage(request, headers)
+      );
+    },
 
-      return result;
+    async signResponse(
+      response: SignResponseData,
+      request?: SignRequestData
+    ): Promise<Record<string, string>> {
+      return signMessage(
+        response.headers,
+        response.body,
+        (headers) => responseMessage(response.status, headers),
+        request ? outgoingRequestMessage(request, request.headers) : undefined
+      );
     },
   };
 }
 
-function buildOutgoingSignatureBase(
-  request: SignRequestData,
-  headers: Record<string, string>,
-  components: string[],
-  keyId: string,
-  algorithm: string,
-  created: number
-): string {
-  const lines: string[] = [];
-  const url = new URL(request.url);
-
-  for (const component of components) {
-    let value: string | undefined;
-
-    switch (component) {
-      case '@method':
-        value = request.method;
-        break;
-      case '@target-uri':
-        value = request.url;
-        break;
-      case '@authority':
-        value = url.host;
-        break;
-      case '@scheme':
-        value = url.protocol.replace(':', '');
-        break;
-      case '@path':
-        value = url.pathname;
-        break;
-      case '@query':
-        value = url.search || '?';
-        break;
-      default:
-        // Header lookup (case-insensitive)
-        value = headers[component] ?? headers[component.toLowerCase()] ?? headers[capitalizeHeader(component)];
-    }
-
-    if (value !== undefined) {
-      lines.push(`"${component}": ${value}`);
-    }
+function generateNonce(nonce: boolean | (() => string)): string | undefined {
+  if (typeof nonce === 'function') {
+    return nonce();
   }
-
-  // Add signature params
-  const componentsList = components.map((c) => `"${c}"`).join(' ');
-  lines.push(`"@signature-params": (${componentsList});keyid="${keyId}";alg="${algorithm}";created=${created}`);
-
-  return lines.join('\n');
+  return nonce ? crypto.randomBytes(16).toString('base64url') : undefined;
 }
 
-function computeContentDigest(body: string): string {
-  const hash = crypto.createHash('sha256').update(body).digest('base64');
-  return `sha-256=:${hash}:`;
+/**
+ * View an outgoing request as an HTTP message (header names may be in any case)
+ */
+export function outgoingRequestMessage(
+  request: SignRequestData,
+  headers: Record<string, string>
+): HttpMessage {
+  return {
+    method: request.method,
+    targetUri: request.url,
+    fieldLines: (name) => findHeader(headers, name),
+  };
 }
 
-function uint8ArrayToBase64(bytes: Uint8Array): string {
-  return btoa(String.fromCharCode(...bytes));
+/**
+ * View a response as an HTTP message (header names may be in any case)
+ */
+export function responseMessage(status: number, headers: Record<string, string>): HttpMessage {
+  return {
+    status,
+    fieldLines: (name) => findHeader(headers, name),
+  };
 }
 
-function capitalizeHeader(header: string): string {
-  return header
-    .split('-')
-    .map((part) => part.charAt(0).toUpperCase() + part.slice(1).toLowerCase())
-    .join('-');
+function findHeader(headers: Record<string, string>, name: string): string[] | undefined {
+  const header = Object.keys(headers).find((h) => h.toLowerCase() === name);
+  return header !== undefined ? [headers[header]] : undefined;
 }
 
-function mapToJoseAlgorithm(algorithm: string): string {
-  switch (algorithm) {
-    case 'rsa-pss-sha512':
-      return 'PS512';
-    case 'rsa-v1_5-sha256':
-      return 'RS256';
-    default:
-      return algorithm.toUpperCase();
-  }
+function uint8ArrayToBase64(bytes: Uint8Array): string {
+  return btoa(String.fromCharCode(...bytes));
 }
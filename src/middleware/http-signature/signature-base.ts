@@ -1,19 +1,49 @@
 import type { FastifyRequest } from 'fastify';
 import type { ParsedSignatureInput } from './types.js';
-import { extractComponent } from './components.js';
+import {
+  extractMessageComponent,
+  requestMessage,
+  serializeComponentId,
+  type HttpMessage,
+} from './components.js';
+import { serializeBareItem } from './structured-fields.js';
+
+/**
+ * A covered component is absent from the message or cannot be derived (RFC9421 section 2.5)
+ */
+export class ComponentError extends Error {
+  constructor(public component: string) {
+    super(`Covered component ${component} is absent or cannot be derived`);
+    this.name = 'ComponentError';
+  }
+}
 
 /**
  * Build the signature base string per RFC9421
  */
 export function buildSignatureBase(request: FastifyRequest, sigInput: ParsedSignatureInput): string {
+  return buildMessageSignatureBase(requestMessage(request), sigInput);
+}
+
+/**
+ * Build the signature base string for any HTTP message
+ * @param related - The request a response answers, used by components with ;req
+ * @throws ComponentError when a covered component has no value
+ */
+export function buildMessageSignatureBase(
+  message: HttpMessage,
+  sigInput: ParsedSignatureInput,
+  related?: HttpMessage
+): string {
   const lines: string[] = [];
 
   // Add each component
   for (const component of sigInput.components) {
-    const value = extractComponent(request, component);
-    if (value !== undefined) {
-      lines.push(`"${component}": ${value}`);
+    const value = extractMessageComponent(message, component, related);
+    if (value === undefined) {
+      throw new ComponentError(component);
     }
+    lines.push(`${serializeComponentId(component)}: ${value}`);
   }
 
   // Add signature params as last line
@@ -25,24 +55,34 @@ export function buildSignatureBase(request: FastifyRequest, sigInput: ParsedSign
 
 /**
  * Build the signature-params value
+ * A parsed Signature-Input is reproduced exactly; otherwise parameters are
+ * emitted in the order used by the RFC9421 examples
  */
 export function buildSignatureParams(sigInput: ParsedSignatureInput): string {
-  const componentsList = sigInput.components.map((c) => `"${c}"`).join(' ');
-  let params = `(${componentsList})`;
+  if (sigInput.signatureParams !== undefined) {
+    return sigInput.signatureParams;
+  }
 
-  // Add required parameters
-  params += `;keyid="${sigInput.keyid}"`;
-  params += `;alg="${sigInput.alg}"`;
+  const componentsList = sigInput.components.map(serializeComponentId).join(' ');
+  let params = `(${componentsList})`;
 
-  // Add optional parameters
   if (sigInput.created !== undefined) {
     params += `;created=${sigInput.created}`;
   }
   if (sigInput.expires !== undefined) {
     params += `;expires=${sigInput.expires}`;
   }
+
+  params += `;keyid=${serializeBareItem(sigInput.keyid)}`;
+
+  if (sigInput.alg !== undefined) {
+    params += `;alg=${serializeBareItem(sigInput.alg)}`;
+  }
   if (sigInput.nonce !== undefined) {
-    params += `;nonce="${sigInput.nonce}"`;
+    params += `;nonce=${serializeBareItem(sigInput.nonce)}`;
+  }
+  if (sigInput.tag !== undefined) {
+    params += `;tag=${serializeBareItem(sigInput.tag)}`;
   }
 
   return params;
@@ -0,0 +1,367 @@
+/**
+ * Minimal RFC8941 Structured Field Values parser and serializer
+ * Used for Signature-Input and for the ;sf and ;key component parameters
+ */
+
+/**
+ * Token bare item (unquoted), distinguished from strings
+ */
+export class Token {
+  constructor(public readonly value: string) {}
+}
+
+/**
+ * Decimal bare item, distinguished from integers
+ */
+export class Decimal {
+  constructor(public readonly value: number) {}
+}
+
+export type BareItem = number | Decimal | string | Token | Uint8Array | boolean;
+export type Parameters = Map<string, BareItem>;
+
+export interface Item {
+  value: BareItem;
+  params: Parameters;
+}
+
+export interface InnerList {
+  items: Item[];
+  params: Parameters;
+}
+
+export type Member = Item | InnerList;
+export type Dictionary = Map<string, Member>;
+export type List = Member[];
+
+export class StructuredFieldError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'StructuredFieldError';
+  }
+}
+
+export function isInnerList(member: Member): member is InnerList {
+  return 'items' in member;
+}
+
+export function parseDictionary(input: string): Dictionary {
+  return new Parser(input).parseTopLevel((p) => p.parseDictionary());
+}
+
+export function parseList(input: string): List {
+  return new Parser(input).parseTopLevel((p) => p.parseList());
+}
+
+export function parseItem(input: string): Item {
+  return new Parser(input).parseTopLevel((p) => p.parseItem());
+}
+
+/**
+ * Parse a standalone parameter string such as `;name="foo";sf`
+ */
+export function parseParameters(input: string): Parameters {
+  return new Parser(input).parseTopLevel((p) => p.parseParameters());
+}
+
+export function serializeDictionary(dictionary: Dictionary): string {
+  return Array.from(dictionary.entries())
+    .map(([key, member]) => {
+      if (!isInnerList(member) && member.value === true) {
+        return `${key}${serializeParameters(member.params)}`;
+      }
+      return `${key}=${serializeMember(member)}`;
+    })
+    .join(', ');
+}
+
+export function serializeList(list: List): string {
+  return list.map(serializeMember).join(', ');
+}
+
+export function serializeMember(member: Member): string {
+  if (isInnerList(member)) {
+    const items = member.items.map(serializeItem).join(' ');
+    return `(${items})${serializeParameters(member.params)}`;
+  }
+  return serializeItem(member);
+}
+
+export function serializeItem(item: Item): string {
+  return `${serializeBareItem(item.value)}${serializeParameters(item.params)}`;
+}
+
+export function serializeParameters(params: Parameters): string {
+  let result = '';
+  for (const [key, value] of params) {
+    result += value === true ? `;${key}` : `;${key}=${serializeBareItem(value)}`;
+  }
+  return result;
+}
+
+export function serializeBareItem(value: BareItem): string {
+  if (typeof value === 'boolean') {
+    return value ? '?1' : '?0';
+  }
+  if (typeof value === 'number') {
+    if (!Number.isInteger(value)) {
+      throw new StructuredFieldError(`Not an integer: ${value}`);
+    }
+    return String(value);
+  }
+  if (value instanceof Decimal) {
+    const rounded = String(Math.round(value.value * 1000) / 1000);
+    return rounded.includes('.') ? rounded : `${rounded}.0`;
+  }
+  if (value instanceof Token) {
+    return value.value;
+  }
+  if (value instanceof Uint8Array) {
+    return `:${Buffer.from(value).toString('base64')}:`;
+  }
+  if (!/^[\x20-\x7e]*$/.test(value)) {
+    throw new StructuredFieldError('String contains non-printable characters');
+  }
+  return `"${value.replace(/[\\"]/g, (c) => `\\${c}`)}"`;
+}
+
+class Parser {
+  private pos = 0;
+
+  constructor(private readonly input: string) {}
+
+  parseTopLevel<T>(parse: (parser: Parser) => T): T {
+    this.skipSpaces();
+    const result = parse(this);
+    this.skipSpaces();
+    if (this.pos < this.input.length) {
+      throw new StructuredFieldError(`Unexpected character at ${this.pos}`);
+    }
+    return result;
+  }
+
+  parseDictionary(): Dictionary {
+    const dictionary: Dictionary = new Map();
+
+    while (this.pos < this.input.length) {
+      const key = this.parseKey();
+      if (this.peek() === '=') {
+        this.pos++;
+        dictionary.set(key, this.parseMember());
+      } else {
+        dictionary.set(key, { value: true, params: this.parseParameters() });
+      }
+      if (!this.parseListSeparator()) {
+        break;
+      }
+    }
+
+    return dictionary;
+  }
+
+  parseList(): List {
+    const list: List = [];
+
+    while (this.pos < this.input.length) {
+      list.push(this.parseMember());
+      if (!this.parseListSeparator()) {
+        break;
+      }
+    }
+
+    return list;
+  }
+
+  parseItem(): Item {
+    const value = this.parseBareItem();
+    return { value, params: this.parseParameters() };
+  }
+
+  parseParameters(): Parameters {
+    const params: Parameters = new Map();
+
+    while (this.peek() === ';') {
+      this.pos++;
+      this.skipSpaces();
+      const key = this.parseKey();
+      let value: BareItem = true;
+      if (this.peek() === '=') {
+        this.pos++;
+        value = this.parseBareItem();
+      }
+      params.set(key, value);
+    }
+
+    return params;
+  }
+
+  /**
+   * Consume `OWS "," OWS` between members; returns false at end of input
+   */
+  private parseListSeparator(): boolean {
+    this.skipWhitespace();
+    if (this.pos >= this.input.length) {
+      return false;
+    }
+    if (this.input[this.pos] !== ',') {
+      throw new StructuredFieldError(`Expected "," at ${this.pos}`);
+    }
+    this.pos++;
+    this.skipWhitespace();
+    if (this.pos >= this.input.length) {
+      throw new StructuredFieldError('Trailing comma');
+    }
+    return true;
+  }
+
+  private parseMember(): Member {
+    return this.peek() === '(' ? this.parseInnerList() : this.parseItem();
+  }
+
+  private parseInnerList(): InnerList {
+    this.pos++; // (
+    const items: Item[] = [];
+
+    while (this.pos < this.input.length) {
+      this.skipSpaces();
+      if (this.peek() === ')') {
+        this.pos++;
+        return { items, params: this.parseParameters() };
+      }
+      items.push(this.parseItem());
+      const next = this.peek();
+      if (next !== ' ' && next !== ')') {
+        throw new StructuredFieldError(`Invalid inner list at ${this.pos}`);
+      }
+    }
+
+    throw new StructuredFieldError('Unterminated inner list');
+  }
+
+  private parseBareItem(): BareItem {
+    const char = this.peek();
+
+    if (char === '-' || isDigit(char)) {
+      return this.parseNumber();
+    }
+    if (char === '"') {
+      return this.parseString();
+    }
+    if (char === '*' || isAlpha(char)) {
+      return this.parseToken();
+    }
+    if (char === ':') {
+      return this.parseByteSequence();
+    }
+    if (char === '?') {
+      return this.parseBoolean();
+    }
+
+    throw new StructuredFieldError(`Unexpected character at ${this.pos}`);
+  }
+
+  private parseKey(): string {
+    const match = /^[a-z*][a-z0-9_\-.*]*/.exec(this.input.slice(this.pos));
+    if (!match) {
+      throw new StructuredFieldError(`Invalid key at ${this.pos}`);
+    }
+    this.pos += match[0].length;
+    return match[0];
+  }
+
+  private parseNumber(): number | Decimal {
+    const match = /^-?\d+(\.\d+)?/.exec(this.input.slice(this.pos));
+    if (!match) {
+      throw new StructuredFieldError(`Invalid number at ${this.pos}`);
+    }
+    this.pos += match[0].length;
+
+    const [integerPart, fractionPart] = match[0].replace('-', '').split('.');
+    if (fractionPart !== undefined) {
+      if (integerPart.length > 12 || fractionPart.length > 3) {
+        throw new StructuredFieldError('Decimal out of range');
+      }
+      return new Decimal(parseFloat(match[0]));
+    }
+    if (integerPart.length > 15) {
+      throw new StructuredFieldError('Integer out of range');
+    }
+    return parseInt(match[0], 10);
+  }
+
+  private parseString(): string {
+    this.pos++; // opening quote
+    let result = '';
+
+    while (this.pos < this.input.length) {
+      const char = this.input[this.pos++];
+      if (char === '\\') {
+        const next = this.input[this.pos++];
+        if (next !== '"' && next !== '\\') {
+          throw new StructuredFieldError('Invalid escape in string');
+        }
+        result += next;
+      } else if (char === '"') {
+        return result;
+      } else if (char < ' ' || char > '~') {
+        throw new StructuredFieldError('Invalid character in string');
+      } else {
+        result += char;
+      }
+    }
+
+    throw new StructuredFieldError('Unterminated string');
+  }
+
+  private parseToken(): Token {
+    const match = /^[A-Za-z*][!#$%&'*+\-.^_`|~0-9A-Za-z:/]*/.exec(this.input.slice(this.pos));
+    this.pos += match![0].length;
+    return new Token(match![0]);
+  }
+
+  private parseByteSequence(): Uint8Array {
+    const end = this.input.indexOf(':', this.pos + 1);
+    if (end < 0) {
+      throw new StructuredFieldError('Unterminated byte sequence');
+    }
+    const encoded = this.input.slice(this.pos + 1, end);
+    if (!/^[A-Za-z0-9+/=]*$/.test(encoded)) {
+      throw new StructuredFieldError('Invalid byte sequence');
+    }
+    this.pos = end + 1;
+    return new Uint8Array(Buffer.from(encoded, 'base64'));
+  }
+
+  private parseBoolean(): boolean {
+    const value = this.input[this.pos + 1];
+    if (value !== '0' && value !== '1') {
+      throw new StructuredFieldError(`Invalid boolean at ${this.pos}`);
+    }
+    this.pos += 2;
+    return value === '1';
+  }
+
+  private peek(): string {
+    return this.input[this.pos] ?? '';
+  }
+
+  private skipSpaces(): void {
+    while (this.input[this.pos] === ' ') {
+      this.pos++;
+    }
+  }
+
+  private skipWhitespace(): void {
+    while (this.input[this.pos] === ' ' || this.input[this.pos] === '\t') {
+      this.pos++;
+    }
+  }
+}
+
+function isDigit(char: string): boolean {
+  return char >= '0' && char <= '9';
+}
+
+function isAlpha(char: string): boolean {
+  return (char >= 'a' && char <= 'z') || (char >= 'A' && char <= 'Z');
+}
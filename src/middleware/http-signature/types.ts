@@ -1,4 +1,7 @@
-import type { CryptoKey, KeyObject } from 'jose';
+import type { CryptoKey, JWK, KeyObject } from 'jose';
+import type { ContentDigest } from './digest.js';
+import type { KeyResolver } from './jwks.js';
+import type { ReplayStore } from './replay.js';
 
 /**
  * Key type for signature operations (compatible with jose v6+)
@@ -10,6 +13,14 @@ export type KeyLike = CryptoKey | KeyObject | Uint8Array;
  */
 export interface SignatureAlgorithm {
   name: string;
+  /** JOSE algorithm identifier used for key import and JWKS lookup */
+  joseAlgorithm?: string;
+  /** Uses a shared secret resolved by keyid instead of a key pair */
+  symmetric?: boolean;
+  /** Public key types (KeyObject.asymmetricKeyType) this algorithm verifies with */
+  keyTypes?: string[];
+  /** Curve an EC key must be on (asymmetricKeyDetails.namedCurve) */
+  namedCurve?: string;
   verify(publicKey: KeyLike, signature: Uint8Array, data: Uint8Array): Promise<boolean>;
   sign(privateKey: KeyLike, data: Uint8Array): Promise<Uint8Array>;
 }
@@ -21,10 +32,15 @@ export interface ParsedSignatureInput {
   label: string;
   components: string[];
   keyid: string;
-  alg: string;
+  /** Absent when the signer leaves the algorithm to be derived from the key */
+  alg?: string;
   created?: number;
   expires?: number;
   nonce?: string;
+  /** Application-specific tag, e.g. "header-example" */
+  tag?: string;
+  /** The @signature-params value as received; rebuilt from the fields above when absent */
+  signatureParams?: string;
 }
 
 /**
@@ -41,22 +57,62 @@ export interface ParsedSignature {
 export interface HttpSigOptions {
   /** Components that must be covered by the signature */
   required?: string[];
-  /** JWKS URL for fetching public keys (overrides config) */
-  jwksUrl?: string;
+  /** JWKS URL(s) for fetching public keys (overrides config) */
+  jwksUrl?: string | string[];
+  /** Directories of static PEM/JWK public keys (overrides config) */
+  keyDirs?: string[];
+  /** Custom key resolver (takes precedence over jwksUrl and keyDirs) */
+  keyResolver?: KeyResolver;
+  /** Directories of shared secrets named by keyid for symmetric algorithms (overrides config) */
+  secretDirs?: string[];
+  /** Custom resolver for shared secrets (takes precedence over secretDirs) */
+  secretResolver?: KeyResolver;
   /** Maximum age of signature in seconds (default: 300) */
   maxAge?: number;
   /** Allowed algorithms (default: all registered) */
   algorithms?: string[];
+  /** Algorithm for signatures that omit alg (default: such signatures are rejected) */
+  defaultAlgorithm?: string;
+  /**
+   * Require nonce and created parameters and reject reused (keyid, nonce) pairs (default: false)
+   */
+  requireNonce?: boolean;
+  /**
+   * Store for seen nonces; signatures must then carry created (default: Redis when registered,
+   * otherwise in-memory, which rejects signatures while 10000 unexpired nonces are held)
+   */
+  replayStore?: ReplayStore;
+  /** Only consider the signature with this label */
+  label?: string;
+  /** Only consider signatures whose keyid equals this string or matches this pattern */
+  keyId?: string | RegExp;
+  /**
+   * Number of distinct keys whose selected signatures must verify, e.g. 2 for client plus
+   * proxy (default: 1, must be at least 1)
+   */
+  minSignatures?: number;
 }
 
 /**
- * Verified signature info attached to request
+ * A single verified signature
  */
-export interface HttpSignatureInfo {
+export interface VerifiedSignature {
+  label: string;
   keyId: string;
   algorithm: string;
   components: string[];
   created?: number;
+  /** Content-Digest verified against the received body (when covered) */
+  digest?: ContentDigest;
+}
+
+/**
+ * Verified signature info attached to request
+ * The top-level fields describe the first verified signature
+ */
+export interface HttpSignatureInfo extends VerifiedSignature {
+  /** All verified signatures, in Signature-Input order */
+  signatures: VerifiedSignature[];
 }
 
 /**
@@ -64,9 +120,28 @@ export interface HttpSignatureInfo {
  */
 export interface SignerOptions {
   keyId: string;
-  privateKey: string | KeyLike;
+  /** PKCS8 PEM, JWK or an already imported key (asymmetric algorithms) */
+  privateKey?: string | JWK | KeyLike;
+  /** Shared secret; strings are used as UTF-8 bytes (symmetric algorithms) */
+  secret?: string | Uint8Array;
   algorithm: string;
   components: string[];
+  /** Entries of components that are left out of a signature when the message lacks them */
+  optionalComponents?: string[];
+  /** Generate a random nonce for each signature, or use the given generator (default: false) */
+  nonce?: boolean | (() => string);
+  /** Signature label (default: sig1) */
+  label?: string;
+  /** Application-specific tag parameter */
+  tag?: string;
+  /** Include the alg parameter (default: true) */
+  includeAlg?: boolean;
+  /** Source of the created parameter in seconds, e.g. fixed for test vectors (default: current time) */
+  created?: () => number;
+  /** Add an expires parameter this many seconds after created */
+  expiresIn?: number;
+  /** Accept-Signature from a server; its first satisfiable request overrides components and parameters */
+  acceptSignature?: string;
 }
 
 /**
@@ -79,9 +154,25 @@ export interface SignRequestData {
   body?: string;
 }
 
+/**
+ * Response data for signing
+ */
+export interface SignResponseData {
+  status: number;
+  headers: Record<string, string>;
+  body?: string | Uint8Array;
+}
+
 /**
  * Signer instance
  */
 export interface Signer {
   sign(request: SignRequestData): Promise<Record<string, string>>;
+  /**
+   * Sign a response; components with ;req are taken from the request it answers
+   */
+  signResponse(
+    response: SignResponseData,
+    request?: SignRequestData
+  ): Promise<Record<string, string>>;
 }
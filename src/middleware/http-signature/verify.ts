@@ -2,7 +2,9 @@ import type { FastifyRequest } from 'fastify';
 import type { ParsedSignatureInput, ParsedSignature, HttpSigOptions } from './types.js';
 import type { KeyResolver } from './jwks.js';
 import { getAlgorithm } from './algorithms/index.js';
-import { buildSignatureBase } from './signature-base.js';
+import { buildMessageSignatureBase, ComponentError } from './signature-base.js';
+import { extractMessageComponent, requestMessage, type HttpMessage } from './components.js';
+import { verifyContentDigest, type ContentDigest } from './digest.js';
 
 export interface VerificationResult {
   valid: boolean;
@@ -10,6 +12,7 @@ export interface VerificationResult {
   algorithm?: string;
   components?: string[];
   created?: number;
+  digest?: ContentDigest;
   error?: string;
 }
 
@@ -30,11 +33,36 @@ export async function verifySignature(
   keyResolver: KeyResolver,
   options: Partial<HttpSigOptions>
 ): Promise<VerificationResult> {
-  const { maxAge = 300, algorithms } = options;
+  return verifyMessageSignature(
+    requestMessage(request),
+    request.rawBody,
+    sigInput,
+    signature,
+    keyResolver,
+    options
+  );
+}
+
+/**
+ * Verify a signature over any HTTP message (incoming request or received response)
+ * @param body - Exact body bytes, checked against Content-Digest when covered
+ * @param related - The request a response answers, used by components with ;req
+ */
+export async function verifyMessageSignature(
+  message: HttpMessage,
+  body: Uint8Array | undefined,
+  sigInput: ParsedSignatureInput,
+  signature: ParsedSignature,
+  keyResolver: KeyResolver,
+  options: Partial<HttpSigOptions>,
+  related?: HttpMessage
+): Promise<VerificationResult> {
+  const { maxAge = 300, algorithms, requireNonce = false, replayStore, defaultAlgorithm } = options;
 
   // Check algorithm is supported
-  const algo = getAlgorithm(sigInput.alg);
-  if (!algo) {
+  const alg = sigInput.alg ?? defaultAlgorithm;
+  const algo = alg ? getAlgorithm(alg) : undefined;
+  if (!alg || !algo) {
     return {
       valid: false,
       error: 'unsupported_algorithm',
@@ -42,13 +70,29 @@ export async function verifySignature(
   }
 
   // Check algorithm is in allowlist (if specified)
-  if (algorithms && !algorithms.includes(sigInput.alg)) {
+  if (algorithms && !algorithms.includes(alg)) {
     return {
       valid: false,
       error: 'algorithm_not_allowed',
     };
   }
 
+  // Check nonce presence when replay protection is required
+  if (requireNonce && sigInput.nonce === undefined) {
+    return {
+      valid: false,
+      error: 'nonce_required',
+    };
+  }
+
+  // A nonce is only remembered while the signature is acceptable, so that window must be bounded
+  if ((requireNonce || replayStore) && sigInput.created === undefined) {
+    return {
+      valid: false,
+      error: 'created_required',
+    };
+  }
+
   // Check signature freshness
   if (sigInput.created !== undefined) {
     const now = Math.floor(Date.now() / 1000);
@@ -82,7 +126,7 @@ export async function verifySignature(
   // Resolve the public key
   let publicKey;
   try {
-    publicKey = await keyResolver.resolve(sigInput.keyid, sigInput.alg);
+    publicKey = await keyResolver.resolve(sigInput.keyid, alg);
   } catch {
     return {
       valid: false,
@@ -90,8 +134,19 @@ export async function verifySignature(
     };
   }
 
-  // Build the signature base and verify
-  const signatureBase = buildSignatureBase(request, sigInput);
+  // Build the signature base; every covered component must be present
+  let signatureBase: string;
+  try {
+    signatureBase = buildMessageSignatureBase(message, sigInput, related);
+  } catch (error) {
+    if (error instanceof ComponentError) {
+      return {
+        valid: false,
+        error: 'invalid_component',
+      };
+    }
+    throw error;
+  }
   const data = new TextEncoder().encode(signatureBase);
 
   try {
@@ -109,11 +164,58 @@ export async function verifySignature(
     };
   }
 
+  // A signed Content-Digest only protects the body if it matches what was received
+  let digest: ContentDigest | undefined;
+  if (sigInput.components.includes('content-digest')) {
+    const digestResult = verifyContentDigest(
+      extractMessageComponent(message, 'content-digest'),
+      body ?? new Uint8Array()
+    );
+    if (!digestResult.valid) {
+      return {
+        valid: false,
+        error: digestResult.error,
+      };
+    }
+    digest = digestResult.digest;
+  }
+
+  // Only record nonces of otherwise valid signatures so forged requests cannot burn them
+  if (replayStore && sigInput.nonce !== undefined) {
+    const fresh = await replayStore.checkAndStore(
+      sigInput.keyid,
+      sigInput.nonce,
+      replayWindow(sigInput, maxAge)
+    );
+    if (!fresh) {
+      return {
+        valid: false,
+        error: 'replayed_signature',
+      };
+    }
+  }
+
   return {
     valid: true,
     keyId: sigInput.keyid,
-    algorithm: sigInput.alg,
+    algorithm: alg,
     components: sigInput.components,
     created: sigInput.created,
+    digest,
   };
 }
+
+/**
+ * Seconds for which a signature remains acceptable, i.e. how long its nonce must be remembered
+ * Acceptance ends maxAge after created, or at expires when that comes first
+ */
+function replayWindow(sigInput: ParsedSignatureInput, maxAge: number): number {
+  const now = Math.floor(Date.now() / 1000);
+  let end = sigInput.created! + maxAge;
+
+  if (sigInput.expires !== undefined) {
+    end = Math.min(end, sigInput.expires);
+  }
+
+  return Math.max(end - now, 1);
+}
@@ -0,0 +1,107 @@
+import { createHash } from 'node:crypto';
+import type { JWTPayload } from 'jose';
+import type { preHandlerHookHandler } from 'fastify';
+import { config } from '../config/index.js';
+import type { IntrospectionResponse } from '../services/oauth2/types.js';
+import { extractBearerToken, sendBearerChallenge } from './bearer-challenge.js';
+import { compilePolicy, evaluatePolicy, sendForbidden, type PolicyRequirement } from './policy.js';
+import { namedStrategy } from './auth.js';
+
+/**
+ * Options for introspectionAuth middleware
+ */
+export interface IntrospectionAuthOptions {
+  /** OAuth2 provider whose introspection endpoint and client credentials are used (default: OAUTH2_INTROSPECTION_PROVIDER) */
+  provider?: string;
+}
+
+const CACHE_NAME = 'token-introspection';
+
+/**
+ * Opaque token authentication middleware factory (RFC 7662 introspection)
+ * Active results are cached until the token's exp, and request.user gets the same
+ * claim shape as jwtAuth so routes work with either
+ * @param scopes - Optional requirement for this route, as for jwtAuth
+ * @param options - Introspection provider
+ * @returns Fastify preHandler middleware
+ */
+export function introspectionAuth(
+  scopes?: PolicyRequirement,
+  options: IntrospectionAuthOptions = {}
+): preHandlerHookHandler {
+  const { provider = config.oauth2.introspectionProvider } = options;
+  const policy = scopes ? compilePolicy(scopes) : null;
+
+  return namedStrategy('introspection', async (request, reply) => {
+    // Step 1: Extract token from Authorization header
+    const token = extractBearerToken(request, reply);
+    if (token === undefined) {
+      return reply;
+    }
+
+    if (!provider) {
+      return reply.code(500).send({
+        error: 'configuration_error',
+        message: 'OAUTH2_INTROSPECTION_PROVIDER not configured',
+      });
+    }
+
+    // Step 2: Use a cached result, or ask the provider (tokens are cached by hash only)
+    const cache = request.server.cache?.getCache<JWTPayload>(CACHE_NAME);
+    const cacheKey = `${provider}:${createHash('sha256').update(token).digest('base64url')}`;
+    let payload = cache?.get(cacheKey);
+
+    if (!payload) {
+      let result: IntrospectionResponse;
+      try {
+        result = await request.server.oauth2.introspect(provider, token);
+      } catch (error) {
+        request.log.error(
+          { provider, err: error instanceof Error ? error.message : error },
+          'Token introspection failed'
+        );
+        return reply.code(503).send({
+          error: 'Service Unavailable',
+          message: 'Token introspection unavailable',
+        });
+      }
+
+      const now = Math.floor(Date.now() / 1000);
+      if (!result.active || (result.exp !== undefined && result.exp <= now)) {
+        request.log.warn({ provider, reason: 'token_inactive' }, 'Introspected token rejected');
+        return sendBearerChallenge(
+          reply,
+          { error: 'invalid_token', description: 'Token is not active' },
+          { error: 'Unauthorized', message: 'Token is not active', reason: 'token_inactive' }
+        );
+      }
+
+      payload = toJwtPayload(result);
+
+      // Tokens without exp are introspected on every request
+      if (cache && result.exp !== undefined) {
+        cache.set(cacheKey, payload, { ttlMs: result.exp * 1000 - Date.now() });
+      }
+    }
+
+    // Step 3: Attach claims to request.user
+    request.user = payload;
+
+    // Step 4: Evaluate scope/role requirement (if any)
+    if (policy) {
+      const { allowed, missing } = evaluatePolicy(policy, payload);
+      if (!allowed) {
+        return sendForbidden(reply, missing);
+      }
+    }
+  });
+}
+
+/**
+ * Introspection responses use JWT claim names (RFC 7662 section 2.2),
+ * so only the members that describe the response itself are dropped
+ */
+function toJwtPayload(result: IntrospectionResponse): JWTPayload {
+  const { active: _active, token_type: _tokenType, ...claims } = result;
+  return claims as JWTPayload;
+}
@@ -1,6 +1,20 @@
-import { createRemoteJWKSet, jwtVerify, JWTPayload } from 'jose';
+import { createRemoteJWKSet, decodeJwt, jwtVerify, JWTPayload, type JWTVerifyOptions } from 'jose';
 import { preHandlerHookHandler } from 'fastify';
 import { config } from '../config/index.js';
+import type { JwtAuthOptions } from './jwt-types.js';
+import {
+  findTrustedIssuer,
+  getIssuerKeySet,
+  hasTrustedIssuers,
+  mapClaims,
+  UntrustedIssuerError,
+  type TrustedIssuer,
+} from './jwt-issuers.js';
+import { compilePolicy, evaluatePolicy, sendForbidden, type PolicyRequirement } from './policy.js';
+import { extractAccessToken, sendBearerChallenge, type TokenScheme } from './bearer-challenge.js';
+import { DpopError, verifyDpopBinding } from './dpop.js';
+import { verifyCertificateBinding } from './mtls-auth.js';
+import { namedStrategy } from './auth.js';
 
 // Lazy initialization of JWKS fetcher
 let JWKS: ReturnType<typeof createRemoteJWKSet> | null = null;
@@ -16,81 +30,231 @@ function getJWKS() {
 }
 
 /**
- * Validates if the JWT payload contains the required scopes
+ * Why a token was rejected, as reported in logs and the 401 response
  */
-function validateScopes(payload: JWTPayload, requiredScopes: string | string[]): boolean {
-  // Normalize required scopes to array
-  const required = Array.isArray(requiredScopes) ? requiredScopes : [requiredScopes];
-
-  // Extract scopes from JWT payload (check both 'scope' and 'scopes' properties)
-  let tokenScopes: string[] = [];
-
-  // Check payload.scope (string or array)
-  if (typeof payload.scope === 'string') {
-    tokenScopes = payload.scope.split(' ');
-  } else if (Array.isArray(payload.scope)) {
-    tokenScopes = payload.scope;
+interface TokenRejection {
+  reason: string;
+  message: string;
+}
+
+/**
+ * Map a jose verification error to a specific rejection reason
+ * jose errors carry a stable code (and the failing claim for claim errors)
+ */
+function describeRejection(error: unknown): TokenRejection {
+  const { code, claim } = (error ?? {}) as { code?: string; claim?: string };
+
+  switch (code) {
+    case UntrustedIssuerError.code:
+      return { reason: 'unknown_issuer', message: 'Token issuer is not trusted' };
+    case 'ERR_JWT_EXPIRED':
+      return { reason: 'token_expired', message: 'Token has expired' };
+    case 'ERR_JOSE_ALG_NOT_ALLOWED':
+      return { reason: 'algorithm_not_allowed', message: 'Token algorithm is not allowed' };
+    case 'ERR_JWKS_NO_MATCHING_KEY':
+      return { reason: 'unknown_key', message: 'Token signing key not found' };
+    case 'ERR_JWS_SIGNATURE_VERIFICATION_FAILED':
+      return { reason: 'invalid_signature', message: 'Token signature is invalid' };
+    case 'ERR_JWS_INVALID':
+    case 'ERR_JWT_INVALID':
+      return { reason: 'malformed_token', message: 'Token is malformed' };
+    case 'ERR_JWT_CLAIM_VALIDATION_FAILED':
+      switch (claim) {
+        case 'iss':
+          return { reason: 'invalid_issuer', message: 'Token issuer is not accepted' };
+        case 'aud':
+          return { reason: 'invalid_audience', message: 'Token audience is not accepted' };
+        case 'nbf':
+          return { reason: 'token_not_yet_valid', message: 'Token is not yet valid' };
+        case 'iat':
+          return { reason: 'token_too_old', message: 'Token exceeds maximum age' };
+      }
+      return { reason: 'invalid_claims', message: `Token claim "${claim}" is invalid` };
+    default:
+      return { reason: 'invalid_token', message: 'Invalid or missing token' };
   }
+}
+
+/**
+ * Merge per-route options over the JWT_* config into jose verify options
+ * For a registry issuer its audiences and algorithms sit between the two, while its iss
+ * comes last (route > JWT_ISSUERS > registry) so both can limit the issuers a route accepts
+ */
+function buildVerifyOptions(options: JwtAuthOptions, trusted?: TrustedIssuer): JWTVerifyOptions {
+  const {
+    issuer = preferList(config.jwt.issuers, trusted ? [trusted.issuer] : []),
+    audience = preferList(trusted?.audiences, config.jwt.audiences),
+    algorithms = preferList(trusted?.algorithms, config.jwt.algorithms),
+    maxTokenAge = config.jwt.maxTokenAge,
+    clockTolerance = config.jwt.clockTolerance,
+  } = options;
 
-  // Check payload.scopes (string or array) and merge
-  if (typeof payload.scopes === 'string') {
-    tokenScopes = [...tokenScopes, ...payload.scopes.split(' ')];
-  } else if (Array.isArray(payload.scopes)) {
-    tokenScopes = [...tokenScopes, ...payload.scopes];
+  const verifyOptions: JWTVerifyOptions = { clockTolerance };
+
+  // Empty lists mean "not checked" so deployments without these settings keep working
+  if (issuer.length > 0) {
+    verifyOptions.issuer = issuer;
+  }
+  if (audience.length > 0) {
+    verifyOptions.audience = audience;
+  }
+  if (algorithms.length > 0) {
+    verifyOptions.algorithms = algorithms;
   }
+  if (maxTokenAge !== undefined) {
+    verifyOptions.maxTokenAge = maxTokenAge;
+  }
+
+  return verifyOptions;
+}
+
+function preferList(list: string[] | undefined, fallback: string[]): string[] {
+  return list && list.length > 0 ? list : fallback;
+}
 
-  // No scopes found in token
-  if (tokenScopes.length === 0) {
-    return false;
+/**
+ * Verify a token against the issuer registry
+ * The issuer is read from the unverified token only to pick its key set; unknown
+ * issuers are rejected before any key is fetched
+ */
+async function verifyTrustedToken(token: string, options: JwtAuthOptions): Promise<JWTPayload> {
+  const { iss } = decodeJwt(token);
+  const trusted = findTrustedIssuer(iss);
+  if (!trusted) {
+    throw new UntrustedIssuerError(iss);
   }
 
-  // Check if token has ALL required scopes
-  return required.every((scope) => tokenScopes.includes(scope));
+  const keySet = await getIssuerKeySet(trusted);
+  const { payload } = await jwtVerify(token, keySet, buildVerifyOptions(options, trusted));
+  return mapClaims(payload, trusted.claims);
 }
 
 /**
  * JWT authentication middleware factory
- * @param scopes - Optional scope(s) required for this route
+ * @param scopes - Optional requirement for this route: a scope, a list of scopes (ALL required),
+ *   or an expression such as `admin OR (users:write AND role(editor))` or `policy(name)`
+ * @param options - Issuer, audience, algorithm and clock checks overriding JWT_* config
  * @returns Fastify preHandler middleware
  */
-export function jwtAuth(scopes?: string | string[]): preHandlerHookHandler {
-  return async (request, reply) => {
+export function jwtAuth(
+  scopes?: PolicyRequirement,
+  options: JwtAuthOptions = {}
+): preHandlerHookHandler {
+  const verifyOptions = buildVerifyOptions(options);
+  const { dpop: dpopRequired = config.jwt.dpopRequired } = options;
+  // Bound tokens are accepted with the DPoP scheme even where DPoP is optional
+  const schemes: TokenScheme[] = dpopRequired ? ['DPoP'] : ['Bearer', 'DPoP'];
+  // Parsed when the route is defined; policy(name) references are checked at startup
+  const policy = scopes ? compilePolicy(scopes) : null;
+
+  return namedStrategy('jwt', async (request, reply) => {
     // Step 1: Extract token from Authorization header
-    const authHeader = request.headers.authorization;
-    if (!authHeader || !authHeader.startsWith('Bearer ')) {
-      return reply.code(401).send({
-        error: 'Unauthorized',
-        message: 'Invalid or missing token',
-      });
+    const credentials = extractAccessToken(request, reply, schemes);
+    if (credentials === undefined) {
+      return reply;
     }
+    const { scheme, token } = credentials;
 
-    const token = authHeader.substring(7); // Remove 'Bearer '
+    // Step 2: Verify JWT signature, expiration, issuer, audience and algorithm using JWKS
+    let payload: JWTPayload;
+    try {
+      payload = hasTrustedIssuers()
+        ? await verifyTrustedToken(token, options)
+        : (await jwtVerify(token, getJWKS(), verifyOptions)).payload;
+    } catch (error) {
+      // Invalid signature, expired, wrong issuer/audience or malformed token
+      const rejection = describeRejection(error);
+      request.log.warn(
+        { reason: rejection.reason, err: error instanceof Error ? error.message : error },
+        'JWT rejected'
+      );
+
+      return sendBearerChallenge(
+        reply,
+        { error: 'invalid_token', description: rejection.message },
+        { error: 'Unauthorized', message: rejection.message, reason: rejection.reason }
+      );
+    }
 
-    // Step 2: Verify JWT signature and expiration using JWKS
+    // Step 3: Check proof-of-possession for DPoP-bound tokens (RFC 9449)
     try {
-      const { payload } = await jwtVerify(token, getJWKS());
-
-      // Step 3: Attach payload to request.user
-      request.user = payload;
-
-      // Step 4: Validate scopes (if required)
-      if (scopes) {
-        const hasRequiredScopes = validateScopes(payload, scopes);
-        if (!hasRequiredScopes) {
-          return reply.code(403).send({
-            error: 'Forbidden',
-            message: 'Insufficient permissions',
-          });
-        }
+      await verifyDpopBinding(request, token, scheme, payload, dpopRequired);
+    } catch (error) {
+      if (!(error instanceof DpopError)) {
+        // Replay store unavailable
+        request.log.error(
+          { err: error instanceof Error ? error.message : error },
+          'DPoP proof check failed'
+        );
+        return reply.code(503).send({
+          error: 'Service Unavailable',
+          message: 'DPoP proof check unavailable',
+        });
       }
 
-      // Step 5: Continue to route handler (no return = proceed)
-    } catch (error) {
-      // Invalid signature, expired, or malformed token
-      return reply.code(401).send({
-        error: 'Unauthorized',
-        message: 'Invalid or missing token',
-      });
+      request.log.warn({ reason: error.error, err: error.message }, 'JWT rejected');
+      return sendBearerChallenge(
+        reply,
+        {
+          scheme: 'DPoP',
+          error: error.error,
+          description: error.message,
+          algs: config.jwt.dpopAlgorithms,
+        },
+        { error: 'Unauthorized', message: error.message, reason: error.error }
+      );
     }
-  };
+
+    // Step 4: Check the client certificate of certificate-bound tokens (RFC 8705)
+    if (!verifyCertificateBinding(request, payload)) {
+      const message = 'Token is bound to a different client certificate';
+      request.log.warn({ reason: 'certificate_mismatch' }, 'JWT rejected');
+      return sendBearerChallenge(
+        reply,
+        { error: 'invalid_token', description: message },
+        { error: 'Unauthorized', message, reason: 'certificate_mismatch' }
+      );
+    }
+
+    // Step 5: Reject revoked tokens (denylist by jti, sub or sid)
+    const revocation = request.server?.revocation;
+    if (revocation) {
+      let revoked: boolean;
+      try {
+        revoked = await revocation.isRevoked(payload);
+      } catch (error) {
+        // Fail closed: a token that may be revoked is not accepted
+        request.log.error(
+          { err: error instanceof Error ? error.message : error },
+          'JWT revocation check failed'
+        );
+        return reply.code(503).send({
+          error: 'Service Unavailable',
+          message: 'Token revocation check unavailable',
+        });
+      }
+
+      if (revoked) {
+        request.log.warn({ reason: 'token_revoked', jti: payload.jti }, 'JWT rejected');
+        return sendBearerChallenge(
+          reply,
+          { error: 'invalid_token', description: 'Token has been revoked' },
+          { error: 'Unauthorized', message: 'Token has been revoked', reason: 'token_revoked' }
+        );
+      }
+    }
+
+    // Step 6: Attach payload to request.user
+    request.user = payload;
+
+    // Step 7: Evaluate scope/role requirement (if any)
+    if (policy) {
+      const { allowed, missing } = evaluatePolicy(policy, payload);
+      if (!allowed) {
+        return sendForbidden(reply, missing);
+      }
+    }
+
+    // Step 8: Continue to route handler (no return = proceed)
+  });
 }
@@ -0,0 +1,91 @@
+import { readFile } from 'node:fs/promises';
+import { createLocalJWKSet, createRemoteJWKSet, JWTPayload, type JWTVerifyGetKey } from 'jose';
+import { config, type JwtIssuerConfig } from '../config/index.js';
+
+/**
+ * A registry entry together with the name it was configured under
+ */
+export interface TrustedIssuer extends JwtIssuerConfig {
+  name: string;
+}
+
+/**
+ * Token iss is not in the issuer registry
+ */
+export class UntrustedIssuerError extends Error {
+  static readonly code = 'ERR_JWT_UNTRUSTED_ISSUER';
+  readonly code = UntrustedIssuerError.code;
+
+  constructor(public readonly issuer: string | undefined) {
+    super(issuer ? `Untrusted issuer: ${issuer}` : 'Token has no iss claim');
+    this.name = 'UntrustedIssuerError';
+  }
+}
+
+// One key set per issuer so JWKS documents are cached across requests
+const keySets = new Map<string, Promise<JWTVerifyGetKey>>();
+
+/**
+ * Look up the registry entry for an iss claim (exact match)
+ */
+export function findTrustedIssuer(iss: string | undefined): TrustedIssuer | undefined {
+  if (!iss) {
+    return undefined;
+  }
+  for (const [name, entry] of Object.entries(config.jwt.trustedIssuers)) {
+    if (entry.issuer === iss) {
+      return { name, ...entry };
+    }
+  }
+  return undefined;
+}
+
+/**
+ * True when tokens must be routed through the issuer registry
+ */
+export function hasTrustedIssuers(): boolean {
+  return Object.keys(config.jwt.trustedIssuers).length > 0;
+}
+
+/**
+ * Get the key set for an issuer: its JWKS endpoint, or its local JWKS file
+ */
+export function getIssuerKeySet(entry: TrustedIssuer): Promise<JWTVerifyGetKey> {
+  let keySet = keySets.get(entry.name);
+  if (!keySet) {
+    keySet = loadKeySet(entry);
+    // Failed loads (e.g. unreadable file) are retried on the next request
+    keySet.catch(() => keySets.delete(entry.name));
+    keySets.set(entry.name, keySet);
+  }
+  return keySet;
+}
+
+async function loadKeySet(entry: TrustedIssuer): Promise<JWTVerifyGetKey> {
+  if (entry.jwksUrl) {
+    return createRemoteJWKSet(new URL(entry.jwksUrl));
+  }
+  if (entry.jwksFile) {
+    const json = JSON.parse(await readFile(entry.jwksFile, 'utf8'));
+    return createLocalJWKSet(Array.isArray(json.keys) ? json : { keys: [json] });
+  }
+  throw new Error(`JWT issuer "${entry.name}" has no JWKS_URL or JWKS_FILE configured`);
+}
+
+/**
+ * Copy issuer-specific claims onto the names routes expect
+ * e.g. { scope: 'scp' } exposes the scp claim as payload.scope
+ */
+export function mapClaims(payload: JWTPayload, claims: Record<string, string>): JWTPayload {
+  const mapped: JWTPayload = { ...payload };
+  for (const [target, source] of Object.entries(claims)) {
+    if (payload[source] !== undefined) {
+      mapped[target] = payload[source];
+    }
+  }
+  return mapped;
+}
+
+export function resetIssuerKeySets(): void {
+  keySets.clear();
+}
@@ -0,0 +1,94 @@
+import type { JWTPayload } from 'jose';
+import type { RedisService } from '../services/redis.service.js';
+import { config } from '../config/index.js';
+import { createCache } from '../utils/cache.js';
+
+/**
+ * Denylist of revoked tokens, checked by jwtAuth after verification
+ */
+export interface RevocationStore {
+  /** Revoke a single token from an issuer by its jti */
+  revokeToken(iss: string, jti: string, ttlSeconds: number): Promise<void>;
+  /** Revoke every token from an issuer for a subject issued before `before` (epoch seconds) */
+  revokeSubject(iss: string, sub: string, before: number, ttlSeconds: number): Promise<void>;
+  /** Revoke every token from an issuer carrying a session id (OIDC sid claim) */
+  revokeSession(iss: string, sid: string, ttlSeconds: number): Promise<void>;
+  /** True when the token matches any revocation */
+  isRevoked(payload: JWTPayload): Promise<boolean>;
+}
+
+export interface RedisRevocationStoreOptions {
+  /** Milliseconds lookups are cached in-process (default: JWT_REVOCATION_CACHE_TTL) */
+  cacheTtlMs?: number;
+  maxEntries?: number;
+}
+
+const KEY_PREFIX = 'jwt:revoked';
+
+/**
+ * jti, sub and sid are only unique per issuer, so entries are keyed by both
+ * The issuer is encoded so its colons cannot run into the value
+ */
+function revocationKey(kind: 'jti' | 'sub' | 'sid', iss: string, value: string): string {
+  return `${KEY_PREFIX}:${kind}:${encodeURIComponent(iss)}:${value}`;
+}
+
+/**
+ * Revocations shared across instances via Redis
+ * Lookups (including misses) are cached in-process for cacheTtlMs, so a revocation made on
+ * another instance takes up to that long to apply here; revocations made here apply at once
+ */
+export function createRedisRevocationStore(
+  redis: RedisService,
+  options: RedisRevocationStoreOptions = {}
+): RevocationStore {
+  const { cacheTtlMs = config.jwt.revocationCacheTtl * 1000, maxEntries = 10000 } = options;
+  const lookups = createCache<string | null>({ maxEntries, defaultTtlMs: cacheTtlMs });
+
+  const lookup = async (key: string): Promise<string | null> => {
+    const cached = lookups.get(key);
+    if (cached !== undefined) {
+      return cached;
+    }
+    const value = await redis.get(key);
+    lookups.set(key, value);
+    return value;
+  };
+
+  const store = async (key: string, value: string, ttlSeconds: number): Promise<void> => {
+    await redis.setex(key, Math.max(1, Math.ceil(ttlSeconds)), value);
+    lookups.set(key, value);
+  };
+
+  return {
+    async revokeToken(iss, jti, ttlSeconds) {
+      await store(revocationKey('jti', iss, jti), '1', ttlSeconds);
+    },
+
+    async revokeSubject(iss, sub, before, ttlSeconds) {
+      const key = revocationKey('sub', iss, sub);
+      // An earlier cutoff must not undo a later one
+      const current = Number(await redis.get(key)) || 0;
+      await store(key, String(Math.max(current, before)), ttlSeconds);
+    },
+
+    async revokeSession(iss, sid, ttlSeconds) {
+      await store(revocationKey('sid', iss, sid), '1', ttlSeconds);
+    },
+
+    async isRevoked(payload) {
+      const { jti, sub, sid, iat, iss = '' } = payload;
+      const [byToken, bySession, subjectCutoff] = await Promise.all([
+        jti ? lookup(revocationKey('jti', iss, jti)) : null,
+        typeof sid === 'string' ? lookup(revocationKey('sid', iss, sid)) : null,
+        sub ? lookup(revocationKey('sub', iss, sub)) : null,
+      ]);
+
+      if (byToken !== null || bySession !== null) {
+        return true;
+      }
+      // Tokens without iat cannot show they were issued after the cutoff
+      return subjectCutoff !== null && (iat === undefined || iat < Number(subjectCutoff));
+    },
+  };
+}
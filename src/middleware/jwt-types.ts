@@ -1,5 +1,23 @@
 import { JWTPayload } from 'jose';
 
+/**
+ * Per-route token validation options for jwtAuth (override JWT_* config)
+ */
+export interface JwtAuthOptions {
+  /** Accepted issuer(s) (iss claim) */
+  issuer?: string | string[];
+  /** Accepted audience(s); the token's aud must contain one of them */
+  audience?: string | string[];
+  /** Allowed signing algorithms, e.g. ['RS256', 'ES256'] */
+  algorithms?: string[];
+  /** Maximum age since iat, in seconds or as a duration string like '1h' */
+  maxTokenAge?: number | string;
+  /** Allowed clock skew for exp, nbf and iat checks, in seconds */
+  clockTolerance?: number;
+  /** Accept only DPoP-bound tokens with a valid proof (default: JWT_DPOP_REQUIRED) */
+  dpop?: boolean;
+}
+
 // Extend FastifyRequest to include user property
 declare module 'fastify' {
   interface FastifyRequest {
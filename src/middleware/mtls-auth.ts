@@ -0,0 +1,163 @@
+import { createHash } from 'node:crypto';
+import type { PeerCertificate, TLSSocket } from 'node:tls';
+import type { JWTPayload } from 'jose';
+import type { FastifyRequest, preHandlerHookHandler } from 'fastify';
+import { config, type MtlsClientConfig } from '../config/index.js';
+import { namedStrategy } from './auth.js';
+import { compilePolicy, evaluatePolicy, type PolicyRequirement } from './policy.js';
+
+/**
+ * The client certificate presented on the TLS connection
+ */
+export interface ClientCertificate {
+  subject: Record<string, string | string[]>;
+  /** Subject alternative names, e.g. ['DNS:billing.internal', 'URI:spiffe://corp/billing'] */
+  san: string[];
+  /** SHA-256 of the DER certificate, base64url: the RFC 8705 x5t#S256 value */
+  thumbprint: string;
+  /** The same digest in hex with colons, as printed by openssl */
+  fingerprint256: string;
+  /** True when the chain validated against TLS_CA */
+  authorized: boolean;
+  authorizationError?: string;
+}
+
+/**
+ * Read the peer certificate of the request's TLS connection
+ * @returns undefined for plain HTTP or when the client sent no certificate
+ */
+export function getClientCertificate(request: FastifyRequest): ClientCertificate | undefined {
+  const socket = request.raw?.socket as TLSSocket | undefined;
+  if (!socket?.encrypted || typeof socket.getPeerCertificate !== 'function') {
+    return undefined;
+  }
+
+  // An empty object means no certificate was presented
+  const cert: PeerCertificate = socket.getPeerCertificate();
+  if (!cert || !cert.raw) {
+    return undefined;
+  }
+
+  return {
+    subject: (cert.subject ?? {}) as unknown as Record<string, string | string[]>,
+    san: cert.subjectaltname ? cert.subjectaltname.split(', ') : [],
+    thumbprint: createHash('sha256').update(cert.raw).digest('base64url'),
+    fingerprint256: cert.fingerprint256,
+    authorized: socket.authorized,
+    authorizationError: socket.authorizationError?.toString(),
+  };
+}
+
+/**
+ * The RFC 8705 x5t#S256 confirmation of a certificate-bound access token
+ */
+export function getTokenCertificateThumbprint(payload: JWTPayload): string | undefined {
+  const cnf = payload.cnf as Record<string, unknown> | undefined;
+  const thumbprint = cnf?.['x5t#S256'];
+  return typeof thumbprint === 'string' ? thumbprint : undefined;
+}
+
+/**
+ * Check a certificate-bound token against the certificate of the connection (RFC 8705 section 3)
+ * Unbound tokens pass; the chain is not required to validate, only to match the binding
+ */
+export function verifyCertificateBinding(request: FastifyRequest, payload: JWTPayload): boolean {
+  const expected = getTokenCertificateThumbprint(payload);
+  if (expected === undefined) {
+    return true;
+  }
+  return getClientCertificate(request)?.thumbprint === expected;
+}
+
+/**
+ * Find the registered client a certificate belongs to
+ * Every configured subject field must match, and one configured SAN if any are set
+ */
+export function findMtlsClient(
+  certificate: ClientCertificate,
+  clients: Record<string, MtlsClientConfig> = config.mtls.clients
+): { name: string; client: MtlsClientConfig } | undefined {
+  for (const [name, client] of Object.entries(clients)) {
+    // Rejected by validateConfig; never let an empty entry match any certificate
+    if (Object.keys(client.subject).length === 0 && client.san.length === 0) {
+      continue;
+    }
+    const subjectMatches = Object.entries(client.subject).every(([field, value]) => {
+      const actual = certificate.subject[field];
+      return Array.isArray(actual) ? actual.includes(value) : actual === value;
+    });
+    const sanMatches =
+      client.san.length === 0 || client.san.some((san) => certificate.san.includes(san));
+
+    if (subjectMatches && sanMatches) {
+      return { name, client };
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Client certificate authentication middleware factory
+ * Needs HTTPS with TLS_REQUEST_CERT=true and TLS_CA set to the CA that issues client certificates
+ * @param scopes - Optional requirement for this route, checked against the client's MTLS_CLIENT_*_SCOPES
+ * @returns Fastify preHandler middleware
+ */
+export function mtlsAuth(scopes?: PolicyRequirement): preHandlerHookHandler {
+  const policy = scopes ? compilePolicy(scopes) : null;
+
+  return namedStrategy('mtls', async (request, reply) => {
+    // Step 1: Require a certificate that chains to the configured CA
+    const certificate = getClientCertificate(request);
+    if (!certificate) {
+      return reply
+        .code(401)
+        .send({ error: 'Unauthorized', message: 'Client certificate required' });
+    }
+
+    if (!certificate.authorized) {
+      request.log.warn(
+        { reason: 'invalid_certificate', err: certificate.authorizationError },
+        'Client certificate rejected'
+      );
+      return reply.code(401).send({
+        error: 'Unauthorized',
+        message: 'Client certificate is not trusted',
+        reason: 'invalid_certificate',
+      });
+    }
+
+    // Step 2: Map subject/SAN to a registered client
+    const match = findMtlsClient(certificate);
+    if (!match) {
+      request.log.warn(
+        { reason: 'unknown_client', subject: certificate.subject, san: certificate.san },
+        'Client certificate rejected'
+      );
+      return reply.code(401).send({
+        error: 'Unauthorized',
+        message: 'Client certificate is not registered',
+        reason: 'unknown_client',
+      });
+    }
+
+    // Step 3: Attach the client principal to request.user
+    request.clientCertificate = certificate;
+    request.user = {
+      sub: match.name,
+      scope: match.client.scopes.join(' '),
+      cnf: { 'x5t#S256': certificate.thumbprint },
+    };
+
+    // Step 4: Evaluate scope requirement against the client's scopes (if any)
+    if (policy) {
+      const { allowed, missing } = evaluatePolicy(policy, request.user);
+      if (!allowed) {
+        return reply.code(403).send({
+          error: 'Forbidden',
+          message: `Insufficient permissions: requires ${missing.join(' AND ')}`,
+          missing,
+        });
+      }
+    }
+  });
+}
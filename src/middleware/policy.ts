@@ -0,0 +1,331 @@
+import type { JWTPayload } from 'jose';
+import type { FastifyReply, preHandlerHookHandler } from 'fastify';
+import { config } from '../config/index.js';
+import { sendBearerChallenge } from './bearer-challenge.js';
+
+/**
+ * Parsed permission expression
+ * e.g. `admin OR (users:write AND users:read)` or `role(editor) AND NOT policy(suspended)`
+ */
+export type PolicyNode =
+  | { type: 'scope'; name: string }
+  | { type: 'role'; name: string }
+  | { type: 'policy'; name: string }
+  | { type: 'not'; operand: PolicyNode }
+  | { type: 'and' | 'or'; operands: PolicyNode[] };
+
+/**
+ * A route requirement: an expression, or a list of scopes that are ALL required
+ */
+export type PolicyRequirement = string | string[];
+
+export interface PolicyResult {
+  allowed: boolean;
+  /** Unmet requirements in expression syntax, e.g. ['users:write', 'role(admin)'] */
+  missing: string[];
+}
+
+/**
+ * Invalid expression or reference to an unregistered policy
+ */
+export class PolicyError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'PolicyError';
+  }
+}
+
+const registry = new Map<string, PolicyNode>();
+// Names used as policy(name) by compiled requirements, checked by checkPolicyReferences
+const referencedPolicies = new Set<string>();
+
+/**
+ * Register a named policy so routes can reference it as `policy(name)`
+ * Call at startup; the expression is parsed immediately so mistakes fail fast
+ */
+export function registerPolicy(name: string, requirement: PolicyRequirement): void {
+  registry.set(name, compilePolicy(requirement));
+}
+
+export function getPolicy(name: string): PolicyNode | undefined {
+  return registry.get(name);
+}
+
+export function resetPolicies(): void {
+  registry.clear();
+  referencedPolicies.clear();
+}
+
+/**
+ * Parse a requirement; arrays keep the original "all of these scopes" meaning
+ * Policy references are recorded so checkPolicyReferences can verify them at startup
+ */
+export function compilePolicy(requirement: PolicyRequirement): PolicyNode {
+  if (Array.isArray(requirement)) {
+    return { type: 'and', operands: requirement.map((name) => ({ type: 'scope', name })) };
+  }
+  const node = parsePolicy(requirement);
+  for (const name of policyReferences(node)) {
+    referencedPolicies.add(name);
+  }
+  return node;
+}
+
+/**
+ * Fail when a compiled requirement references an unregistered policy, or registered
+ * policies reference each other in a loop
+ * Called by registerControllers once routes are defined, so policies must be registered first
+ */
+export function checkPolicyReferences(): void {
+  for (const name of referencedPolicies) {
+    if (!registry.has(name)) {
+      throw new PolicyError(`Policy "${name}" is not registered`);
+    }
+  }
+
+  const visit = (name: string, path: string[]): void => {
+    if (path.includes(name)) {
+      throw new PolicyError(`Policy "${name}" references itself`);
+    }
+    for (const reference of policyReferences(registry.get(name)!)) {
+      visit(reference, [...path, name]);
+    }
+  };
+  for (const name of registry.keys()) {
+    visit(name, []);
+  }
+}
+
+function policyReferences(node: PolicyNode): string[] {
+  switch (node.type) {
+    case 'policy':
+      return [node.name];
+    case 'not':
+      return policyReferences(node.operand);
+    case 'and':
+    case 'or':
+      return node.operands.flatMap(policyReferences);
+    default:
+      return [];
+  }
+}
+
+/**
+ * Parse an expression: AND binds tighter than OR, NOT tighter than both
+ * Operators are upper case so lower-case scopes such as "or" stay usable
+ */
+export function parsePolicy(expression: string): PolicyNode {
+  const tokens = expression.match(/(?:scope|role|policy)\([^()\s]+\)|\(|\)|[^\s()]+/g) ?? [];
+  let pos = 0;
+
+  const fail = (message: string): never => {
+    throw new PolicyError(`${message} in policy "${expression}"`);
+  };
+
+  const parseOr = (): PolicyNode => {
+    const operands = [parseAnd()];
+    while (tokens[pos] === 'OR') {
+      pos++;
+      operands.push(parseAnd());
+    }
+    return operands.length === 1 ? operands[0] : { type: 'or', operands };
+  };
+
+  const parseAnd = (): PolicyNode => {
+    const operands = [parseUnary()];
+    while (tokens[pos] === 'AND') {
+      pos++;
+      operands.push(parseUnary());
+    }
+    return operands.length === 1 ? operands[0] : { type: 'and', operands };
+  };
+
+  const parseUnary = (): PolicyNode => {
+    const token = tokens[pos++];
+    if (token === undefined) {
+      return fail('Unexpected end');
+    }
+    if (token === 'NOT') {
+      return { type: 'not', operand: parseUnary() };
+    }
+    if (token === '(') {
+      const node = parseOr();
+      if (tokens[pos++] !== ')') {
+        fail('Missing ")"');
+      }
+      return node;
+    }
+    if (token === ')' || token === 'AND' || token === 'OR') {
+      return fail(`Unexpected "${token}"`);
+    }
+
+    const call = /^(scope|role|policy)\((.+)\)$/.exec(token);
+    if (call) {
+      return { type: call[1] as 'scope' | 'role' | 'policy', name: call[2] };
+    }
+    return { type: 'scope', name: token };
+  };
+
+  const node = parseOr();
+  if (pos < tokens.length) {
+    fail(`Unexpected "${tokens[pos]}"`);
+  }
+  return node;
+}
+
+/**
+ * Format a node back into expression syntax (used to name missing permissions)
+ */
+export function formatPolicy(node: PolicyNode): string {
+  switch (node.type) {
+    case 'scope':
+      return node.name;
+    case 'role':
+    case 'policy':
+      return `${node.type}(${node.name})`;
+    case 'not':
+      return `NOT ${formatOperand(node.operand)}`;
+    default:
+      return node.operands.map(formatOperand).join(node.type === 'and' ? ' AND ' : ' OR ');
+  }
+}
+
+function formatOperand(node: PolicyNode): string {
+  return node.type === 'and' || node.type === 'or' ? `(${formatPolicy(node)})` : formatPolicy(node);
+}
+
+/**
+ * Evaluate a policy against verified token claims
+ * @param roleClaims - Claim paths holding roles (default: JWT_ROLE_CLAIMS)
+ */
+export function evaluatePolicy(
+  node: PolicyNode,
+  payload: JWTPayload,
+  roleClaims: string[] = config.jwt.roleClaims
+): PolicyResult {
+  const scopes = new Set(getTokenScopes(payload));
+  const roles = new Set(getTokenRoles(payload, roleClaims));
+
+  const evaluate = (current: PolicyNode, seen: string[]): PolicyResult => {
+    switch (current.type) {
+      case 'scope':
+        return result(scopes.has(current.name), [current]);
+      case 'role':
+        return result(roles.has(current.name), [current]);
+      case 'policy': {
+        if (seen.includes(current.name)) {
+          throw new PolicyError(`Policy "${current.name}" references itself`);
+        }
+        const policy = registry.get(current.name);
+        if (!policy) {
+          throw new PolicyError(`Policy "${current.name}" is not registered`);
+        }
+        return evaluate(policy, [...seen, current.name]);
+      }
+      case 'not': {
+        const inner = evaluate(current.operand, seen);
+        return result(!inner.allowed, [current]);
+      }
+      case 'and': {
+        const missing = current.operands.flatMap((operand) => evaluate(operand, seen).missing);
+        return { allowed: missing.length === 0, missing };
+      }
+      case 'or': {
+        // Report the alternative closest to being satisfied
+        let closest: PolicyResult | null = null;
+        for (const operand of current.operands) {
+          const outcome = evaluate(operand, seen);
+          if (outcome.allowed) {
+            return outcome;
+          }
+          if (!closest || outcome.missing.length < closest.missing.length) {
+            closest = outcome;
+          }
+        }
+        return closest!;
+      }
+    }
+  };
+
+  return evaluate(node, []);
+}
+
+function result(allowed: boolean, unmet: PolicyNode[]): PolicyResult {
+  return { allowed, missing: allowed ? [] : unmet.map(formatPolicy) };
+}
+
+/**
+ * Scopes from the scope and scopes claims (space-separated strings or arrays), merged
+ */
+export function getTokenScopes(payload: JWTPayload): string[] {
+  return [...toList(payload.scope), ...toList(payload.scopes)];
+}
+
+/**
+ * Roles from each claim path, e.g. roles, groups or realm_access.roles (Keycloak)
+ */
+export function getTokenRoles(payload: JWTPayload, roleClaims: string[]): string[] {
+  return roleClaims.flatMap((claimPath) => {
+    const value = claimPath
+      .split('.')
+      .reduce<unknown>(
+        (claims, key) =>
+          claims && typeof claims === 'object'
+            ? (claims as Record<string, unknown>)[key]
+            : undefined,
+        payload
+      );
+    return toList(value);
+  });
+}
+
+function toList(value: unknown): string[] {
+  if (typeof value === 'string') {
+    return value.split(' ').filter(Boolean);
+  }
+  if (Array.isArray(value)) {
+    return value.filter((item): item is string => typeof item === 'string');
+  }
+  return [];
+}
+
+/**
+ * Send the 403 insufficient_scope challenge for an unmet policy, naming what is missing
+ * The challenge scope lists the missing scopes (roles cannot be requested by clients)
+ */
+export function sendForbidden(reply: FastifyReply, missing: string[]) {
+  const message = `Insufficient permissions: requires ${missing.join(' AND ')}`;
+  const scope = missing
+    .map((term) => parsePolicy(term))
+    .flatMap((node) => (node.type === 'scope' ? [node.name] : []));
+
+  return sendBearerChallenge(
+    reply,
+    { error: 'insufficient_scope', description: message, scope },
+    { error: 'Forbidden', message, missing }
+  );
+}
+
+/**
+ * Authorization middleware factory for routes already authenticated by jwtAuth
+ * @param requirement - Scope expression, scope list (ALL required) or `policy(name)`
+ * @returns Fastify preHandler middleware
+ */
+export function authorize(requirement: PolicyRequirement): preHandlerHookHandler {
+  const policy = compilePolicy(requirement);
+
+  return async (request, reply) => {
+    if (!request.user) {
+      return sendBearerChallenge(
+        reply,
+        {},
+        { error: 'Unauthorized', message: 'Invalid or missing token' }
+      );
+    }
+
+    const { allowed, missing } = evaluatePolicy(policy, request.user);
+    if (!allowed) {
+      return sendForbidden(reply, missing);
+    }
+  };
+}
@@ -1,19 +1,59 @@
 import { FastifyInstance, FastifyPluginAsync } from 'fastify';
 import fp from 'fastify-plugin';
 import { OAuth2Service } from '../services/oauth2/index.js';
+import { createRedisTokenStore } from '../services/oauth2/redis-token-store.js';
 import { config } from '../config/index.js';
 
 const oauth2Plugin: FastifyPluginAsync = async (fastify: FastifyInstance) => {
+  // Share tokens between instances when an encryption key is configured
+  const store = config.oauth2.tokenCacheKey
+    ? createRedisTokenStore(fastify.redis, {
+        secret: config.oauth2.tokenCacheKey,
+        logger: fastify.log,
+      })
+    : undefined;
+
   const oauth2Service = new OAuth2Service(
     config.oauth2.providers,
     fastify.log,
-    config.oauth2.refreshBufferSeconds
+    config.oauth2.refreshBufferSeconds,
+    store
   );
 
+  // Complete providers configured with an issuer before serving requests
+  const failures = await oauth2Service.discover();
+  for (const { provider, required, error } of failures) {
+    const log = required ? fastify.log.error : fastify.log.warn;
+    log.call(fastify.log, { provider, err: error.message }, 'OAuth2 provider discovery failed');
+  }
+  const requiredFailures = failures.filter((failure) => failure.required);
+  if (requiredFailures.length > 0) {
+    const names = requiredFailures.map((failure) => failure.provider).join(', ');
+    throw new Error(`OAuth2 discovery failed for required provider(s): ${names}`);
+  }
+
+  // Refresh metadata periodically so changed endpoints are picked up
+  const hasIssuers = Object.values(config.oauth2.providers).some((provider) => provider.issuer);
+  if (hasIssuers) {
+    const timer = setInterval(async () => {
+      for (const { provider, error } of await oauth2Service.discover()) {
+        fastify.log.warn(
+          { provider, err: error.message },
+          'OAuth2 provider discovery refresh failed, keeping previous metadata'
+        );
+      }
+    }, config.oauth2.discoveryRefreshSeconds * 1000);
+    timer.unref();
+    fastify.addHook('onClose', async () => clearInterval(timer));
+  }
+
   // Log discovered providers (without secrets)
   const providerNames = Object.keys(config.oauth2.providers);
   if (providerNames.length > 0) {
-    fastify.log.info({ providers: providerNames }, 'OAuth2 providers configured');
+    fastify.log.info(
+      { providers: providerNames, sharedCache: store !== undefined },
+      'OAuth2 providers configured'
+    );
   }
 
   // Cleanup on server close
@@ -28,4 +68,5 @@ const oauth2Plugin: FastifyPluginAsync = async (fastify: FastifyInstance) => {
 
 export default fp(oauth2Plugin, {
   name: 'oauth2',
+  dependencies: ['redis'],
 });
@@ -0,0 +1,47 @@
+import { FastifyInstance, FastifyPluginAsync, errorCodes } from 'fastify';
+import fp from 'fastify-plugin';
+import { Readable } from 'node:stream';
+
+/**
+ * Captures the raw request body on request.rawBody before parsing
+ * Only requests carrying a Content-Digest header are buffered, so httpSig can
+ * verify the digest against the exact bytes received
+ * The route's bodyLimit is enforced while buffering, as Fastify only applies it when parsing
+ */
+const rawBodyPlugin: FastifyPluginAsync = async (fastify: FastifyInstance) => {
+  fastify.addHook('preParsing', async (request, reply, payload) => {
+    if (!request.headers['content-digest']) {
+      return payload;
+    }
+
+    const limit = request.routeOptions.bodyLimit ?? fastify.initialConfig.bodyLimit;
+    if (Number(request.headers['content-length']) > limit) {
+      throw new errorCodes.FST_ERR_CTP_BODY_TOO_LARGE();
+    }
+
+    const chunks: Buffer[] = [];
+    let received = 0;
+    for await (const chunk of payload) {
+      const buffer = typeof chunk === 'string' ? Buffer.from(chunk) : chunk;
+      received += buffer.length;
+      if (received > limit) {
+        payload.destroy();
+        throw new errorCodes.FST_ERR_CTP_BODY_TOO_LARGE();
+      }
+      chunks.push(buffer);
+    }
+
+    const rawBody = Buffer.concat(chunks);
+    request.rawBody = rawBody;
+
+    // Hand the buffered bytes on to the content type parser
+    const stream = Readable.from([rawBody]);
+    (stream as Readable & { receivedEncodedLength?: number }).receivedEncodedLength =
+      rawBody.length;
+    return stream;
+  });
+};
+
+export default fp(rawBodyPlugin, {
+  name: 'raw-body',
+});
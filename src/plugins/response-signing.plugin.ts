@@ -0,0 +1,63 @@
+import { FastifyInstance, FastifyPluginAsync } from 'fastify';
+import fp from 'fastify-plugin';
+import { requestTargetUri } from '../middleware/http-signature/components.js';
+
+const SIGNATURE_HEADERS = ['Content-Digest', 'Signature-Input', 'Signature'];
+
+/**
+ * Signs responses of routes that opted in with the signResponse() middleware
+ * Runs in onSend so the signature covers the serialized payload and final status
+ */
+const responseSigningPlugin: FastifyPluginAsync = async (fastify: FastifyInstance) => {
+  fastify.decorateRequest('responseSigner', null);
+
+  fastify.addHook('onSend', async (request, reply, payload) => {
+    const signer = request.responseSigner;
+    if (!signer) {
+      return payload;
+    }
+
+    // Only buffered payloads can be digested; streams are sent unsigned
+    if (payload != null && typeof payload !== 'string' && !Buffer.isBuffer(payload)) {
+      request.log.warn('Streamed response cannot be signed');
+      return payload;
+    }
+
+    const signed = await signer.signResponse(
+      {
+        status: reply.statusCode,
+        headers: toHeaderRecord(reply.getHeaders()),
+        body: payload ?? undefined,
+      },
+      {
+        method: request.method,
+        url: requestTargetUri(request),
+        headers: toHeaderRecord(request.headers),
+      }
+    );
+
+    for (const name of SIGNATURE_HEADERS) {
+      if (signed[name] !== undefined) {
+        reply.header(name, signed[name]);
+      }
+    }
+
+    return payload;
+  });
+};
+
+function toHeaderRecord(
+  headers: Record<string, string | number | string[] | undefined>
+): Record<string, string> {
+  const result: Record<string, string> = {};
+  for (const [name, value] of Object.entries(headers)) {
+    if (value !== undefined) {
+      result[name] = Array.isArray(value) ? value.join(', ') : String(value);
+    }
+  }
+  return result;
+}
+
+export default fp(responseSigningPlugin, {
+  name: 'response-signing',
+});
@@ -0,0 +1,13 @@
+import { FastifyInstance, FastifyPluginAsync } from 'fastify';
+import fp from 'fastify-plugin';
+import { createRedisRevocationStore } from '../middleware/jwt-revocation.js';
+
+const revocationPlugin: FastifyPluginAsync = async (fastify: FastifyInstance) => {
+  // One store per app so revocations made here skip the lookup cache at once
+  fastify.decorate('revocation', createRedisRevocationStore(fastify.redis));
+};
+
+export default fp(revocationPlugin, {
+  name: 'revocation',
+  dependencies: ['redis'],
+});
@@ -0,0 +1,33 @@
+import { z } from 'zod';
+
+const issuer = z.string().min(1, 'iss is required').max(2048);
+
+/**
+ * Revoke a single token from an issuer - exp (epoch seconds) bounds how long the entry is kept
+ */
+export const revokeTokenSchema = z.object({
+  iss: issuer,
+  jti: z.string().min(1, 'jti is required').max(256),
+  exp: z.number().int().positive().optional(),
+});
+
+/**
+ * Revoke all tokens from an issuer for a subject issued before a time (epoch seconds, default: now)
+ */
+export const revokeSubjectSchema = z.object({
+  iss: issuer,
+  sub: z.string().min(1, 'sub is required').max(256),
+  before: z.number().int().positive().optional(),
+});
+
+/**
+ * Revoke all tokens from an issuer for a session (OIDC sid claim)
+ */
+export const revokeSessionSchema = z.object({
+  iss: issuer,
+  sid: z.string().min(1, 'sid is required').max(256),
+});
+
+export type RevokeTokenDto = z.infer<typeof revokeTokenSchema>;
+export type RevokeSubjectDto = z.infer<typeof revokeSubjectSchema>;
+export type RevokeSessionDto = z.infer<typeof revokeSessionSchema>;
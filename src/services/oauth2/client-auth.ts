@@ -0,0 +1,162 @@
+import { randomUUID } from 'node:crypto';
+import { request as httpsRequest } from 'node:https';
+import { SignJWT } from 'jose';
+import type { KeyLike } from '../../middleware/http-signature/types.js';
+import { importJosePrivateKey } from '../../middleware/http-signature/keys.js';
+import type { OAuth2ProviderConfig } from './types.js';
+import { OAuth2Error } from './errors.js';
+
+const CLIENT_ASSERTION_TYPE = 'urn:ietf:params:oauth:client-assertion-type:jwt-bearer';
+
+// Client assertions are single-use, so a short lifetime is enough
+const ASSERTION_LIFETIME_SECONDS = 60;
+
+// Imported once per provider, not on every token request
+const assertionKeys = new WeakMap<OAuth2ProviderConfig, Promise<KeyLike>>();
+
+/**
+ * POST a form to one of the provider's endpoints, authenticated with its client auth method
+ * Used for every grant and for introspection, so all support the same methods
+ */
+export async function postClientRequest(
+  config: OAuth2ProviderConfig,
+  url: string,
+  params: Record<string, string | string[]>,
+  headers: Record<string, string> = {}
+): Promise<Response> {
+  // Array values become repeated parameters, e.g. several resource indicators
+  const body = new URLSearchParams();
+  for (const [name, value] of Object.entries(params)) {
+    for (const item of [value].flat()) {
+      body.append(name, item);
+    }
+  }
+  const requestHeaders: Record<string, string> = {
+    'Content-Type': 'application/x-www-form-urlencoded',
+    ...headers,
+  };
+
+  switch (config.authMethod ?? 'client_secret_post') {
+    case 'client_secret_post':
+      body.set('client_id', config.clientId);
+      body.set('client_secret', config.clientSecret);
+      break;
+    case 'client_secret_basic':
+      requestHeaders.Authorization = basicAuthorization(config.clientId, config.clientSecret);
+      break;
+    case 'private_key_jwt':
+      body.set('client_id', config.clientId);
+      body.set('client_assertion_type', CLIENT_ASSERTION_TYPE);
+      body.set('client_assertion', await createClientAssertion(config, url));
+      break;
+    case 'tls_client_auth':
+      // The client is authenticated by its certificate; client_id identifies it
+      body.set('client_id', config.clientId);
+      return postWithClientCertificate(config, url, body.toString(), requestHeaders);
+  }
+
+  return fetch(url, {
+    method: 'POST',
+    headers: requestHeaders,
+    body: body.toString(),
+  });
+}
+
+/**
+ * Sign a client assertion JWT (RFC 7523 section 3) for a request to `url`
+ */
+export async function createClientAssertion(
+  config: OAuth2ProviderConfig,
+  url: string
+): Promise<string> {
+  const { clientId, keyId, signingAlgorithm = 'RS256', assertionAudience = url } = config;
+  const now = Math.floor(Date.now() / 1000);
+
+  return new SignJWT({
+    iss: clientId,
+    sub: clientId,
+    aud: assertionAudience,
+    jti: randomUUID(),
+    iat: now,
+    exp: now + ASSERTION_LIFETIME_SECONDS,
+  })
+    .setProtectedHeader({ alg: signingAlgorithm, typ: 'JWT', ...(keyId && { kid: keyId }) })
+    .sign(await getAssertionKey(config, signingAlgorithm));
+}
+
+function getAssertionKey(config: OAuth2ProviderConfig, algorithm: string): Promise<KeyLike> {
+  let key = assertionKeys.get(config);
+  if (!key) {
+    if (!config.privateKey) {
+      throw new OAuth2Error(
+        'private_key_jwt requires a private key',
+        'invalid_client_config',
+        'unknown'
+      );
+    }
+    key = importJosePrivateKey(config.privateKey, algorithm);
+    // A bad key is reported on every request rather than cached
+    key.catch(() => assertionKeys.delete(config));
+    assertionKeys.set(config, key);
+  }
+  return key;
+}
+
+/**
+ * client_id and secret are form-encoded before base64 (RFC 6749 section 2.3.1)
+ */
+function basicAuthorization(clientId: string, clientSecret: string): string {
+  const encode = (value: string) => encodeURIComponent(value).replace(/%20/g, '+');
+  const credentials = `${encode(clientId)}:${encode(clientSecret)}`;
+  return `Basic ${Buffer.from(credentials).toString('base64')}`;
+}
+
+/**
+ * POST over a TLS connection presenting the client certificate (RFC 8705 section 2)
+ * fetch cannot present a client certificate, so node:https is used and the result
+ * wrapped in a Response for the callers
+ */
+function postWithClientCertificate(
+  config: OAuth2ProviderConfig,
+  url: string,
+  body: string,
+  headers: Record<string, string>
+): Promise<Response> {
+  if (!config.tlsCert || !config.tlsKey) {
+    return Promise.reject(
+      new OAuth2Error(
+        'tls_client_auth requires a client certificate and key',
+        'invalid_client_config',
+        'unknown'
+      )
+    );
+  }
+
+  return new Promise((resolve, reject) => {
+    const req = httpsRequest(
+      url,
+      { method: 'POST', headers, cert: config.tlsCert, key: config.tlsKey },
+      (res) => {
+        const chunks: Buffer[] = [];
+        res.on('data', (chunk: Buffer) => chunks.push(chunk));
+        res.on('error', reject);
+        res.on('end', () => {
+          const responseHeaders = new Headers();
+          for (const [name, value] of Object.entries(res.headers)) {
+            for (const item of [value ?? []].flat()) {
+              responseHeaders.append(name, item);
+            }
+          }
+          resolve(
+            new Response(Buffer.concat(chunks), {
+              status: res.statusCode ?? 500,
+              headers: responseHeaders,
+            })
+          );
+        });
+      }
+    );
+    req.on('error', reject);
+    req.end(body);
+  });
+}
@@ -1,30 +1,27 @@
-import type { OAuth2ProviderConfig, CachedToken, TokenResponse } from './types.js';
+import type {
+  OAuth2ProviderConfig,
+  CachedToken,
+  TokenResponse,
+  TokenRequestOptions,
+} from './types.js';
 import { OAuth2Error } from './errors.js';
+import { postClientRequest } from './client-auth.js';
 
 /**
  * Fetch a token using OAuth2 client credentials grant
  */
 export async function fetchClientCredentialsToken(
   config: OAuth2ProviderConfig,
-  refreshBufferSeconds: number
+  refreshBufferSeconds: number,
+  tokenRequest: TokenRequestOptions = {}
 ): Promise<CachedToken> {
-  const body = new URLSearchParams({
+  const params: Record<string, string | string[]> = {
     grant_type: 'client_credentials',
-    client_id: config.clientId,
-    client_secret: config.clientSecret,
-  });
+  };
 
-  if (config.scope) {
-    body.set('scope', config.scope);
-  }
+  addTokenRequestParams(params, config, tokenRequest);
 
-  const response = await fetch(config.tokenUrl, {
-    method: 'POST',
-    headers: {
-      'Content-Type': 'application/x-www-form-urlencoded',
-    },
-    body: body.toString(),
-  });
+  const response = await postClientRequest(config, config.tokenUrl, params);
 
   if (!response.ok) {
     const errorText = await response.text();
@@ -37,7 +34,56 @@ export async function fetchClientCredentialsToken(
   }
 
   const data = (await response.json()) as TokenResponse;
-  return tokenResponseToCachedToken(data, refreshBufferSeconds);
+  return checkGrantedScope(
+    tokenResponseToCachedToken(data, refreshBufferSeconds),
+    tokenRequest.scope ?? config.scope
+  );
+}
+
+/**
+ * Add the scope, audience and resource of a token request to the grant parameters
+ * A scope requested for the call replaces the provider's configured scope
+ */
+export function addTokenRequestParams(
+  params: Record<string, string | string[]>,
+  config: OAuth2ProviderConfig,
+  tokenRequest: TokenRequestOptions
+): void {
+  const scope = tokenRequest.scope ?? config.scope;
+  if (scope) {
+    params.scope = scope;
+  }
+  if (tokenRequest.audience) {
+    params.audience = tokenRequest.audience;
+  }
+  // Resource indicators (RFC 8707 section 2)
+  if (tokenRequest.resource) {
+    params.resource = tokenRequest.resource;
+  }
+}
+
+/**
+ * Check that a token was granted every requested scope
+ * A response without scope was granted exactly the requested scope (RFC 6749 section 5.1)
+ */
+export function checkGrantedScope(token: CachedToken, requestedScope?: string): CachedToken {
+  if (!requestedScope) {
+    return token;
+  }
+  if (token.scope === undefined) {
+    return { ...token, scope: requestedScope };
+  }
+
+  const granted = new Set(token.scope.split(' '));
+  const missing = requestedScope.split(' ').filter((scope) => scope && !granted.has(scope));
+  if (missing.length > 0) {
+    throw new OAuth2Error(
+      `Token was not granted the requested scope: ${missing.join(' ')}`,
+      'insufficient_scope',
+      'unknown'
+    );
+  }
+  return token;
 }
 
 /**
@@ -59,5 +105,6 @@ export function tokenResponseToCachedToken(response: TokenResponse, refreshBuffe
     expiresAt,
     refreshAt,
     scope: response.scope,
+    issuedTokenType: response.issued_token_type,
   };
 }
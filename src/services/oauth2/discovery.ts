@@ -0,0 +1,137 @@
+import type {
+  AuthorizationServerMetadata,
+  ClientAuthMethod,
+  OAuth2ProviderConfig,
+} from './types.js';
+import { OAuth2Error } from './errors.js';
+
+const DISCOVERY_TIMEOUT_MS = 10000;
+
+// Token endpoint auth methods assumed when metadata lists none (RFC 8414 section 2)
+const DEFAULT_AUTH_METHODS = ['client_secret_basic'];
+
+/**
+ * Fetch an issuer's metadata, trying OpenID Connect Discovery then RFC 8414
+ */
+export async function fetchProviderMetadata(issuer: string): Promise<AuthorizationServerMetadata> {
+  const problems: string[] = [];
+
+  for (const url of metadataUrls(issuer)) {
+    let response: Response;
+    try {
+      response = await fetch(url, {
+        headers: { Accept: 'application/json' },
+        signal: AbortSignal.timeout(DISCOVERY_TIMEOUT_MS),
+      });
+    } catch (error) {
+      problems.push(`${url}: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      continue;
+    }
+
+    if (!response.ok) {
+      problems.push(`${url}: HTTP ${response.status}`);
+      continue;
+    }
+
+    const metadata = (await response.json()) as AuthorizationServerMetadata;
+    // A document for another issuer must not be trusted (RFC 8414 section 3.3)
+    if (metadata?.issuer !== issuer) {
+      throw new OAuth2Error(
+        `Metadata at ${url} is for issuer '${metadata?.issuer}', expected '${issuer}'`,
+        'discovery_failed',
+        'unknown'
+      );
+    }
+    if (typeof metadata.token_endpoint !== 'string') {
+      throw new OAuth2Error(
+        `Metadata at ${url} has no token_endpoint`,
+        'discovery_failed',
+        'unknown'
+      );
+    }
+    return metadata;
+  }
+
+  throw new OAuth2Error(
+    `Discovery failed for issuer '${issuer}': ${problems.join('; ')}`,
+    'discovery_failed',
+    'unknown'
+  );
+}
+
+/**
+ * Fill in the endpoints and auth method of a provider from its metadata
+ * Settings configured explicitly take precedence over discovered ones
+ */
+export function applyProviderMetadata(
+  config: OAuth2ProviderConfig,
+  metadata: AuthorizationServerMetadata
+): OAuth2ProviderConfig {
+  const authMethod = selectAuthMethod(
+    config,
+    metadata.token_endpoint_auth_methods_supported ?? DEFAULT_AUTH_METHODS
+  );
+  // Certificate-authenticated requests may have to go to separate endpoints (RFC 8705)
+  const aliases = authMethod === 'tls_client_auth' ? metadata.mtls_endpoint_aliases : undefined;
+
+  return {
+    ...config,
+    authMethod,
+    tokenUrl: config.tokenUrl || aliases?.token_endpoint || metadata.token_endpoint,
+    introspectionUrl:
+      config.introspectionUrl ?? aliases?.introspection_endpoint ?? metadata.introspection_endpoint,
+    revocationUrl:
+      config.revocationUrl ?? aliases?.revocation_endpoint ?? metadata.revocation_endpoint,
+    jwksUri: config.jwksUri ?? metadata.jwks_uri,
+  };
+}
+
+/**
+ * The configured auth method, which the provider must support; otherwise the first
+ * supported method the configured credentials allow
+ */
+function selectAuthMethod(config: OAuth2ProviderConfig, supported: string[]): ClientAuthMethod {
+  if (config.authMethod) {
+    if (!supported.includes(config.authMethod)) {
+      throw new OAuth2Error(
+        `Provider does not support ${config.authMethod} (supports ${supported.join(', ')})`,
+        'discovery_failed',
+        'unknown'
+      );
+    }
+    return config.authMethod;
+  }
+
+  const candidates: ClientAuthMethod[] = [];
+  if (config.privateKey) {
+    candidates.push('private_key_jwt');
+  }
+  if (config.tlsCert && config.tlsKey) {
+    candidates.push('tls_client_auth');
+  }
+  if (config.clientSecret) {
+    candidates.push('client_secret_basic', 'client_secret_post');
+  }
+
+  const method = candidates.find((candidate) => supported.includes(candidate));
+  if (!method) {
+    throw new OAuth2Error(
+      `No configured credentials match the provider's auth methods (${supported.join(', ')})`,
+      'discovery_failed',
+      'unknown'
+    );
+  }
+  return method;
+}
+
+/**
+ * OIDC appends the well-known path to the issuer; RFC 8414 inserts it before the issuer's path
+ */
+function metadataUrls(issuer: string): string[] {
+  const { origin, pathname } = new URL(issuer);
+  const path = pathname.replace(/\/$/, '');
+  return [
+    `${origin}${path}/.well-known/openid-configuration`,
+    `${origin}/.well-known/oauth-authorization-server${path}`,
+  ];
+}
@@ -1,36 +1,59 @@
+import { createHash } from 'node:crypto';
 import type { FastifyBaseLogger } from 'fastify';
 import type {
   OAuth2ProviderConfig,
   OAuth2FetchOptions,
   TokenExchangeOptions,
+  TokenRequestOptions,
   CachedToken,
+  IssuedToken,
+  IntrospectionResponse,
   IOAuth2Service,
+  TokenStore,
+  AuthorizationServerMetadata,
+  DiscoveryFailure,
 } from './types.js';
 import { OAuth2Error } from './errors.js';
 import { TokenCache } from './token-cache.js';
 import { fetchClientCredentialsToken } from './client-credentials.js';
-import { fetchTokenExchange } from './token-exchange.js';
+import { ACCESS_TOKEN_TYPE, fetchTokenExchange } from './token-exchange.js';
+import { introspectToken } from './introspection.js';
+import { applyProviderMetadata, fetchProviderMetadata } from './discovery.js';
 
 export class OAuth2Service implements IOAuth2Service {
-  private cache = new TokenCache();
+  private cache: TokenCache;
   private refreshBufferSeconds: number;
+  // Providers configured with an issuer, completed from its metadata
+  private discovered = new Map<string, OAuth2ProviderConfig>();
 
   constructor(
     private providers: Record<string, OAuth2ProviderConfig>,
     private logger: FastifyBaseLogger,
-    refreshBufferSeconds = 30
+    refreshBufferSeconds = 30,
+    store?: TokenStore
   ) {
     this.refreshBufferSeconds = refreshBufferSeconds;
+    this.cache = new TokenCache(store);
   }
 
   /**
    * Make an authenticated fetch request to a protected API
+   * Only access tokens are sent; a token exchange that issues another type fails
    */
   async fetch(provider: string, url: string, options: OAuth2FetchOptions = {}): Promise<Response> {
-    const { tokenExchange, signer, headers = {}, ...fetchOptions } = options;
+    const {
+      tokenExchange,
+      signer,
+      headers = {},
+      scope,
+      audience,
+      resource,
+      ...fetchOptions
+    } = options;
+    const tokenRequest: TokenRequestOptions = { scope, audience, resource };
 
     // Get access token
-    const accessToken = await this.getToken(provider, tokenExchange);
+    const accessToken = await this.getAccessToken(provider, tokenExchange, tokenRequest);
 
     // Build headers with Authorization
     let requestHeaders: Record<string, string> = {
@@ -59,10 +82,10 @@ export class OAuth2Service implements IOAuth2Service {
       this.logger.debug({ provider, url }, 'Received 401, refreshing token and retrying');
 
       // Clear cached token and get fresh one
-      const cacheKey = this.buildCacheKey(provider, tokenExchange);
-      this.cache.delete(cacheKey);
+      const cacheKey = this.buildCacheKey(provider, tokenExchange, tokenRequest);
+      await this.cache.remove(cacheKey);
 
-      const freshToken = await this.getToken(provider, tokenExchange);
+      const freshToken = await this.getAccessToken(provider, tokenExchange, tokenRequest);
       requestHeaders.Authorization = `Bearer ${freshToken}`;
 
       // Re-sign if needed
@@ -86,72 +109,242 @@ export class OAuth2Service implements IOAuth2Service {
 
   /**
    * Get an access token for a provider (from cache or fresh)
+   * A token request with its own scope, audience or resource gets a token of its own
    */
-  async getToken(provider: string, tokenExchange?: TokenExchangeOptions): Promise<string> {
-    const config = this.providers[provider];
-    if (!config) {
-      throw new OAuth2Error(
-        `OAuth2 provider '${provider}' not configured`,
-        'provider_not_found',
-        provider
-      );
-    }
+  async getToken(
+    provider: string,
+    tokenExchange?: TokenExchangeOptions,
+    tokenRequest: TokenRequestOptions = {}
+  ): Promise<string> {
+    return (await this.getIssuedToken(provider, tokenExchange, tokenRequest)).token;
+  }
+
+  /**
+   * Get a token for a provider with the type it was issued as
+   * A token exchange can issue other types than access tokens, e.g. an ID token
+   */
+  async getIssuedToken(
+    provider: string,
+    tokenExchange?: TokenExchangeOptions,
+    tokenRequest: TokenRequestOptions = {}
+  ): Promise<IssuedToken> {
+    const config = this.getProviderConfig(provider);
 
-    const cacheKey = this.buildCacheKey(provider, tokenExchange);
-    const cached = this.cache.get(cacheKey);
+    const cacheKey = this.buildCacheKey(provider, tokenExchange, tokenRequest);
+    const cached = await this.cache.load(cacheKey);
 
     // Return cached token if valid and not needing refresh
     if (cached && !this.cache.isExpired(cached)) {
       // Trigger background refresh if needed
       if (this.cache.needsRefresh(cached)) {
-        this.refreshTokenInBackground(provider, cacheKey, config, tokenExchange);
+        this.refreshTokenInBackground(provider, cacheKey, config, tokenExchange, tokenRequest);
       }
-      return cached.accessToken;
+      return this.toIssuedToken(cached);
     }
 
     // Fetch fresh token
-    return this.fetchAndCacheToken(provider, cacheKey, config, tokenExchange);
+    const token = await this.fetchAndCacheToken(
+      provider,
+      cacheKey,
+      config,
+      tokenExchange,
+      tokenRequest
+    );
+    return this.toIssuedToken(token);
+  }
+
+  /**
+   * Introspect a token presented to us, using the provider's client credentials
+   */
+  async introspect(provider: string, token: string): Promise<IntrospectionResponse> {
+    const config = this.getProviderConfig(provider);
+
+    try {
+      return await introspectToken(config, token);
+    } catch (error) {
+      if (error instanceof OAuth2Error) {
+        error.provider = provider;
+        throw error;
+      }
+      throw new OAuth2Error(
+        `Token introspection failed: ${error instanceof Error ? error.message : 'Unknown error'}`,
+        'introspection_failed',
+        provider
+      );
+    }
+  }
+
+  /**
+   * Fetch metadata for providers configured with an issuer (OIDC Discovery / RFC 8414)
+   * Run at startup and periodically; a provider keeps its last discovered endpoints when a
+   * refresh fails, and each issuer is fetched once per run
+   * @returns The providers whose metadata could not be fetched or applied
+   */
+  async discover(): Promise<DiscoveryFailure[]> {
+    const failures: DiscoveryFailure[] = [];
+    const fetches = new Map<string, Promise<AuthorizationServerMetadata>>();
+
+    const discoverable = Object.entries(this.providers).filter(([, config]) => config.issuer);
+    await Promise.all(
+      discoverable.map(async ([provider, config]) => {
+        const issuer = config.issuer!;
+        if (!fetches.has(issuer)) {
+          fetches.set(issuer, fetchProviderMetadata(issuer));
+        }
+
+        try {
+          const metadata = await fetches.get(issuer)!;
+          this.discovered.set(provider, applyProviderMetadata(config, metadata));
+        } catch (error) {
+          if (error instanceof OAuth2Error) {
+            error.provider = provider;
+          }
+          failures.push({
+            provider,
+            required: config.required !== false,
+            error: error instanceof Error ? error : new Error(String(error)),
+          });
+        }
+      })
+    );
+
+    if (discoverable.length > 0) {
+      this.logger.debug(
+        { providers: discoverable.map(([provider]) => provider), failed: failures.length },
+        'OAuth2 provider metadata discovered'
+      );
+    }
+    return failures;
   }
 
   /**
-   * Clear the token cache
+   * Clear the token cache (this instance only; shared tokens stay in the store until they expire)
    */
   clearCache(provider?: string): void {
     this.cache.clear(provider);
     this.logger.debug({ provider: provider || 'all' }, 'OAuth2 token cache cleared');
   }
 
-  private buildCacheKey(provider: string, tokenExchange?: TokenExchangeOptions): string {
+  private getProviderConfig(provider: string): OAuth2ProviderConfig {
+    const config = this.providers[provider];
+    if (!config) {
+      throw new OAuth2Error(
+        `OAuth2 provider '${provider}' not configured`,
+        'provider_not_found',
+        provider
+      );
+    }
+    if (!config.issuer) {
+      return config;
+    }
+
+    // Explicitly configured endpoints work until discovery succeeds
+    const discovered = this.discovered.get(provider);
+    if (!discovered && !config.tokenUrl) {
+      throw new OAuth2Error(
+        `OAuth2 provider '${provider}' metadata has not been discovered`,
+        'provider_not_discovered',
+        provider
+      );
+    }
+    return discovered ?? config;
+  }
+
+  /**
+   * Get a token to send as a bearer token, refusing other issued types
+   */
+  private async getAccessToken(
+    provider: string,
+    tokenExchange?: TokenExchangeOptions,
+    tokenRequest?: TokenRequestOptions
+  ): Promise<string> {
+    const { token, issuedTokenType } = await this.getIssuedToken(
+      provider,
+      tokenExchange,
+      tokenRequest
+    );
+    if (issuedTokenType !== ACCESS_TOKEN_TYPE) {
+      throw new OAuth2Error(
+        `Issued token is ${issuedTokenType}, which cannot be sent as an access token`,
+        'unexpected_token_type',
+        provider
+      );
+    }
+    return token;
+  }
+
+  private toIssuedToken(token: CachedToken): IssuedToken {
+    return {
+      token: token.accessToken,
+      issuedTokenType: token.issuedTokenType ?? ACCESS_TOKEN_TYPE,
+    };
+  }
+
+  private buildCacheKey(
+    provider: string,
+    tokenExchange?: TokenExchangeOptions,
+    tokenRequest: TokenRequestOptions = {}
+  ): string {
+    const requestHash = this.hashTokenRequest(tokenRequest);
     if (tokenExchange) {
-      // Use hash of subject token as key to avoid storing full token
-      const subjectHash = this.hashString(tokenExchange.subjectToken).slice(0, 16);
-      return this.cache.buildKey(provider, 'token_exchange', subjectHash);
+      // Use hash of the exchange as key to avoid storing full tokens; the actor and
+      // token types change the issued token as much as the subject does
+      const { subjectToken, subjectTokenType, actorToken, actorTokenType, requestedTokenType } =
+        tokenExchange;
+      const exchangeHash = this.hashString(
+        JSON.stringify([
+          subjectToken,
+          subjectTokenType,
+          actorToken,
+          actorTokenType,
+          requestedTokenType,
+        ])
+      ).slice(0, 32);
+      return this.cache.buildKey(provider, 'token_exchange', exchangeHash, requestHash);
     }
-    return this.cache.buildKey(provider, 'client_credentials');
+    return this.cache.buildKey(provider, 'client_credentials', undefined, requestHash);
+  }
+
+  /**
+   * Hash of the per-call token parameters, independent of the order values were given in
+   * Calls without any share the provider's default token
+   */
+  private hashTokenRequest({ scope, audience, resource }: TokenRequestOptions): string | undefined {
+    const normalize = (values?: string | string[]) => [...new Set([values ?? []].flat())].sort();
+    const parts = {
+      scope: normalize(scope?.split(' ').filter(Boolean)),
+      audience: normalize(audience),
+      resource: normalize(resource),
+    };
+    if (scope === undefined && !parts.audience.length && !parts.resource.length) {
+      return undefined;
+    }
+    return this.hashString(JSON.stringify(parts)).slice(0, 32);
   }
 
   private async fetchAndCacheToken(
     provider: string,
     cacheKey: string,
     config: OAuth2ProviderConfig,
-    tokenExchange?: TokenExchangeOptions
-  ): Promise<string> {
+    tokenExchange?: TokenExchangeOptions,
+    tokenRequest?: TokenRequestOptions
+  ): Promise<CachedToken> {
     // Check for in-flight refresh
     const existingPromise = this.cache.getRefreshPromise(cacheKey);
     if (existingPromise) {
-      const token = await existingPromise;
-      return token.accessToken;
+      return existingPromise;
     }
 
     // Create fetch promise
-    const fetchPromise = this.doFetchToken(provider, config, tokenExchange);
+    const fetchPromise = this.cache.refresh(cacheKey, () =>
+      this.doFetchToken(provider, config, tokenExchange, tokenRequest)
+    );
     this.cache.setRefreshPromise(cacheKey, fetchPromise);
 
     try {
       const token = await fetchPromise;
-      this.cache.set(cacheKey, token);
       this.logger.info({ provider, flow: tokenExchange ? 'token_exchange' : 'client_credentials' }, 'OAuth2 token fetched');
-      return token.accessToken;
+      return token;
     } finally {
       this.cache.clearRefreshPromise(cacheKey);
     }
@@ -160,13 +353,19 @@ export class OAuth2Service implements IOAuth2Service {
   private async doFetchToken(
     provider: string,
     config: OAuth2ProviderConfig,
-    tokenExchange?: TokenExchangeOptions
+    tokenExchange?: TokenExchangeOptions,
+    tokenRequest?: TokenRequestOptions
   ): Promise<CachedToken> {
     try {
       if (tokenExchange) {
-        return await fetchTokenExchange(config, tokenExchange, this.refreshBufferSeconds);
+        return await fetchTokenExchange(
+          config,
+          tokenExchange,
+          this.refreshBufferSeconds,
+          tokenRequest
+        );
       }
-      return await fetchClientCredentialsToken(config, this.refreshBufferSeconds);
+      return await fetchClientCredentialsToken(config, this.refreshBufferSeconds, tokenRequest);
     } catch (error) {
       if (error instanceof OAuth2Error) {
         error.provider = provider;
@@ -184,19 +383,21 @@ export class OAuth2Service implements IOAuth2Service {
     provider: string,
     cacheKey: string,
     config: OAuth2ProviderConfig,
-    tokenExchange?: TokenExchangeOptions
+    tokenExchange?: TokenExchangeOptions,
+    tokenRequest?: TokenRequestOptions
   ): void {
     // Don't start another refresh if one is in progress
     if (this.cache.getRefreshPromise(cacheKey)) {
       return;
     }
 
-    const refreshPromise = this.doFetchToken(provider, config, tokenExchange);
+    const refreshPromise = this.cache.refresh(cacheKey, () =>
+      this.doFetchToken(provider, config, tokenExchange, tokenRequest)
+    );
     this.cache.setRefreshPromise(cacheKey, refreshPromise);
 
     refreshPromise
-      .then((token) => {
-        this.cache.set(cacheKey, token);
+      .then(() => {
         this.logger.debug({ provider }, 'OAuth2 token refreshed in background');
       })
       .catch((error) => {
@@ -208,13 +409,8 @@ export class OAuth2Service implements IOAuth2Service {
   }
 
   private hashString(str: string): string {
-    let hash = 0;
-    for (let i = 0; i < str.length; i++) {
-      const char = str.charCodeAt(i);
-      hash = ((hash << 5) - hash) + char;
-      hash = hash & hash;
-    }
-    return Math.abs(hash).toString(16);
+    // Collision-resistant, since cached tokens may be shared across instances
+    return createHash('sha256').update(str).digest('hex');
   }
 }
 
@@ -225,5 +421,8 @@ export type {
   OAuth2Config,
   OAuth2FetchOptions,
   TokenExchangeOptions,
+  TokenRequestOptions,
+  IntrospectionResponse,
+  IssuedToken,
   IOAuth2Service,
 } from './types.js';
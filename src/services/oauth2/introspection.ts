@@ -0,0 +1,47 @@
+import type { OAuth2ProviderConfig, IntrospectionResponse } from './types.js';
+import { OAuth2Error } from './errors.js';
+import { postClientRequest } from './client-auth.js';
+
+/**
+ * Ask the provider whether an access token is active (RFC 7662)
+ * The resource server authenticates with the provider's client auth method
+ */
+export async function introspectToken(
+  config: OAuth2ProviderConfig,
+  token: string
+): Promise<IntrospectionResponse> {
+  if (!config.introspectionUrl) {
+    throw new OAuth2Error(
+      'Introspection endpoint not configured',
+      'introspection_not_configured',
+      'unknown'
+    );
+  }
+
+  const response = await postClientRequest(
+    config,
+    config.introspectionUrl,
+    { token, token_type_hint: 'access_token' },
+    { Accept: 'application/json' }
+  );
+
+  if (!response.ok) {
+    const errorText = await response.text();
+    throw new OAuth2Error(
+      `Token introspection failed: ${errorText}`,
+      response.status === 401 ? 'invalid_credentials' : 'introspection_failed',
+      'unknown', // Provider name added by caller
+      response.status
+    );
+  }
+
+  const data = (await response.json()) as IntrospectionResponse;
+  if (typeof data?.active !== 'boolean') {
+    throw new OAuth2Error(
+      'Introspection response has no active member',
+      'introspection_failed',
+      'unknown'
+    );
+  }
+  return data;
+}
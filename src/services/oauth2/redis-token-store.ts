@@ -0,0 +1,135 @@
+import { createCipheriv, createDecipheriv, hkdfSync, randomBytes } from 'node:crypto';
+import type { FastifyBaseLogger } from 'fastify';
+import type { RedisService } from '../redis.service.js';
+import type { CachedToken, TokenStore } from './types.js';
+
+/**
+ * Options for the Redis token store
+ */
+export interface RedisTokenStoreOptions {
+  /** Secret the token encryption key is derived from (OAUTH2_TOKEN_CACHE_KEY) */
+  secret: string;
+  logger: FastifyBaseLogger;
+  /** Lock TTL in milliseconds; must exceed the slowest token request */
+  lockTtlMs?: number;
+  /** How long to wait for another instance's refresh before fetching anyway, in milliseconds */
+  waitMs?: number;
+  /** Delay between lock attempts while waiting, in milliseconds */
+  pollMs?: number;
+}
+
+const TOKEN_PREFIX = 'oauth2:token';
+const LOCK_PREFIX = 'oauth2:lock';
+// v2 binds each entry to its cache key (AES-GCM additional data)
+const VERSION = 'v2';
+
+/**
+ * Token store shared by all instances through Redis
+ * Tokens are encrypted with AES-256-GCM, authenticated against their cache key so an entry
+ * copied to another key does not decrypt, and expire from Redis when the token expires.
+ * Redis failures are logged and treated as a cache miss, so outbound calls keep working
+ * (with one token fetch per instance) while Redis is down
+ */
+export function createRedisTokenStore(
+  redis: RedisService,
+  options: RedisTokenStoreOptions
+): TokenStore {
+  const { secret, logger, lockTtlMs = 30000, waitMs = 10000, pollMs = 100 } = options;
+  const key = Buffer.from(hkdfSync('sha256', secret, '', 'oauth2-token-cache', 32));
+
+  const encrypt = (cacheKey: string, token: CachedToken): string => {
+    const iv = randomBytes(12);
+    const cipher = createCipheriv('aes-256-gcm', key, iv);
+    cipher.setAAD(Buffer.from(cacheKey));
+    const ciphertext = Buffer.concat([cipher.update(JSON.stringify(token)), cipher.final()]);
+    return [VERSION, iv, cipher.getAuthTag(), ciphertext]
+      .map((part) => (typeof part === 'string' ? part : part.toString('base64url')))
+      .join('.');
+  };
+
+  const decrypt = (cacheKey: string, value: string): CachedToken => {
+    const [version, iv, tag, ciphertext] = value.split('.');
+    if (version !== VERSION || ciphertext === undefined) {
+      throw new Error('Unrecognized token cache entry');
+    }
+    const decipher = createDecipheriv('aes-256-gcm', key, Buffer.from(iv, 'base64url'));
+    decipher.setAAD(Buffer.from(cacheKey));
+    decipher.setAuthTag(Buffer.from(tag, 'base64url'));
+    const plaintext = Buffer.concat([
+      decipher.update(Buffer.from(ciphertext, 'base64url')),
+      decipher.final(),
+    ]);
+    return JSON.parse(plaintext.toString('utf8')) as CachedToken;
+  };
+
+  const warn = (cacheKey: string, error: unknown, message: string) => {
+    logger.warn({ key: cacheKey, err: error instanceof Error ? error.message : error }, message);
+  };
+
+  return {
+    async get(cacheKey) {
+      let value: string | null;
+      try {
+        value = await redis.get(`${TOKEN_PREFIX}:${cacheKey}`);
+      } catch (error) {
+        warn(cacheKey, error, 'OAuth2 token store read failed');
+        return undefined;
+      }
+      if (value === null) {
+        return undefined;
+      }
+
+      try {
+        return decrypt(cacheKey, value);
+      } catch (error) {
+        // Written with another OAUTH2_TOKEN_CACHE_KEY or under another key, or tampered with
+        warn(cacheKey, error, 'OAuth2 token store entry could not be decrypted');
+        return undefined;
+      }
+    },
+
+    async set(cacheKey, token) {
+      const ttl = Math.ceil((token.expiresAt - Date.now()) / 1000);
+      if (ttl <= 0) {
+        return;
+      }
+      try {
+        await redis.setex(`${TOKEN_PREFIX}:${cacheKey}`, ttl, encrypt(cacheKey, token));
+      } catch (error) {
+        warn(cacheKey, error, 'OAuth2 token store write failed');
+      }
+    },
+
+    async delete(cacheKey) {
+      try {
+        await redis.del(`${TOKEN_PREFIX}:${cacheKey}`);
+      } catch (error) {
+        warn(cacheKey, error, 'OAuth2 token store delete failed');
+      }
+    },
+
+    async withLock(cacheKey, fn) {
+      const deadline = Date.now() + waitMs;
+
+      for (;;) {
+        // withLock rethrows errors from fn too; only lock failures are retried
+        let entered = false;
+        try {
+          return await redis.withLock(`${LOCK_PREFIX}:${cacheKey}`, lockTtlMs, () => {
+            entered = true;
+            return fn();
+          });
+        } catch (error) {
+          if (entered) {
+            throw error;
+          }
+          if (Date.now() >= deadline) {
+            warn(cacheKey, error, 'OAuth2 token lock not acquired, fetching without it');
+            return fn();
+          }
+        }
+        await new Promise((resolve) => setTimeout(resolve, pollMs));
+      }
+    },
+  };
+}
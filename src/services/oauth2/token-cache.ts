@@ -1,20 +1,27 @@
-import type { CachedToken } from './types.js';
+import type { CachedToken, TokenStore } from './types.js';
 
 /**
  * In-memory token cache with proactive refresh support
+ * With a shared store (e.g. Redis), tokens are also read from and written to the store,
+ * and only one instance at a time fetches a new token for a key
  */
 export class TokenCache {
   private cache = new Map<string, CachedToken>();
   private refreshPromises = new Map<string, Promise<CachedToken>>();
 
+  constructor(private store?: TokenStore) {}
+
   /**
-   * Build a cache key from provider, flow type, and optional subject
+   * Build a cache key from provider, flow type, optional subject and optional
+   * token request (a digest of per-call scope, audience and resource)
    */
-  buildKey(provider: string, flow: 'client_credentials' | 'token_exchange', subject?: string): string {
-    if (subject) {
-      return `${provider}:${flow}:${subject}`;
-    }
-    return `${provider}:${flow}`;
+  buildKey(
+    provider: string,
+    flow: 'client_credentials' | 'token_exchange',
+    subject?: string,
+    tokenRequest?: string
+  ): string {
+    return [provider, flow, subject, tokenRequest].filter(Boolean).join(':');
   }
 
   /**
@@ -38,8 +45,61 @@ export class TokenCache {
     this.cache.delete(key);
   }
 
+  /**
+   * Get a token from this process, falling back to the shared store when the local
+   * token is missing or due for refresh
+   */
+  async load(key: string): Promise<CachedToken | undefined> {
+    const local = this.cache.get(key);
+    if (!this.store || (local && !this.needsRefresh(local))) {
+      return local;
+    }
+
+    const shared = await this.store.get(key);
+    if (shared && (!local || shared.expiresAt > local.expiresAt)) {
+      this.cache.set(key, shared);
+      return shared;
+    }
+    return local;
+  }
+
+  /**
+   * Delete a token here and in the shared store, e.g. after the API rejected it
+   */
+  async remove(key: string): Promise<void> {
+    this.cache.delete(key);
+    await this.store?.delete(key);
+  }
+
+  /**
+   * Fetch a new token and cache it
+   * With a shared store the fetch runs under the store's lock; an instance that waited for
+   * the lock uses the token stored by the one that held it instead of fetching again
+   */
+  async refresh(key: string, fetchToken: () => Promise<CachedToken>): Promise<CachedToken> {
+    const store = this.store;
+    if (!store) {
+      const token = await fetchToken();
+      this.cache.set(key, token);
+      return token;
+    }
+
+    const token = await store.withLock(key, async () => {
+      const shared = await store.get(key);
+      if (shared && !this.needsRefresh(shared)) {
+        return shared;
+      }
+      const fresh = await fetchToken();
+      await store.set(key, fresh);
+      return fresh;
+    });
+    this.cache.set(key, token);
+    return token;
+  }
+
   /**
    * Clear cache - optionally only for a specific provider
+   * Only this process's tokens are cleared; shared tokens expire from the store on their own
    */
   clear(provider?: string): void {
     if (!provider) {
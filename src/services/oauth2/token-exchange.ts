@@ -1,8 +1,19 @@
-import type { OAuth2ProviderConfig, CachedToken, TokenResponse, TokenExchangeOptions } from './types.js';
+import type {
+  OAuth2ProviderConfig,
+  CachedToken,
+  TokenResponse,
+  TokenExchangeOptions,
+  TokenRequestOptions,
+} from './types.js';
 import { OAuth2Error } from './errors.js';
-import { tokenResponseToCachedToken } from './client-credentials.js';
+import {
+  addTokenRequestParams,
+  checkGrantedScope,
+  tokenResponseToCachedToken,
+} from './client-credentials.js';
+import { postClientRequest } from './client-auth.js';
 
-const DEFAULT_SUBJECT_TOKEN_TYPE = 'urn:ietf:params:oauth:token-type:access_token';
+export const ACCESS_TOKEN_TYPE = 'urn:ietf:params:oauth:token-type:access_token';
 
 /**
  * Exchange a subject token for a new access token (RFC 8693)
@@ -10,27 +21,27 @@ const DEFAULT_SUBJECT_TOKEN_TYPE = 'urn:ietf:params:oauth:token-type:access_toke
 export async function fetchTokenExchange(
   config: OAuth2ProviderConfig,
   exchangeOptions: TokenExchangeOptions,
-  refreshBufferSeconds: number
+  refreshBufferSeconds: number,
+  tokenRequest: TokenRequestOptions = {}
 ): Promise<CachedToken> {
-  const body = new URLSearchParams({
+  const params: Record<string, string | string[]> = {
     grant_type: 'urn:ietf:params:oauth:grant-type:token-exchange',
-    client_id: config.clientId,
-    client_secret: config.clientSecret,
     subject_token: exchangeOptions.subjectToken,
-    subject_token_type: exchangeOptions.subjectTokenType || DEFAULT_SUBJECT_TOKEN_TYPE,
-  });
+    subject_token_type: exchangeOptions.subjectTokenType || ACCESS_TOKEN_TYPE,
+  };
 
-  if (config.scope) {
-    body.set('scope', config.scope);
+  // Delegation: the actor acts on behalf of the subject (RFC 8693 section 1.1)
+  if (exchangeOptions.actorToken) {
+    params.actor_token = exchangeOptions.actorToken;
+    params.actor_token_type = exchangeOptions.actorTokenType || ACCESS_TOKEN_TYPE;
   }
+  if (exchangeOptions.requestedTokenType) {
+    params.requested_token_type = exchangeOptions.requestedTokenType;
+  }
+
+  addTokenRequestParams(params, config, tokenRequest);
 
-  const response = await fetch(config.tokenUrl, {
-    method: 'POST',
-    headers: {
-      'Content-Type': 'application/x-www-form-urlencoded',
-    },
-    body: body.toString(),
-  });
+  const response = await postClientRequest(config, config.tokenUrl, params);
 
   if (!response.ok) {
     const errorText = await response.text();
@@ -43,5 +54,20 @@ export async function fetchTokenExchange(
   }
 
   const data = (await response.json()) as TokenResponse;
-  return tokenResponseToCachedToken(data, refreshBufferSeconds);
+
+  // issued_token_type is required, but not every provider sends it
+  const issuedTokenType = data.issued_token_type ?? ACCESS_TOKEN_TYPE;
+  const requestedTokenType = exchangeOptions.requestedTokenType;
+  if (requestedTokenType && issuedTokenType !== requestedTokenType) {
+    throw new OAuth2Error(
+      `Token exchange issued ${issuedTokenType}, requested ${requestedTokenType}`,
+      'unexpected_token_type',
+      'unknown'
+    );
+  }
+
+  return checkGrantedScope(
+    { ...tokenResponseToCachedToken(data, refreshBufferSeconds), issuedTokenType },
+    tokenRequest.scope ?? config.scope
+  );
 }
@@ -1,5 +1,15 @@
 import type { Signer } from '../../middleware/http-signature/types.js';
 
+/**
+ * How the client authenticates to the provider's endpoints
+ * (RFC 6749 section 2.3, RFC 7523 section 2.2, RFC 8705 section 2.1)
+ */
+export type ClientAuthMethod =
+  | 'client_secret_post'
+  | 'client_secret_basic'
+  | 'private_key_jwt'
+  | 'tls_client_auth';
+
 /**
  * OAuth2 provider configuration
  */
@@ -8,6 +18,57 @@ export interface OAuth2ProviderConfig {
   clientId: string;
   clientSecret: string;
   scope?: string;
+  /** RFC 7662 token introspection endpoint */
+  introspectionUrl?: string;
+  /** Defaults to client_secret_post */
+  authMethod?: ClientAuthMethod;
+  /** PKCS8 PEM key signing private_key_jwt client assertions */
+  privateKey?: string;
+  /** kid header of client assertions */
+  keyId?: string;
+  /** JWS algorithm of client assertions (default RS256) */
+  signingAlgorithm?: string;
+  /** aud claim of client assertions (default: the endpoint being called) */
+  assertionAudience?: string;
+  /** PEM client certificate and key for tls_client_auth */
+  tlsCert?: string;
+  tlsKey?: string;
+  /** Issuer whose metadata supplies the endpoints that are not set explicitly */
+  issuer?: string;
+  /** Startup fails when discovery fails for a required provider (default true) */
+  required?: boolean;
+  /** RFC 7009 token revocation endpoint */
+  revocationUrl?: string;
+  /** Provider's signing keys, for verifying the tokens it issues */
+  jwksUri?: string;
+}
+
+/**
+ * Authorization server metadata (RFC 8414 section 2, OpenID Connect Discovery)
+ */
+export interface AuthorizationServerMetadata {
+  issuer: string;
+  token_endpoint: string;
+  introspection_endpoint?: string;
+  revocation_endpoint?: string;
+  jwks_uri?: string;
+  token_endpoint_auth_methods_supported?: string[];
+  /** Endpoints to use with client certificates (RFC 8705 section 5) */
+  mtls_endpoint_aliases?: {
+    token_endpoint?: string;
+    introspection_endpoint?: string;
+    revocation_endpoint?: string;
+  };
+  [member: string]: unknown;
+}
+
+/**
+ * A provider whose metadata could not be fetched
+ */
+export interface DiscoveryFailure {
+  provider: string;
+  required: boolean;
+  error: Error;
 }
 
 /**
@@ -26,6 +87,30 @@ export interface CachedToken {
   expiresAt: number;
   refreshAt: number;
   scope?: string;
+  /** Type of token a token exchange issued (RFC 8693 section 2.2.1) */
+  issuedTokenType?: string;
+}
+
+/**
+ * A token with the type it was issued as
+ */
+export interface IssuedToken {
+  token: string;
+  /** Token type URI (RFC 8693 section 3); access tokens for client credentials */
+  issuedTokenType: string;
+}
+
+/**
+ * Token storage shared between instances, behind the per-process TokenCache
+ */
+export interface TokenStore {
+  get(key: string): Promise<CachedToken | undefined>;
+  set(key: string, token: CachedToken): Promise<void>;
+  delete(key: string): Promise<void>;
+  /**
+   * Run fn while no other instance runs it for the same key, waiting for the lock if needed
+   */
+  withLock<T>(key: string, fn: () => Promise<T>): Promise<T>;
 }
 
 /**
@@ -36,20 +121,63 @@ export interface TokenResponse {
   token_type: string;
   expires_in: number;
   scope?: string;
+  /** Token exchange responses only (RFC 8693 section 2.2.1) */
+  issued_token_type?: string;
+}
+
+/**
+ * Token introspection response (RFC 7662)
+ */
+export interface IntrospectionResponse {
+  active: boolean;
+  scope?: string;
+  client_id?: string;
+  username?: string;
+  token_type?: string;
+  exp?: number;
+  iat?: number;
+  nbf?: number;
+  sub?: string;
+  aud?: string | string[];
+  iss?: string;
+  jti?: string;
+  [claim: string]: unknown;
 }
 
 /**
- * Token exchange options
+ * Token exchange options (RFC 8693 section 2.1)
+ * Audience and resource are passed as TokenRequestOptions, as for client credentials
  */
 export interface TokenExchangeOptions {
+  /** Identity the new token is issued for */
   subjectToken: string;
+  /** Defaults to urn:ietf:params:oauth:token-type:access_token */
   subjectTokenType?: string;
+  /** Identity of the party acting for the subject, for delegation */
+  actorToken?: string;
+  /** Defaults to urn:ietf:params:oauth:token-type:access_token */
+  actorTokenType?: string;
+  /** Type of token to issue; the provider must issue exactly this type */
+  requestedTokenType?: string;
+}
+
+/**
+ * Per-call token request parameters, for calling APIs that need their own token
+ * Tokens are cached separately for each combination
+ */
+export interface TokenRequestOptions {
+  /** Replaces the provider's configured scope; the token must be granted all of it */
+  scope?: string;
+  /** Logical name of the target service(s) */
+  audience?: string | string[];
+  /** Absolute URI(s) of the target resource server(s) (RFC 8707) */
+  resource?: string | string[];
 }
 
 /**
  * Fetch options for OAuth2 requests
  */
-export interface OAuth2FetchOptions extends Omit<RequestInit, 'headers'> {
+export interface OAuth2FetchOptions extends Omit<RequestInit, 'headers'>, TokenRequestOptions {
   headers?: Record<string, string>;
   tokenExchange?: TokenExchangeOptions;
   signer?: Signer;
@@ -60,6 +188,16 @@ export interface OAuth2FetchOptions extends Omit<RequestInit, 'headers'> {
  */
 export interface IOAuth2Service {
   fetch(provider: string, url: string, options?: OAuth2FetchOptions): Promise<Response>;
-  getToken(provider: string, tokenExchange?: TokenExchangeOptions): Promise<string>;
+  getToken(
+    provider: string,
+    tokenExchange?: TokenExchangeOptions,
+    tokenRequest?: TokenRequestOptions
+  ): Promise<string>;
+  getIssuedToken(
+    provider: string,
+    tokenExchange?: TokenExchangeOptions,
+    tokenRequest?: TokenRequestOptions
+  ): Promise<IssuedToken>;
+  introspect(provider: string, token: string): Promise<IntrospectionResponse>;
   clearCache(provider?: string): void;
 }
@@ -29,6 +29,15 @@ export class RedisService {
     await this.client.set(key, value, { EX: seconds });
   }
 
+  /**
+   * Set a value with expiration time (in seconds) only if the key does not exist
+   * @returns true if the key was set, false if it already existed
+   */
+  async setnx(key: string, seconds: number, value: string): Promise<boolean> {
+    const result = await this.client.set(key, value, { NX: true, EX: seconds });
+    return result === 'OK';
+  }
+
   /**
    * Delete a key from Redis
    */
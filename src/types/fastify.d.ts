@@ -3,6 +3,8 @@ import { MssqlService } from '../services/mssql.service.js';
 import { JWTPayload } from 'jose';
 import type { IOAuth2Service } from '../services/oauth2/types.js';
 import type { CacheService } from '../plugins/cache.plugin.js';
+import type { RevocationStore } from '../middleware/jwt-revocation.js';
+import type { ClientCertificate } from '../middleware/mtls-auth.js';
 
 /**
  * Request context data interface
@@ -23,11 +25,15 @@ declare module 'fastify' {
     mssql: MssqlService;
     oauth2: IOAuth2Service;
     cache: CacheService;
+    revocation: RevocationStore;
   }
 
   interface FastifyRequest {
     server: FastifyInstance;
     user: JWTPayload;
+    rawBody?: Buffer; // Set by rawBodyPlugin when the request carries a Content-Digest
+    authStrategies?: string[]; // Set by auth.anyOf/allOf to the strategies that succeeded
+    clientCertificate?: ClientCertificate; // Set by mtlsAuth to the verified peer certificate
   }
 }
 
@@ -2,6 +2,7 @@ import { FastifyInstance } from 'fastify';
 import { getRoutes, getPrefix } from '../decorators/route.decorator.js';
 import { RouteSchema } from '../decorators/schema.decorator.js';
 import { createValidationPrehandler } from './validation.js';
+import { authorize, checkPolicyReferences, type PolicyRequirement } from '../middleware/policy.js';
 
 export function registerControllers(app: FastifyInstance, controllers: any[]) {
   for (const Controller of controllers) {
@@ -18,9 +19,21 @@ export function registerControllers(app: FastifyInstance, controllers: any[]) {
       // Check for schema metadata
       const schema: RouteSchema | undefined = Reflect.getMetadata('schema', instance, methodName);
 
+      // Check for authorization metadata
+      const requirement: PolicyRequirement | undefined = Reflect.getMetadata(
+        'authorize',
+        instance,
+        methodName
+      );
+
       // Normalize middleware to array and add validation prehandler if schema exists
       let preHandler = middleware ? (Array.isArray(middleware) ? middleware : [middleware]) : [];
 
+      // Authorize after authentication middleware, before validating the request
+      if (requirement) {
+        preHandler = [...preHandler, authorize(requirement)];
+      }
+
       // Add validation prehandler if schema exists
       if (schema) {
         preHandler = [...preHandler, createValidationPrehandler(schema)];
@@ -48,4 +61,7 @@ export function registerControllers(app: FastifyInstance, controllers: any[]) {
       }
     }
   }
+
+  // Every route requirement is compiled by now, so unregistered policies fail startup
+  checkPolicyReferences();
 }
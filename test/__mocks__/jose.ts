@@ -23,6 +23,37 @@ export const createRemoteJWKSet = jest.fn(() => {
   return jest.fn();
 });
 
+export const createLocalJWKSet = jest.fn(() => {
+  // Return a mock local JWKS getter
+  return jest.fn();
+});
+
+// Decode the payload without verification (real behaviour, tokens are built by tests)
+export const decodeJwt = jest.fn((token: string): JWTPayload => {
+  const [, payload] = token.split('.');
+  if (!payload) {
+    throw Object.assign(new Error('Invalid JWT'), { code: 'ERR_JWT_INVALID' });
+  }
+  return JSON.parse(Buffer.from(payload, 'base64url').toString('utf8'));
+});
+
+// Key resolver for tokens carrying their own key in the jwk header (e.g. DPoP proofs)
+export const EmbeddedJWK = jest.fn();
+
+// RFC 7638 thumbprint over the required members (real behaviour)
+export const calculateJwkThumbprint = jest.fn(
+  async (jwk: Record<string, string>, digest: string = 'sha256'): Promise<string> => {
+    const members: Record<string, string[]> = {
+      EC: ['crv', 'kty', 'x', 'y'],
+      OKP: ['crv', 'kty', 'x'],
+      RSA: ['e', 'kty', 'n'],
+      oct: ['k', 'kty'],
+    };
+    const required = Object.fromEntries(members[jwk.kty].map((name) => [name, jwk[name]]));
+    return crypto.createHash(digest).update(JSON.stringify(required)).digest('base64url');
+  }
+);
+
 export const jwtVerify = jest.fn(async (token: string, getKey: any) => {
   // Mock implementation - just return a decoded payload
   return {
@@ -40,6 +71,34 @@ export const jwtVerify = jest.fn(async (token: string, getKey: any) => {
   };
 });
 
+// Compact JWS signing with node:crypto (real behaviour for RS*, PS*, ES* and EdDSA)
+export class SignJWT {
+  private header: Record<string, unknown> = {};
+
+  constructor(private payload: JWTPayload) {}
+
+  setProtectedHeader(header: Record<string, unknown>): this {
+    this.header = header;
+    return this;
+  }
+
+  async sign(key: crypto.KeyObject): Promise<string> {
+    const alg = String(this.header.alg);
+    const encode = (value: object) => Buffer.from(JSON.stringify(value)).toString('base64url');
+    const input = `${encode(this.header)}.${encode(this.payload)}`;
+    const digest = alg === 'EdDSA' ? null : `sha${alg.slice(2)}`;
+    const signature = crypto.sign(digest, Buffer.from(input), {
+      key,
+      ...(alg.startsWith('PS') && {
+        padding: crypto.constants.RSA_PKCS1_PSS_PADDING,
+        saltLength: crypto.constants.RSA_PSS_SALTLEN_DIGEST,
+      }),
+      ...(alg.startsWith('ES') && { dsaEncoding: 'ieee-p1363' as const }),
+    });
+    return `${input}.${signature.toString('base64url')}`;
+  }
+}
+
 // Generate key pairs for testing using promisified API
 export async function generateKeyPair(alg: string): Promise<{ publicKey: crypto.KeyObject; privateKey: crypto.KeyObject }> {
   const { promisify } = await import('node:util');
@@ -50,6 +109,10 @@ export async function generateKeyPair(alg: string): Promise<{ publicKey: crypto.
       modulusLength: 2048,
     });
     return { publicKey, privateKey };
+  } else if (alg === 'Ed25519' || alg === 'EdDSA') {
+    const generateKeyPairAsync = promisify(crypto.generateKeyPair);
+    const { publicKey, privateKey } = await generateKeyPairAsync('ed25519');
+    return { publicKey, privateKey };
   } else if (alg.startsWith('ES')) {
     const generateKeyPairAsync = promisify(crypto.generateKeyPair);
     const namedCurve = alg === 'ES256' ? 'prime256v1' : alg === 'ES384' ? 'secp384r1' : 'secp521r1';
@@ -76,3 +139,15 @@ export async function exportPKCS8(key: crypto.KeyObject): Promise<string> {
 export async function importPKCS8(pem: string, _alg: string): Promise<crypto.KeyObject> {
   return crypto.createPrivateKey(pem);
 }
+
+// Import a public key from SPKI PEM format
+export async function importSPKI(pem: string, _alg: string): Promise<crypto.KeyObject> {
+  return crypto.createPublicKey(pem);
+}
+
+// Import a public or private key from JWK format
+export async function importJWK(jwk: crypto.JsonWebKey, _alg: string): Promise<crypto.KeyObject> {
+  return jwk.d
+    ? crypto.createPrivateKey({ key: jwk, format: 'jwk' })
+    : crypto.createPublicKey({ key: jwk, format: 'jwk' });
+}
@@ -0,0 +1,119 @@
+import { buildApp } from '../../src/app.js';
+import { FastifyInstance } from 'fastify';
+import { jwtVerify } from 'jose';
+
+const mockJwtVerify = jwtVerify as jest.MockedFunction<typeof jwtVerify>;
+
+function verifiedToken(payload: Record<string, unknown>) {
+  return { payload, protectedHeader: { alg: 'RS256' } } as any;
+}
+
+const admin = verifiedToken({ sub: 'admin-1', scope: 'tokens:revoke' });
+const iss = 'https://idp.example.com/';
+
+describe('RevocationController', () => {
+  let app: FastifyInstance;
+  const now = Math.floor(Date.now() / 1000);
+
+  beforeEach(async () => {
+    app = await buildApp();
+    jest.clearAllMocks();
+  });
+
+  afterEach(async () => {
+    await app.close();
+  });
+
+  function revoke(path: string, payload: Record<string, unknown>) {
+    return app.inject({
+      method: 'POST',
+      url: `/api/admin/revocations${path}`,
+      headers: { authorization: 'Bearer admin-token' },
+      payload,
+    });
+  }
+
+  it('should require the tokens:revoke scope', async () => {
+    mockJwtVerify.mockResolvedValueOnce(verifiedToken({ sub: 'user-1', scope: 'read' }));
+
+    const response = await revoke('/tokens', { iss, jti: 'jti-1' });
+
+    expect(response.statusCode).toBe(403);
+  });
+
+  it('should validate the request body', async () => {
+    mockJwtVerify.mockResolvedValueOnce(admin);
+
+    const response = await revoke('/tokens', { iss, exp: now + 60 });
+
+    expect(response.statusCode).toBe(400);
+  });
+
+  it('should require the issuer', async () => {
+    mockJwtVerify.mockResolvedValueOnce(admin);
+
+    const response = await revoke('/tokens', { jti: 'jti-1' });
+
+    expect(response.statusCode).toBe(400);
+  });
+
+  it('should revoke a token until its exp', async () => {
+    mockJwtVerify.mockResolvedValueOnce(admin);
+
+    const response = await revoke('/tokens', { iss, jti: 'jti-1', exp: now + 600 });
+
+    expect(response.statusCode).toBe(201);
+    expect(response.json()).toMatchObject({ revoked: 'token', iss, jti: 'jti-1' });
+    expect(response.json().expiresIn).toBeGreaterThan(590);
+
+    // The revoked token is now rejected
+    mockJwtVerify.mockResolvedValueOnce(verifiedToken({ iss, sub: 'user-1', jti: 'jti-1' }));
+    const rejected = await app.inject({
+      method: 'GET',
+      url: '/api/protected/profile',
+      headers: { authorization: 'Bearer revoked-token' },
+    });
+
+    expect(rejected.statusCode).toBe(401);
+    expect(rejected.json().reason).toBe('token_revoked');
+
+    // The same jti from another issuer is still accepted
+    mockJwtVerify.mockResolvedValueOnce(
+      verifiedToken({ iss: 'https://idp.partner.example.net', sub: 'user-1', jti: 'jti-1' })
+    );
+    const accepted = await app.inject({
+      method: 'GET',
+      url: '/api/protected/profile',
+      headers: { authorization: 'Bearer other-token' },
+    });
+
+    expect(accepted.statusCode).toBe(200);
+  });
+
+  it('should revoke earlier tokens for a subject', async () => {
+    mockJwtVerify.mockResolvedValueOnce(admin);
+
+    const response = await revoke('/subjects', { iss, sub: 'user-2' });
+
+    expect(response.statusCode).toBe(201);
+    expect(response.json()).toMatchObject({ revoked: 'subject', iss, sub: 'user-2' });
+
+    mockJwtVerify.mockResolvedValueOnce(verifiedToken({ iss, sub: 'user-2', iat: now - 60 }));
+    const rejected = await app.inject({
+      method: 'GET',
+      url: '/api/protected/profile',
+      headers: { authorization: 'Bearer old-token' },
+    });
+
+    expect(rejected.statusCode).toBe(401);
+  });
+
+  it('should revoke a session', async () => {
+    mockJwtVerify.mockResolvedValueOnce(admin);
+
+    const response = await revoke('/sessions', { iss, sid: 'sid-1' });
+
+    expect(response.statusCode).toBe(201);
+    expect(response.json()).toMatchObject({ revoked: 'session', iss, sid: 'sid-1' });
+  });
+});
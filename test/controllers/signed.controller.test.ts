@@ -0,0 +1,74 @@
+import { buildApp } from '../../src/app.js';
+import { FastifyInstance } from 'fastify';
+
+describe('SignedController', () => {
+  let app: FastifyInstance;
+  let fetchSpy: jest.SpyInstance;
+
+  beforeEach(async () => {
+    app = await buildApp();
+    jest.spyOn(app.oauth2, 'getToken').mockResolvedValue('service-token');
+    fetchSpy = jest.spyOn(app.oauth2, 'fetch').mockResolvedValue(new Response('downstream'));
+  });
+
+  afterEach(async () => {
+    await app.close();
+    jest.restoreAllMocks();
+  });
+
+  describe('POST /api/signed/oauth2-exchange', () => {
+    function exchange(payload: Record<string, unknown>) {
+      return app.inject({
+        method: 'POST',
+        url: '/api/signed/oauth2-exchange',
+        headers: { authorization: 'Bearer user-token' },
+        payload: { targetUrl: 'https://api.partner.com/data', ...payload },
+      });
+    }
+
+    it('should exchange the caller token as subject', async () => {
+      const response = await exchange({});
+
+      expect(response.statusCode).toBe(200);
+      expect(response.json().response).toEqual({ status: 200, body: 'downstream' });
+      expect(fetchSpy).toHaveBeenCalledWith('partner', 'https://api.partner.com/data', {
+        tokenExchange: { subjectToken: 'user-token' },
+      });
+    });
+
+    it('should make the service the actor for the caller', async () => {
+      await exchange({ actor: 'service' });
+
+      expect(fetchSpy.mock.calls[0][2].tokenExchange).toEqual({
+        subjectToken: 'user-token',
+        actorToken: 'service-token',
+      });
+    });
+
+    it('should make the caller the actor for the service', async () => {
+      await exchange({ actor: 'caller' });
+
+      expect(fetchSpy.mock.calls[0][2].tokenExchange).toEqual({
+        subjectToken: 'service-token',
+        actorToken: 'user-token',
+      });
+    });
+
+    it('should reject an unknown actor', async () => {
+      const response = await exchange({ actor: 'someone' });
+
+      expect(response.statusCode).toBe(400);
+      expect(fetchSpy).not.toHaveBeenCalled();
+    });
+
+    it('should require a bearer token', async () => {
+      const response = await app.inject({
+        method: 'POST',
+        url: '/api/signed/oauth2-exchange',
+        payload: { targetUrl: 'https://api.partner.com/data' },
+      });
+
+      expect(response.statusCode).toBe(401);
+    });
+  });
+});
@@ -0,0 +1,199 @@
+import type { FastifyReply } from 'fastify';
+import {
+  apiKeyAuth,
+  generateApiKey,
+  hashApiKey,
+  type ApiKeyRecord,
+} from '../../src/middleware/api-key-auth.js';
+import { CacheService } from '../../src/plugins/cache.plugin.js';
+
+const issued = generateApiKey('live');
+
+function keyRecord(overrides: Partial<ApiKeyRecord> = {}): ApiKeyRecord {
+  return {
+    id: issued.id,
+    prefix: issued.prefix,
+    key_hash: issued.hash,
+    salt: issued.salt,
+    owner: 'partner-42',
+    scopes: 'orders:read orders:write',
+    expires_at: null,
+    ...overrides,
+  };
+}
+
+function createMockRequest(headers: Record<string, string> = {}, query: object = {}) {
+  return {
+    headers,
+    query,
+    user: undefined as any,
+    server: {
+      mssql: { query: jest.fn() },
+      cache: new CacheService(),
+    },
+    log: { warn: jest.fn(), error: jest.fn() },
+  };
+}
+
+function createMockReply() {
+  const reply = { code: jest.fn(), send: jest.fn() };
+  reply.code.mockReturnValue(reply);
+  reply.send.mockReturnValue(reply);
+  return reply;
+}
+
+async function callMiddleware(
+  middleware: ReturnType<typeof apiKeyAuth>,
+  request: ReturnType<typeof createMockRequest>,
+  reply: ReturnType<typeof createMockReply>
+) {
+  return middleware.call({} as any, request as any, reply as unknown as FastifyReply, jest.fn());
+}
+
+describe('apiKeyAuth', () => {
+  describe('generateApiKey', () => {
+    it('should issue <prefix>_<id>_<secret> with a salted hash of the secret', () => {
+      const [prefix, id, secret] = [
+        issued.key.slice(0, 4),
+        issued.key.slice(5, 21),
+        issued.key.slice(22),
+      ];
+
+      expect(prefix).toBe('live');
+      expect(id).toBe(issued.id);
+      expect(hashApiKey(secret, issued.salt)).toBe(issued.hash);
+      expect(hashApiKey(secret, 'other-salt')).not.toBe(issued.hash);
+    });
+
+    it('should reject non-alphanumeric prefixes', () => {
+      expect(() => generateApiKey('live_test')).toThrow('must be alphanumeric');
+    });
+  });
+
+  it('should attach the key owner and scopes to request.user', async () => {
+    const request = createMockRequest({ 'x-api-key': issued.key });
+    request.server.mssql.query.mockResolvedValue({ recordset: [keyRecord()] });
+    const reply = createMockReply();
+
+    await callMiddleware(apiKeyAuth('orders:read'), request, reply);
+
+    expect(reply.code).not.toHaveBeenCalled();
+    expect(request.user).toEqual({
+      sub: 'partner-42',
+      scope: 'orders:read orders:write',
+      key_id: issued.id,
+    });
+    expect(request.server.mssql.query).toHaveBeenCalledWith(expect.stringContaining('SELECT'), {
+      id: issued.id,
+    });
+    expect(request.server.mssql.query).toHaveBeenCalledWith(
+      expect.stringContaining('last_used_at'),
+      { id: issued.id }
+    );
+  });
+
+  it('should cache verified keys and skip the database', async () => {
+    const request = createMockRequest({ 'x-api-key': issued.key });
+    request.server.mssql.query.mockResolvedValue({ recordset: [keyRecord()] });
+    const middleware = apiKeyAuth();
+
+    await callMiddleware(middleware, request, createMockReply());
+    await callMiddleware(middleware, request, createMockReply());
+
+    // One lookup and one last-used update
+    expect(request.server.mssql.query).toHaveBeenCalledTimes(2);
+  });
+
+  it('should return 401 when no key is sent', async () => {
+    const request = createMockRequest();
+    const reply = createMockReply();
+
+    await callMiddleware(apiKeyAuth(), request, reply);
+
+    expect(reply.code).toHaveBeenCalledWith(401);
+    expect(reply.send).toHaveBeenCalledWith({ error: 'Unauthorized', message: 'Missing API key' });
+  });
+
+  it('should read the key from the query only when enabled', async () => {
+    const request = createMockRequest({}, { api_key: issued.key });
+    request.server.mssql.query.mockResolvedValue({ recordset: [keyRecord()] });
+
+    const headerOnly = createMockReply();
+    await callMiddleware(apiKeyAuth(), request, headerOnly);
+    expect(headerOnly.code).toHaveBeenCalledWith(401);
+
+    const withQuery = createMockReply();
+    await callMiddleware(apiKeyAuth(undefined, { queryParam: 'api_key' }), request, withQuery);
+    expect(withQuery.code).not.toHaveBeenCalled();
+  });
+
+  it.each([
+    ['a malformed key', 'not-an-api-key', keyRecord()],
+    ['an unknown key', issued.key, undefined],
+    ['a wrong secret', issued.key, keyRecord({ key_hash: hashApiKey('other', issued.salt) })],
+    ['a prefix that differs from the stored one', issued.key, keyRecord({ prefix: 'test' })],
+  ])('should reject %s', async (_name, key, record) => {
+    const request = createMockRequest({ 'x-api-key': key });
+    request.server.mssql.query.mockResolvedValue({ recordset: record ? [record] : [] });
+    const reply = createMockReply();
+
+    await callMiddleware(apiKeyAuth(), request, reply);
+
+    expect(reply.code).toHaveBeenCalledWith(401);
+    expect(reply.send).toHaveBeenCalledWith({
+      error: 'Unauthorized',
+      message: 'Invalid API key',
+      reason: 'invalid_api_key',
+    });
+    expect(request.user).toBeUndefined();
+  });
+
+  it('should reject prefixes that are not accepted before any lookup', async () => {
+    const request = createMockRequest({ 'x-api-key': issued.key });
+    const reply = createMockReply();
+
+    await callMiddleware(apiKeyAuth(undefined, { prefixes: ['test'] }), request, reply);
+
+    expect(reply.code).toHaveBeenCalledWith(401);
+    expect(request.server.mssql.query).not.toHaveBeenCalled();
+  });
+
+  it('should reject expired keys', async () => {
+    const request = createMockRequest({ 'x-api-key': issued.key });
+    request.server.mssql.query.mockResolvedValue({
+      recordset: [keyRecord({ expires_at: new Date(Date.now() - 1000) })],
+    });
+    const reply = createMockReply();
+
+    await callMiddleware(apiKeyAuth(), request, reply);
+
+    expect(reply.code).toHaveBeenCalledWith(401);
+    expect(reply.send).toHaveBeenCalledWith(expect.objectContaining({ reason: 'key_expired' }));
+  });
+
+  it('should return 403 when the key lacks a required scope', async () => {
+    const request = createMockRequest({ 'x-api-key': issued.key });
+    request.server.mssql.query.mockResolvedValue({ recordset: [keyRecord({ scopes: null })] });
+    const reply = createMockReply();
+
+    await callMiddleware(apiKeyAuth('orders:read'), request, reply);
+
+    expect(reply.code).toHaveBeenCalledWith(403);
+    expect(reply.send).toHaveBeenCalledWith({
+      error: 'Forbidden',
+      message: 'Insufficient permissions: requires orders:read',
+      missing: ['orders:read'],
+    });
+  });
+
+  it('should return 503 when the database is unavailable', async () => {
+    const request = createMockRequest({ 'x-api-key': issued.key });
+    request.server.mssql.query.mockRejectedValue(new Error('connection lost'));
+    const reply = createMockReply();
+
+    await callMiddleware(apiKeyAuth(), request, reply);
+
+    expect(reply.code).toHaveBeenCalledWith(503);
+    expect(request.log.error).toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,210 @@
+import Fastify, { type FastifyInstance, type preHandlerHookHandler } from 'fastify';
+import { jwtVerify } from 'jose';
+import { allOf, anyOf, auth, getStrategyName, namedStrategy } from '../../src/middleware/auth.js';
+import { jwtAuth } from '../../src/middleware/jwt-auth.js';
+import { httpSig } from '../../src/middleware/http-signature/index.js';
+
+const mockJwtVerify = jwtVerify as jest.MockedFunction<typeof jwtVerify>;
+
+function pass(name: string, sub = name): preHandlerHookHandler {
+  return namedStrategy(name, async (request) => {
+    request.user = { sub };
+  });
+}
+
+function fail(name: string, statusCode: number, challenge: string, body: object = {}) {
+  return namedStrategy(name, async (request, reply) => {
+    request.user = { sub: 'partial' };
+    return reply.header('WWW-Authenticate', challenge).code(statusCode).send(body);
+  });
+}
+
+async function buildTestApp(preHandler: preHandlerHookHandler): Promise<FastifyInstance> {
+  const app = Fastify();
+  app.get('/', { preHandler }, async (request) => ({
+    user: request.user ?? null,
+    strategies: request.authStrategies,
+  }));
+  await app.ready();
+  return app;
+}
+
+describe('auth combinators', () => {
+  let app: FastifyInstance | undefined;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  afterEach(async () => {
+    await app?.close();
+    app = undefined;
+  });
+
+  it('should name strategies and combinators', () => {
+    expect(getStrategyName(jwtAuth())).toBe('jwt');
+    expect(getStrategyName(httpSig())).toBe('httpSig');
+    expect(
+      getStrategyName(
+        auth.anyOf(
+          jwtAuth(),
+          allOf(httpSig(), async () => {})
+        )
+      )
+    ).toBe('anyOf(jwt, allOf(httpSig, strategy2))');
+  });
+
+  describe('anyOf', () => {
+    it('should stop at the first strategy that succeeds and record it', async () => {
+      const third = jest.fn();
+      app = await buildTestApp(
+        anyOf(fail('first', 401, 'Bearer realm="api"'), pass('second'), third)
+      );
+
+      const response = await app.inject({ method: 'GET', url: '/' });
+
+      expect(response.statusCode).toBe(200);
+      expect(response.json()).toEqual({ user: { sub: 'second' }, strategies: ['second'] });
+      expect(third).not.toHaveBeenCalled();
+    });
+
+    it('should send one 401 with every challenge when all strategies fail', async () => {
+      app = await buildTestApp(
+        anyOf(
+          fail('jwt', 401, 'Bearer realm="api"', { message: 'Invalid or missing token' }),
+          fail('httpSig', 401, 'Signature realm="api", headers="@method"')
+        )
+      );
+
+      const response = await app.inject({ method: 'GET', url: '/' });
+
+      expect(response.statusCode).toBe(401);
+      expect(response.headers['www-authenticate']).toEqual([
+        'Bearer realm="api"',
+        'Signature realm="api", headers="@method"',
+      ]);
+      expect(response.json()).toEqual({ message: 'Invalid or missing token' });
+    });
+
+    it('should report a rejected credential over a missing one', async () => {
+      app = await buildTestApp(
+        anyOf(
+          fail('jwt', 401, 'Bearer realm="api"', { message: 'missing' }),
+          fail('httpSig', 401, 'Signature realm="api", error="invalid_signature"', {
+            message: 'rejected',
+          })
+        )
+      );
+
+      const response = await app.inject({ method: 'GET', url: '/' });
+
+      expect(response.statusCode).toBe(401);
+      expect(response.json()).toEqual({ message: 'rejected' });
+    });
+
+    it('should report a 403 over 401s', async () => {
+      app = await buildTestApp(
+        anyOf(
+          fail('apiKey', 401, 'ApiKey realm="api"'),
+          fail('jwt', 403, 'Bearer realm="api", error="insufficient_scope"', {
+            error: 'Forbidden',
+          })
+        )
+      );
+
+      const response = await app.inject({ method: 'GET', url: '/' });
+
+      expect(response.statusCode).toBe(403);
+      expect(response.json()).toEqual({ error: 'Forbidden' });
+    });
+
+    it('should not leave request.user from a failed strategy', async () => {
+      app = await buildTestApp(
+        anyOf(
+          fail('jwt', 403, 'Bearer realm="api"'),
+          namedStrategy('anonymous', async () => {})
+        )
+      );
+
+      const response = await app.inject({ method: 'GET', url: '/' });
+
+      expect(response.json()).toEqual({ user: null, strategies: ['anonymous'] });
+    });
+
+    it('should work with jwtAuth and httpSig', async () => {
+      app = await buildTestApp(auth.anyOf(jwtAuth('admin'), httpSig()));
+
+      const rejected = await app.inject({ method: 'GET', url: '/' });
+      expect(rejected.statusCode).toBe(401);
+      expect(rejected.headers['www-authenticate']).toEqual([
+        'Bearer realm="api"',
+        expect.stringMatching(/^Signature realm="api"/),
+      ]);
+      expect(rejected.headers['accept-signature']).toBeDefined();
+
+      mockJwtVerify.mockResolvedValueOnce({
+        payload: { sub: 'admin-1', scope: 'admin' },
+        protectedHeader: { alg: 'RS256' },
+      } as any);
+      const accepted = await app.inject({
+        method: 'GET',
+        url: '/',
+        headers: { authorization: 'Bearer valid-token' },
+      });
+      expect(accepted.statusCode).toBe(200);
+      expect(accepted.json().strategies).toEqual(['jwt']);
+    });
+  });
+
+  describe('allOf', () => {
+    it('should require every strategy and record them all', async () => {
+      app = await buildTestApp(
+        allOf(
+          pass('jwt', 'user-1'),
+          namedStrategy('httpSig', async () => {})
+        )
+      );
+
+      const response = await app.inject({ method: 'GET', url: '/' });
+
+      expect(response.statusCode).toBe(200);
+      expect(response.json()).toEqual({ user: { sub: 'user-1' }, strategies: ['jwt', 'httpSig'] });
+    });
+
+    it('should send the first failure unchanged', async () => {
+      const last = jest.fn();
+      app = await buildTestApp(
+        allOf(pass('jwt'), fail('httpSig', 401, 'Signature realm="api"', { error: 'x' }), last)
+      );
+
+      const response = await app.inject({ method: 'GET', url: '/' });
+
+      expect(response.statusCode).toBe(401);
+      expect(response.headers['www-authenticate']).toBe('Signature realm="api"');
+      expect(response.json()).toEqual({ error: 'x' });
+      expect(last).not.toHaveBeenCalled();
+    });
+
+    it('should record the strategies that succeeded inside a nested anyOf', async () => {
+      app = await buildTestApp(
+        allOf(pass('mtls'), anyOf(fail('jwt', 401, 'Bearer realm="api"'), pass('apiKey')))
+      );
+
+      const response = await app.inject({ method: 'GET', url: '/' });
+
+      expect(response.json().strategies).toEqual(['mtls', 'apiKey']);
+    });
+  });
+
+  it('should propagate errors thrown by a strategy', async () => {
+    app = await buildTestApp(
+      anyOf(async () => {
+        throw new Error('boom');
+      }, pass('never'))
+    );
+
+    const response = await app.inject({ method: 'GET', url: '/' });
+
+    expect(response.statusCode).toBe(500);
+  });
+});
@@ -0,0 +1,86 @@
+import type { FastifyReply } from 'fastify';
+import {
+  buildBearerChallenge,
+  sendBearerChallenge,
+} from '../../src/middleware/bearer-challenge.js';
+
+function createMockReply() {
+  const reply = {
+    code: jest.fn(),
+    send: jest.fn(),
+    header: jest.fn(),
+  };
+  reply.code.mockReturnValue(reply);
+  reply.send.mockReturnValue(reply);
+  reply.header.mockReturnValue(reply);
+  return reply;
+}
+
+describe('bearer challenge', () => {
+  describe('buildBearerChallenge', () => {
+    it('should build a bare challenge with only the realm', () => {
+      expect(buildBearerChallenge({})).toBe('Bearer realm="api"');
+    });
+
+    it('should use the given realm', () => {
+      expect(buildBearerChallenge({}, 'orders')).toBe('Bearer realm="orders"');
+    });
+
+    it('should include error, description and space-separated scope', () => {
+      expect(
+        buildBearerChallenge({
+          error: 'insufficient_scope',
+          description: 'Insufficient permissions',
+          scope: ['users:write', 'admin'],
+        })
+      ).toBe(
+        'Bearer realm="api", error="insufficient_scope", ' +
+          'error_description="Insufficient permissions", scope="users:write admin"'
+      );
+    });
+
+    it('should omit an empty scope', () => {
+      expect(buildBearerChallenge({ error: 'insufficient_scope', scope: [] })).toBe(
+        'Bearer realm="api", error="insufficient_scope"'
+      );
+    });
+
+    it('should drop characters not allowed in challenge parameters', () => {
+      expect(buildBearerChallenge({ error: 'invalid_token', description: 'Bad "iss" \\ é' })).toBe(
+        'Bearer realm="api", error="invalid_token", error_description="Bad iss  "'
+      );
+    });
+
+    it('should build a DPoP challenge with accepted algorithms', () => {
+      expect(
+        buildBearerChallenge({
+          scheme: 'DPoP',
+          error: 'invalid_dpop_proof',
+          algs: ['ES256', 'EdDSA'],
+        })
+      ).toBe('DPoP realm="api", error="invalid_dpop_proof", algs="ES256 EdDSA"');
+    });
+  });
+
+  describe('sendBearerChallenge', () => {
+    it.each([
+      [undefined, 401],
+      ['invalid_request', 400],
+      ['invalid_token', 401],
+      ['insufficient_scope', 403],
+      ['invalid_dpop_proof', 401],
+    ] as const)('should send %s with status %d', (error, statusCode) => {
+      const reply = createMockReply();
+      const body = { error: 'x', message: 'y' };
+
+      sendBearerChallenge(reply as unknown as FastifyReply, { error }, body);
+
+      expect(reply.header).toHaveBeenCalledWith(
+        'WWW-Authenticate',
+        expect.stringMatching(/^Bearer /)
+      );
+      expect(reply.code).toHaveBeenCalledWith(statusCode);
+      expect(reply.send).toHaveBeenCalledWith(body);
+    });
+  });
+});
@@ -0,0 +1,204 @@
+import { createHash, generateKeyPairSync } from 'node:crypto';
+import { calculateJwkThumbprint, EmbeddedJWK, jwtVerify } from 'jose';
+import {
+  DpopError,
+  getTokenThumbprint,
+  verifyDpopBinding,
+  verifyDpopProof,
+} from '../../src/middleware/dpop.js';
+import { createMemoryReplayStore } from '../../src/middleware/http-signature/replay.js';
+
+const mockJwtVerify = jwtVerify as jest.MockedFunction<typeof jwtVerify>;
+
+const ACCESS_TOKEN = 'access-token';
+const jwk = generateKeyPairSync('ec', { namedCurve: 'prime256v1' }).publicKey.export({
+  format: 'jwk',
+}) as Record<string, string>;
+
+function createMockRequest(overrides: Record<string, unknown> = {}) {
+  return {
+    method: 'GET',
+    protocol: 'https',
+    host: 'api.example.com',
+    url: '/api/orders?page=2',
+    headers: { dpop: 'proof.jwt.value' } as Record<string, string | undefined>,
+    log: { debug: jest.fn() },
+    ...overrides,
+  } as any;
+}
+
+function mockProof(claims: Record<string, unknown> = {}) {
+  mockJwtVerify.mockResolvedValueOnce({
+    payload: {
+      htm: 'GET',
+      htu: 'https://api.example.com/api/orders',
+      iat: Math.floor(Date.now() / 1000),
+      jti: 'proof-1',
+      ath: createHash('sha256').update(ACCESS_TOKEN).digest('base64url'),
+      ...claims,
+    },
+    protectedHeader: { alg: 'ES256', typ: 'dpop+jwt', jwk },
+  } as any);
+}
+
+describe('dpop', () => {
+  let replayStore: ReturnType<typeof createMemoryReplayStore>;
+  let thumbprint: string;
+
+  beforeEach(async () => {
+    jest.clearAllMocks();
+    replayStore = createMemoryReplayStore();
+    thumbprint = await calculateJwkThumbprint(jwk as any, 'sha256');
+  });
+
+  describe('verifyDpopProof', () => {
+    it('should verify the proof with its embedded key and return the thumbprint', async () => {
+      mockProof();
+
+      await expect(
+        verifyDpopProof(createMockRequest(), ACCESS_TOKEN, { replayStore })
+      ).resolves.toBe(thumbprint);
+      expect(mockJwtVerify).toHaveBeenCalledWith('proof.jwt.value', EmbeddedJWK, {
+        typ: 'dpop+jwt',
+        algorithms: ['ES256', 'RS256', 'PS256', 'EdDSA'],
+      });
+    });
+
+    it('should ignore default ports when matching htu', async () => {
+      mockProof({ htu: 'HTTPS://API.example.com:443/api/orders' });
+
+      await expect(
+        verifyDpopProof(createMockRequest(), ACCESS_TOKEN, { replayStore })
+      ).resolves.toBe(thumbprint);
+    });
+
+    it('should match htu with a non-default port', async () => {
+      mockProof({ htu: 'https://api.example.com:8443/api/orders' });
+
+      await expect(
+        verifyDpopProof(createMockRequest({ host: 'api.example.com:8443' }), ACCESS_TOKEN, {
+          replayStore,
+        })
+      ).resolves.toBe(thumbprint);
+
+      mockProof({ htu: 'https://api.example.com/api/orders', jti: 'proof-2' });
+      await expect(
+        verifyDpopProof(createMockRequest({ host: 'api.example.com:8443' }), ACCESS_TOKEN, {
+          replayStore,
+        })
+      ).rejects.toThrow('DPoP proof htu does not match');
+    });
+
+    it.each([
+      ['htm', { htm: 'POST' }, 'DPoP proof htm does not match the request method'],
+      ['htu', { htu: 'https://api.example.com/api/users' }, 'DPoP proof htu does not match'],
+      ['malformed htu', { htu: 'not a url' }, 'DPoP proof htu does not match'],
+      ['old iat', { iat: Math.floor(Date.now() / 1000) - 301 }, 'outside the acceptance window'],
+      ['future iat', { iat: Math.floor(Date.now() / 1000) + 60 }, 'outside the acceptance window'],
+      ['missing jti', { jti: undefined }, 'DPoP proof has no jti'],
+      ['ath', { ath: 'other' }, 'DPoP proof ath does not match the access token'],
+    ])('should reject a mismatched %s', async (_name, claims, message) => {
+      mockProof(claims);
+
+      await expect(
+        verifyDpopProof(createMockRequest(), ACCESS_TOKEN, { replayStore })
+      ).rejects.toThrow(message);
+    });
+
+    it('should reject a missing or repeated DPoP header', async () => {
+      for (const dpop of [undefined, 'a.b.c, d.e.f']) {
+        const request = createMockRequest({ headers: { dpop } });
+
+        await expect(verifyDpopProof(request, ACCESS_TOKEN, { replayStore })).rejects.toThrow(
+          'Exactly one DPoP proof is required'
+        );
+      }
+      expect(mockJwtVerify).not.toHaveBeenCalled();
+    });
+
+    it('should reject a proof that fails signature verification', async () => {
+      mockJwtVerify.mockRejectedValueOnce(new Error('signature verification failed'));
+
+      await expect(
+        verifyDpopProof(createMockRequest(), ACCESS_TOKEN, { replayStore })
+      ).rejects.toThrow('DPoP proof is invalid');
+    });
+
+    it('should reject a replayed proof jti', async () => {
+      mockProof();
+      await verifyDpopProof(createMockRequest(), ACCESS_TOKEN, { replayStore });
+
+      mockProof();
+      await expect(
+        verifyDpopProof(createMockRequest(), ACCESS_TOKEN, { replayStore })
+      ).rejects.toThrow('DPoP proof has already been used');
+    });
+  });
+
+  describe('verifyDpopBinding', () => {
+    it('should accept a bound token with a proof from the bound key', async () => {
+      mockProof();
+
+      await expect(
+        verifyDpopBinding(
+          createMockRequest(),
+          ACCESS_TOKEN,
+          'DPoP',
+          { cnf: { jkt: thumbprint } },
+          false,
+          { replayStore }
+        )
+      ).resolves.toBeUndefined();
+    });
+
+    it('should reject a proof signed by another key', async () => {
+      mockProof();
+
+      await expect(
+        verifyDpopBinding(
+          createMockRequest(),
+          ACCESS_TOKEN,
+          'DPoP',
+          { cnf: { jkt: 'other-thumbprint' } },
+          false,
+          { replayStore }
+        )
+      ).rejects.toThrow('DPoP proof key does not match the token binding');
+    });
+
+    it('should reject a bound token sent with the Bearer scheme', async () => {
+      const error = await verifyDpopBinding(
+        createMockRequest(),
+        ACCESS_TOKEN,
+        'Bearer',
+        { cnf: { jkt: thumbprint } },
+        false
+      ).catch((e) => e);
+
+      expect(error).toBeInstanceOf(DpopError);
+      expect(error.error).toBe('invalid_token');
+    });
+
+    it('should reject unbound tokens only when DPoP is used or required', async () => {
+      const request = createMockRequest();
+
+      await expect(verifyDpopBinding(request, ACCESS_TOKEN, 'Bearer', {}, false)).resolves.toBe(
+        undefined
+      );
+      await expect(verifyDpopBinding(request, ACCESS_TOKEN, 'Bearer', {}, true)).rejects.toThrow(
+        'Token is not DPoP-bound'
+      );
+      await expect(verifyDpopBinding(request, ACCESS_TOKEN, 'DPoP', {}, false)).rejects.toThrow(
+        'Token is not DPoP-bound'
+      );
+    });
+  });
+
+  describe('getTokenThumbprint', () => {
+    it('should read cnf.jkt', () => {
+      expect(getTokenThumbprint({ cnf: { jkt: 'abc' } })).toBe('abc');
+      expect(getTokenThumbprint({ cnf: { 'x5t#S256': 'abc' } })).toBeUndefined();
+      expect(getTokenThumbprint({})).toBeUndefined();
+    });
+  });
+});
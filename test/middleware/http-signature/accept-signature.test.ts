@@ -0,0 +1,107 @@
+import {
+  applyAcceptSignature,
+  buildAcceptSignature,
+  parseAcceptSignature,
+} from '../../../src/middleware/http-signature/accept-signature.js';
+import type { SignerOptions } from '../../../src/middleware/http-signature/types.js';
+
+describe('Accept-Signature', () => {
+  describe('buildAcceptSignature', () => {
+    it('should serialize requested components and parameters', () => {
+      const header = buildAcceptSignature([
+        {
+          label: 'sig1',
+          components: ['@method', '@query-param;name="id"', 'content-digest'],
+          keyid: 'client-key',
+          alg: 'rsa-pss-sha512',
+          created: true,
+          nonce: true,
+        },
+      ]);
+
+      expect(header).toBe(
+        'sig1=("@method" "@query-param";name="id" "content-digest");created;keyid="client-key";alg="rsa-pss-sha512";nonce'
+      );
+    });
+
+    it('should include a server-provided nonce and tag', () => {
+      const header = buildAcceptSignature([
+        { label: 'sig1', components: ['@method'], nonce: 'abc123', tag: 'app' },
+      ]);
+
+      expect(header).toBe('sig1=("@method");nonce="abc123";tag="app"');
+    });
+  });
+
+  describe('parseAcceptSignature', () => {
+    it('should round-trip built requests', () => {
+      const requests = parseAcceptSignature(
+        'sig1=("@method" "example-dict";key="a");created;expires;keyid="k";alg="ed25519";nonce, sig2=("@path")'
+      );
+
+      expect(requests).toEqual([
+        {
+          label: 'sig1',
+          components: ['@method', 'example-dict;key="a"'],
+          keyid: 'k',
+          alg: 'ed25519',
+          created: true,
+          expires: true,
+          nonce: true,
+          tag: undefined,
+        },
+        {
+          label: 'sig2',
+          components: ['@path'],
+          keyid: undefined,
+          alg: undefined,
+          created: false,
+          expires: false,
+          nonce: false,
+          tag: undefined,
+        },
+      ]);
+    });
+
+    it('should return an empty array for malformed headers', () => {
+      expect(parseAcceptSignature('not a dictionary!')).toEqual([]);
+      expect(parseAcceptSignature('sig1=1')).toEqual([]);
+    });
+  });
+
+  describe('applyAcceptSignature', () => {
+    const options: SignerOptions = {
+      keyId: 'client-key',
+      algorithm: 'ed25519',
+      components: ['@method'],
+      includeAlg: false,
+    };
+
+    it('should use the first request matching the keyid and algorithm', () => {
+      const applied = applyAcceptSignature(
+        options,
+        'a=("@path");keyid="other", b=("@method" "@authority");alg="ed25519";nonce'
+      );
+
+      expect(applied.label).toBe('b');
+      expect(applied.components).toEqual(['@method', '@authority']);
+      expect(applied.includeAlg).toBe(true);
+      expect(applied.nonce).toBe(true);
+      expect(applied.keyId).toBe('client-key');
+    });
+
+    it('should keep signer settings the server did not ask about', () => {
+      const applied = applyAcceptSignature({ ...options, tag: 'mine' }, 'sig1=("@method")');
+
+      expect(applied.includeAlg).toBe(false);
+      expect(applied.tag).toBe('mine');
+      expect(applied.expiresIn).toBeUndefined();
+    });
+
+    it('should throw when no request can be satisfied', () => {
+      expect(() => applyAcceptSignature(options, 'sig1=("@method");keyid="other"')).toThrow(
+        'Accept-Signature does not allow'
+      );
+    });
+  });
+});
@@ -0,0 +1,51 @@
+import * as crypto from 'node:crypto';
+import { generateKeyPair } from 'jose';
+import '../../../../src/middleware/http-signature/algorithms/ecdsa-p256-sha256.js';
+import {
+  getAlgorithm,
+  getJoseAlgorithm,
+} from '../../../../src/middleware/http-signature/algorithms/index.js';
+
+describe('ecdsa-p256-sha256 algorithm', () => {
+  it('should be registered', () => {
+    const algo = getAlgorithm('ecdsa-p256-sha256');
+    expect(algo).toBeDefined();
+    expect(algo?.name).toBe('ecdsa-p256-sha256');
+    expect(getJoseAlgorithm('ecdsa-p256-sha256')).toBe('ES256');
+  });
+
+  it('should produce raw r||s signatures that verify', async () => {
+    const { publicKey, privateKey } = await generateKeyPair('ES256');
+    const algo = getAlgorithm('ecdsa-p256-sha256')!;
+    const data = new TextEncoder().encode('test data to sign');
+
+    const signature = await algo.sign(privateKey, data);
+    const isValid = await algo.verify(publicKey, signature, data);
+
+    expect(signature).toHaveLength(64);
+    expect(isValid).toBe(true);
+  });
+
+  it('should reject DER-encoded signatures', async () => {
+    const { publicKey, privateKey } = await generateKeyPair('ES256');
+    const algo = getAlgorithm('ecdsa-p256-sha256')!;
+    const data = new TextEncoder().encode('test data to sign');
+
+    const derSignature = crypto.sign('sha256', data, privateKey as unknown as crypto.KeyObject);
+    const isValid = await algo.verify(publicKey, derSignature, data);
+
+    expect(isValid).toBe(false);
+  });
+
+  it('should reject tampered data', async () => {
+    const { publicKey, privateKey } = await generateKeyPair('ES256');
+    const algo = getAlgorithm('ecdsa-p256-sha256')!;
+    const data = new TextEncoder().encode('test data to sign');
+    const tamperedData = new TextEncoder().encode('tampered data');
+
+    const signature = await algo.sign(privateKey, data);
+    const isValid = await algo.verify(publicKey, signature, tamperedData);
+
+    expect(isValid).toBe(false);
+  });
+});
@@ -0,0 +1,51 @@
+import * as crypto from 'node:crypto';
+import { generateKeyPair } from 'jose';
+import '../../../../src/middleware/http-signature/algorithms/ecdsa-p384-sha384.js';
+import {
+  getAlgorithm,
+  getJoseAlgorithm,
+} from '../../../../src/middleware/http-signature/algorithms/index.js';
+
+describe('ecdsa-p384-sha384 algorithm', () => {
+  it('should be registered', () => {
+    const algo = getAlgorithm('ecdsa-p384-sha384');
+    expect(algo).toBeDefined();
+    expect(algo?.name).toBe('ecdsa-p384-sha384');
+    expect(getJoseAlgorithm('ecdsa-p384-sha384')).toBe('ES384');
+  });
+
+  it('should produce raw r||s signatures that verify', async () => {
+    const { publicKey, privateKey } = await generateKeyPair('ES384');
+    const algo = getAlgorithm('ecdsa-p384-sha384')!;
+    const data = new TextEncoder().encode('test data to sign');
+
+    const signature = await algo.sign(privateKey, data);
+    const isValid = await algo.verify(publicKey, signature, data);
+
+    expect(signature).toHaveLength(96);
+    expect(isValid).toBe(true);
+  });
+
+  it('should reject DER-encoded signatures', async () => {
+    const { publicKey, privateKey } = await generateKeyPair('ES384');
+    const algo = getAlgorithm('ecdsa-p384-sha384')!;
+    const data = new TextEncoder().encode('test data to sign');
+
+    const derSignature = crypto.sign('sha384', data, privateKey as unknown as crypto.KeyObject);
+    const isValid = await algo.verify(publicKey, derSignature, data);
+
+    expect(isValid).toBe(false);
+  });
+
+  it('should reject tampered data', async () => {
+    const { publicKey, privateKey } = await generateKeyPair('ES384');
+    const algo = getAlgorithm('ecdsa-p384-sha384')!;
+    const data = new TextEncoder().encode('test data to sign');
+    const tamperedData = new TextEncoder().encode('tampered data');
+
+    const signature = await algo.sign(privateKey, data);
+    const isValid = await algo.verify(publicKey, signature, tamperedData);
+
+    expect(isValid).toBe(false);
+  });
+});
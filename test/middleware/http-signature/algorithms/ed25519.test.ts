@@ -0,0 +1,39 @@
+import { generateKeyPair } from 'jose';
+import '../../../../src/middleware/http-signature/algorithms/ed25519.js';
+import {
+  getAlgorithm,
+  getJoseAlgorithm,
+} from '../../../../src/middleware/http-signature/algorithms/index.js';
+
+describe('ed25519 algorithm', () => {
+  it('should be registered', () => {
+    const algo = getAlgorithm('ed25519');
+    expect(algo).toBeDefined();
+    expect(algo?.name).toBe('ed25519');
+    expect(getJoseAlgorithm('ed25519')).toBe('Ed25519');
+  });
+
+  it('should sign and verify data', async () => {
+    const { publicKey, privateKey } = await generateKeyPair('Ed25519');
+    const algo = getAlgorithm('ed25519')!;
+    const data = new TextEncoder().encode('test data to sign');
+
+    const signature = await algo.sign(privateKey, data);
+    const isValid = await algo.verify(publicKey, signature, data);
+
+    expect(signature).toHaveLength(64);
+    expect(isValid).toBe(true);
+  });
+
+  it('should reject tampered data', async () => {
+    const { publicKey, privateKey } = await generateKeyPair('Ed25519');
+    const algo = getAlgorithm('ed25519')!;
+    const data = new TextEncoder().encode('test data to sign');
+    const tamperedData = new TextEncoder().encode('tampered data');
+
+    const signature = await algo.sign(privateKey, data);
+    const isValid = await algo.verify(publicKey, signature, tamperedData);
+
+    expect(isValid).toBe(false);
+  });
+});
@@ -0,0 +1,44 @@
+import * as crypto from 'node:crypto';
+import '../../../../src/middleware/http-signature/algorithms/hmac-sha256.js';
+import { getAlgorithm } from '../../../../src/middleware/http-signature/algorithms/index.js';
+
+describe('hmac-sha256 algorithm', () => {
+  const secret = new TextEncoder().encode('shared-secret');
+  const data = new TextEncoder().encode('test data to sign');
+
+  it('should be registered as symmetric', () => {
+    const algo = getAlgorithm('hmac-sha256');
+    expect(algo).toBeDefined();
+    expect(algo?.symmetric).toBe(true);
+  });
+
+  it('should produce a standard HMAC-SHA256', async () => {
+    const algo = getAlgorithm('hmac-sha256')!;
+    const expected = crypto.createHmac('sha256', secret).update(data).digest();
+
+    const signature = await algo.sign(secret, data);
+
+    expect(Buffer.from(signature).equals(expected)).toBe(true);
+  });
+
+  it('should verify a valid MAC', async () => {
+    const algo = getAlgorithm('hmac-sha256')!;
+    const signature = await algo.sign(secret, data);
+
+    expect(await algo.verify(secret, signature, data)).toBe(true);
+  });
+
+  it('should reject a MAC made with a different secret', async () => {
+    const algo = getAlgorithm('hmac-sha256')!;
+    const signature = await algo.sign(new TextEncoder().encode('other-secret'), data);
+
+    expect(await algo.verify(secret, signature, data)).toBe(false);
+  });
+
+  it('should reject truncated MACs', async () => {
+    const algo = getAlgorithm('hmac-sha256')!;
+    const signature = await algo.sign(secret, data);
+
+    expect(await algo.verify(secret, signature.slice(0, 16), data)).toBe(false);
+  });
+});
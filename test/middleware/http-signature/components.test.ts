@@ -1,19 +1,26 @@
-import { extractComponent } from '../../../src/middleware/http-signature/components.js';
+import {
+  extractComponent,
+  extractMessageComponent,
+  serializeComponentId,
+  type HttpMessage,
+} from '../../../src/middleware/http-signature/components.js';
 import type { FastifyRequest } from 'fastify';
 
 function createMockRequest(overrides: Partial<{
   method: string;
   url: string;
   headers: Record<string, string>;
-  hostname: string;
+  host: string;
   protocol: string;
+  rawHeaders: string[];
 }>): FastifyRequest {
   return {
     method: overrides.method ?? 'GET',
     url: overrides.url ?? '/api/data',
     headers: overrides.headers ?? {},
-    hostname: overrides.hostname ?? 'example.com',
+    host: overrides.host ?? 'example.com',
     protocol: overrides.protocol ?? 'https',
+    raw: overrides.rawHeaders ? { rawHeaders: overrides.rawHeaders } : undefined,
   } as FastifyRequest;
 }
 
@@ -27,17 +34,30 @@ describe('extractComponent', () => {
     it('should extract @target-uri', () => {
       const request = createMockRequest({
         protocol: 'https',
-        hostname: 'example.com',
+        host: 'example.com',
         url: '/api/data?foo=bar',
       });
       expect(extractComponent(request, '@target-uri')).toBe('https://example.com/api/data?foo=bar');
     });
 
     it('should extract @authority', () => {
-      const request = createMockRequest({ hostname: 'example.com' });
+      const request = createMockRequest({ host: 'example.com' });
       expect(extractComponent(request, '@authority')).toBe('example.com');
     });
 
+    it('should keep a non-default port in @authority and @target-uri', () => {
+      const request = createMockRequest({ host: 'api.example.com:8443', url: '/api/data' });
+      expect(extractComponent(request, '@authority')).toBe('api.example.com:8443');
+      expect(extractComponent(request, '@target-uri')).toBe(
+        'https://api.example.com:8443/api/data'
+      );
+    });
+
+    it('should drop the default port of the scheme', () => {
+      const request = createMockRequest({ host: 'api.example.com:443', url: '/api/data' });
+      expect(extractComponent(request, '@target-uri')).toBe('https://api.example.com/api/data');
+    });
+
     it('should extract @scheme', () => {
       const request = createMockRequest({ protocol: 'https' });
       expect(extractComponent(request, '@scheme')).toBe('https');
@@ -72,4 +92,104 @@ describe('extractComponent', () => {
       expect(extractComponent(request, 'content-type')).toBeUndefined();
     });
   });
+
+  describe('@request-target and @query-param', () => {
+    it('should extract @request-target', () => {
+      const request = createMockRequest({ url: '/api/data?foo=bar' });
+      expect(extractComponent(request, '@request-target')).toBe('/api/data?foo=bar');
+    });
+
+    it('should extract a named query parameter, re-encoded', () => {
+      const request = createMockRequest({
+        url: '/path?param=value&foo=bar&baz=with+plus+whitespace&fa%C3%A7ade%22%3A%20=something',
+      });
+
+      expect(extractComponent(request, '@query-param;name="baz"')).toBe('with%20plus%20whitespace');
+      expect(extractComponent(request, '@query-param;name="fa%C3%A7ade%22%3A%20"')).toBe('something');
+    });
+
+    it('should treat missing and repeated query parameters as absent', () => {
+      const request = createMockRequest({ url: '/path?a=1&a=2' });
+
+      expect(extractComponent(request, '@query-param;name="a"')).toBeUndefined();
+      expect(extractComponent(request, '@query-param;name="b"')).toBeUndefined();
+      expect(extractComponent(request, '@query-param')).toBeUndefined();
+    });
+  });
+
+  describe('field parameters', () => {
+    const rawHeaders = [
+      'Example-Dict',
+      ' a=1,    b=2;x=1;y=2,   c=(a   b   c)',
+      'Example-Header',
+      'value, with, lots',
+      'Example-Header',
+      'of, commas',
+    ];
+
+    it('should combine repeated field lines from raw headers', () => {
+      const request = createMockRequest({ rawHeaders });
+      expect(extractComponent(request, 'example-header')).toBe('value, with, lots, of, commas');
+    });
+
+    it('should re-serialize structured fields with ;sf', () => {
+      const request = createMockRequest({ rawHeaders });
+      expect(extractComponent(request, 'example-dict')).toBe('a=1,    b=2;x=1;y=2,   c=(a   b   c)');
+      expect(extractComponent(request, 'example-dict;sf')).toBe('a=1, b=2;x=1;y=2, c=(a b c)');
+    });
+
+    it('should select dictionary members with ;key', () => {
+      const request = createMockRequest({ rawHeaders });
+
+      expect(extractComponent(request, 'example-dict;key="a"')).toBe('1');
+      expect(extractComponent(request, 'example-dict;key="b"')).toBe('2;x=1;y=2');
+      expect(extractComponent(request, 'example-dict;key="c"')).toBe('(a b c)');
+      expect(extractComponent(request, 'example-dict;key="d"')).toBeUndefined();
+    });
+
+    it('should return undefined when ;sf or ;key does not parse', () => {
+      const request = createMockRequest({ headers: { 'x-plain': 'not a [dictionary]' } });
+
+      expect(extractComponent(request, 'x-plain;sf')).toBeUndefined();
+      expect(extractComponent(request, 'x-plain;key="a"')).toBeUndefined();
+    });
+
+    it('should wrap each field line with ;bs', () => {
+      const request = createMockRequest({ rawHeaders });
+      expect(extractComponent(request, 'example-header;bs')).toBe(
+        ':dmFsdWUsIHdpdGgsIGxvdHM=:, :b2YsIGNvbW1hcw==:'
+      );
+    });
+  });
+
+  describe(';req', () => {
+    const response: HttpMessage = {
+      status: 200,
+      fieldLines: (name) => (name === 'content-type' ? ['application/json'] : undefined),
+    };
+    const request: HttpMessage = {
+      method: 'POST',
+      targetUri: 'https://example.com/api/data',
+      fieldLines: (name) => (name === 'content-type' ? ['text/plain'] : undefined),
+    };
+
+    it('should read components from the related request', () => {
+      expect(extractMessageComponent(response, '@status')).toBe('200');
+      expect(extractMessageComponent(response, '@method;req', request)).toBe('POST');
+      expect(extractMessageComponent(response, 'content-type;req', request)).toBe('text/plain');
+      expect(extractMessageComponent(response, 'content-type', request)).toBe('application/json');
+    });
+
+    it('should return undefined without a related request', () => {
+      expect(extractMessageComponent(response, '@method;req')).toBeUndefined();
+    });
+  });
+});
+
+describe('serializeComponentId', () => {
+  it('should quote the name and serialize parameters', () => {
+    expect(serializeComponentId('@method')).toBe('"@method"');
+    expect(serializeComponentId('@query-param;name="foo"')).toBe('"@query-param";name="foo"');
+    expect(serializeComponentId('example-dict;key="a";sf')).toBe('"example-dict";key="a";sf');
+  });
 });
@@ -0,0 +1,72 @@
+import * as crypto from 'node:crypto';
+import {
+  computeContentDigest,
+  parseContentDigest,
+  verifyContentDigest,
+} from '../../../src/middleware/http-signature/digest.js';
+
+describe('computeContentDigest', () => {
+  it('should compute a sha-256 digest by default', () => {
+    const expected = crypto.createHash('sha256').update('hello').digest('base64');
+
+    expect(computeContentDigest('hello')).toBe(`sha-256=:${expected}:`);
+  });
+
+  it('should compute a sha-512 digest', () => {
+    const expected = crypto.createHash('sha512').update('hello').digest('base64');
+
+    expect(computeContentDigest('hello', 'sha-512')).toBe(`sha-512=:${expected}:`);
+  });
+
+  it('should throw for unsupported algorithms', () => {
+    expect(() => computeContentDigest('hello', 'md5')).toThrow('Unsupported digest algorithm');
+  });
+});
+
+describe('parseContentDigest', () => {
+  it('should parse multiple digests', () => {
+    const digests = parseContentDigest('sha-256=:YWJj:, sha-512=:ZGVm:');
+
+    expect(digests).toEqual([
+      { algorithm: 'sha-256', value: 'YWJj' },
+      { algorithm: 'sha-512', value: 'ZGVm' },
+    ]);
+  });
+});
+
+describe('verifyContentDigest', () => {
+  const body = Buffer.from('{"hello": "world"}');
+
+  it('should verify a matching sha-256 digest', () => {
+    const result = verifyContentDigest(computeContentDigest(body), body);
+
+    expect(result.valid).toBe(true);
+    expect(result.digest?.algorithm).toBe('sha-256');
+  });
+
+  it('should prefer sha-512 when both digests match', () => {
+    const header = `${computeContentDigest(body)}, ${computeContentDigest(body, 'sha-512')}`;
+    const result = verifyContentDigest(header, body);
+
+    expect(result.valid).toBe(true);
+    expect(result.digest?.algorithm).toBe('sha-512');
+  });
+
+  it('should reject when any supported digest does not match', () => {
+    const other = Buffer.from('tampered');
+    const header = `${computeContentDigest(body)}, ${computeContentDigest(other, 'sha-512')}`;
+
+    expect(verifyContentDigest(header, body)).toEqual({ valid: false, error: 'digest_mismatch' });
+  });
+
+  it('should reject when no supported algorithm is present', () => {
+    const result = verifyContentDigest('md5=:YWJj:', body);
+
+    expect(result.valid).toBe(false);
+    expect(result.error).toBe('digest_mismatch');
+  });
+
+  it('should reject a missing header', () => {
+    expect(verifyContentDigest(undefined, body).error).toBe('digest_mismatch');
+  });
+});
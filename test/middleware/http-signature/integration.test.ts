@@ -62,7 +62,7 @@ describe('HTTP Signature Integration', () => {
         'signature': signedHeaders['Signature'],
         'signature-input': signedHeaders['Signature-Input'],
       },
-      hostname: 'api.example.com',
+      host: 'api.example.com',
       protocol: 'https',
     };
 
@@ -111,7 +111,7 @@ describe('HTTP Signature Integration', () => {
         'signature': signedHeaders['Signature'],
         'signature-input': signedHeaders['Signature-Input'],
       },
-      hostname: 'api.example.com',
+      host: 'api.example.com',
       protocol: 'https',
     };
 
@@ -1,7 +1,15 @@
+import * as crypto from 'node:crypto';
+import { mkdtemp, rm, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import * as path from 'node:path';
 import { createKeyResolver } from '../../../src/middleware/http-signature/jwks.js';
+import '../../../src/middleware/http-signature/algorithms/rsa-pss-sha512.js';
+import '../../../src/middleware/http-signature/algorithms/ed25519.js';
+import '../../../src/middleware/http-signature/algorithms/ecdsa-p256-sha256.js';
 import { createRemoteJWKSet } from 'jose';
 
 // The jose mock is automatically loaded from test/__mocks__/jose.ts
+const mockCreateRemoteJWKSet = createRemoteJWKSet as unknown as jest.Mock;
 
 describe('KeyResolver', () => {
   beforeEach(() => {
@@ -18,6 +26,182 @@ describe('KeyResolver', () => {
     const url = 'https://example.com/.well-known/jwks.json';
     createKeyResolver(url);
 
-    expect(createRemoteJWKSet).toHaveBeenCalledWith(new URL(url));
+    expect(createRemoteJWKSet).toHaveBeenCalledWith(new URL(url), expect.any(Object));
+  });
+
+  it('should pass cache settings to the JWKS fetcher', () => {
+    createKeyResolver({
+      jwksUrls: ['https://example.com/jwks.json'],
+      cacheMaxAge: 60000,
+      cooldownDuration: 5000,
+    });
+
+    expect(createRemoteJWKSet).toHaveBeenCalledWith(new URL('https://example.com/jwks.json'), {
+      cacheMaxAge: 60000,
+      cooldownDuration: 5000,
+    });
+  });
+
+  it('should request the key by kid and algorithm', async () => {
+    const key = { type: 'public' };
+    const getKey = jest.fn().mockResolvedValue(key);
+    mockCreateRemoteJWKSet.mockReturnValueOnce(getKey);
+
+    const resolver = createKeyResolver('https://example.com/jwks.json');
+    const resolved = await resolver.resolve('key-1', 'rsa-pss-sha512');
+
+    expect(resolved).toBe(key);
+    expect(getKey).toHaveBeenCalledWith({ alg: 'PS512', kid: 'key-1' }, expect.anything());
+  });
+
+  it('should map algorithm names to JOSE identifiers', async () => {
+    const getKey = jest.fn().mockResolvedValue({ type: 'public' });
+    mockCreateRemoteJWKSet.mockReturnValueOnce(getKey);
+
+    const resolver = createKeyResolver('https://example.com/jwks.json');
+    await resolver.resolve('key-1', 'ed25519');
+
+    expect(getKey).toHaveBeenCalledWith({ alg: 'Ed25519', kid: 'key-1' }, expect.anything());
+  });
+
+  it('should find Ed25519 keys published with the RFC 8037 EdDSA alg', async () => {
+    const { publicKey } = crypto.generateKeyPairSync('ed25519');
+    const jwks = [{ ...publicKey.export({ format: 'jwk' }), kid: 'ed-key', alg: 'EdDSA' }];
+    // Like jose's JWKS sets, skip keys whose alg is set and differs from the requested one
+    const getKey = jest.fn(async ({ alg, kid }: { alg: string; kid: string }) => {
+      const jwk = jwks.find((candidate) => candidate.kid === kid && candidate.alg === alg);
+      if (!jwk) {
+        throw new Error('no applicable key found in the JSON Web Key Set');
+      }
+      return crypto.createPublicKey({ key: jwk, format: 'jwk' });
+    });
+    mockCreateRemoteJWKSet.mockReturnValueOnce(getKey);
+
+    const resolver = createKeyResolver('https://example.com/jwks.json');
+    const key = (await resolver.resolve('ed-key', 'ed25519')) as crypto.KeyObject;
+
+    expect(key.asymmetricKeyType).toBe('ed25519');
+    expect(getKey).toHaveBeenLastCalledWith({ alg: 'EdDSA', kid: 'ed-key' }, expect.anything());
+  });
+
+  it('should try each JWKS URL in order', async () => {
+    const key = { type: 'public' };
+    const first = jest.fn().mockRejectedValue(new Error('no matching key'));
+    const second = jest.fn().mockResolvedValue(key);
+    mockCreateRemoteJWKSet.mockReturnValueOnce(first).mockReturnValueOnce(second);
+
+    const resolver = createKeyResolver({
+      jwksUrls: ['https://a.example.com/jwks.json', 'https://b.example.com/jwks.json'],
+    });
+
+    await expect(resolver.resolve('key-1', 'rsa-pss-sha512')).resolves.toBe(key);
+    expect(first).toHaveBeenCalled();
+    expect(second).toHaveBeenCalled();
+  });
+
+  it('should reject unknown kids', async () => {
+    mockCreateRemoteJWKSet.mockReturnValueOnce(jest.fn().mockRejectedValue(new Error('no key')));
+
+    const resolver = createKeyResolver('https://example.com/jwks.json');
+
+    await expect(resolver.resolve('unknown', 'rsa-pss-sha512')).rejects.toThrow(
+      'Key not found: unknown'
+    );
+  });
+
+  describe('static key directories', () => {
+    let dir: string;
+    let pemKey: crypto.KeyObject;
+    let jwkKey: crypto.KeyObject;
+
+    beforeAll(async () => {
+      dir = await mkdtemp(path.join(tmpdir(), 'http-sig-keys-'));
+
+      pemKey = crypto.generateKeyPairSync('rsa', { modulusLength: 2048 }).publicKey;
+      await writeFile(
+        path.join(dir, 'pem-key.pem'),
+        pemKey.export({ type: 'spki', format: 'pem' }) as string
+      );
+
+      const p384Key = crypto.generateKeyPairSync('ec', { namedCurve: 'P-384' }).publicKey;
+      await writeFile(
+        path.join(dir, 'p384-key.pem'),
+        p384Key.export({ type: 'spki', format: 'pem' }) as string
+      );
+
+      jwkKey = crypto.generateKeyPairSync('rsa', { modulusLength: 2048 }).publicKey;
+      await writeFile(
+        path.join(dir, 'keys.json'),
+        JSON.stringify({ keys: [{ ...jwkKey.export({ format: 'jwk' }), kid: 'jwk-key' }] })
+      );
+    });
+
+    afterAll(async () => {
+      await rm(dir, { recursive: true, force: true });
+    });
+
+    it('should resolve PEM keys by file name', async () => {
+      const resolver = createKeyResolver({ keyDirs: [dir] });
+      const key = (await resolver.resolve('pem-key', 'rsa-pss-sha512')) as crypto.KeyObject;
+
+      expect(key.equals(pemKey)).toBe(true);
+    });
+
+    it('should resolve JWK keys by kid', async () => {
+      const resolver = createKeyResolver({ keyDirs: [dir] });
+      const key = (await resolver.resolve('jwk-key', 'rsa-pss-sha512')) as crypto.KeyObject;
+
+      expect(key.equals(jwkKey)).toBe(true);
+    });
+
+    it('should reject kids not present in the directory', async () => {
+      const resolver = createKeyResolver({ keyDirs: [dir] });
+
+      await expect(resolver.resolve('keys', 'rsa-pss-sha512')).rejects.toThrow('Key not found');
+    });
+
+    it('should reject keys that do not fit the requested algorithm', async () => {
+      const resolver = createKeyResolver({ keyDirs: [dir] });
+
+      await expect(resolver.resolve('p384-key', 'ecdsa-p256-sha256')).rejects.toThrow(
+        'Key p384-key cannot be used with ecdsa-p256-sha256'
+      );
+      await expect(resolver.resolve('pem-key', 'ed25519')).rejects.toThrow(
+        'Key pem-key cannot be used with ed25519'
+      );
+    });
+
+    it('should skip unreadable files and directories and keep the other keys', async () => {
+      const badDir = await mkdtemp(path.join(tmpdir(), 'http-sig-bad-keys-'));
+      await writeFile(path.join(badDir, 'broken.json'), '{ not json');
+      await writeFile(path.join(badDir, 'broken.pem'), 'not a key');
+      const logger = { warn: jest.fn() } as any;
+
+      try {
+        const resolver = createKeyResolver({
+          keyDirs: [path.join(dir, 'missing'), badDir, dir],
+          logger,
+        });
+        const key = (await resolver.resolve('pem-key', 'rsa-pss-sha512')) as crypto.KeyObject;
+
+        expect(key.equals(pemKey)).toBe(true);
+        expect(logger.warn).toHaveBeenCalledTimes(3);
+      } finally {
+        await rm(badDir, { recursive: true, force: true });
+      }
+    });
+
+    it('should still try the JWKS endpoints when static keys fail to load', async () => {
+      const key = { type: 'public' };
+      mockCreateRemoteJWKSet.mockReturnValueOnce(jest.fn().mockResolvedValue(key));
+
+      const resolver = createKeyResolver({
+        jwksUrls: ['https://example.com/jwks.json'],
+        keyDirs: [path.join(dir, 'missing')],
+      });
+
+      await expect(resolver.resolve('remote-key', 'rsa-pss-sha512')).resolves.toBe(key);
+      await expect(resolver.resolve('remote-key', 'rsa-pss-sha512')).resolves.toBe(key);
+    });
   });
 });
@@ -0,0 +1,52 @@
+import * as crypto from 'node:crypto';
+import '../../../src/middleware/http-signature/algorithms/ecdsa-p256-sha256.js';
+import '../../../src/middleware/http-signature/algorithms/ed25519.js';
+import { getAlgorithm } from '../../../src/middleware/http-signature/algorithms/index.js';
+import { importPrivateKey, importPublicKey } from '../../../src/middleware/http-signature/keys.js';
+
+describe('key import', () => {
+  const data = new TextEncoder().encode('test data to sign');
+
+  it('should import PKCS8 and SPKI PEM keys', async () => {
+    const { publicKey, privateKey } = crypto.generateKeyPairSync('ec', { namedCurve: 'P-256' });
+    const algo = getAlgorithm('ecdsa-p256-sha256')!;
+
+    const signingKey = await importPrivateKey(
+      privateKey.export({ type: 'pkcs8', format: 'pem' }) as string,
+      'ecdsa-p256-sha256'
+    );
+    const verifyKey = await importPublicKey(
+      publicKey.export({ type: 'spki', format: 'pem' }) as string,
+      'ecdsa-p256-sha256'
+    );
+
+    const signature = await algo.sign(signingKey, data);
+    expect(await algo.verify(verifyKey, signature, data)).toBe(true);
+  });
+
+  it('should import JWK keys', async () => {
+    const { publicKey, privateKey } = crypto.generateKeyPairSync('ed25519');
+    const algo = getAlgorithm('ed25519')!;
+
+    const signingKey = await importPrivateKey(
+      privateKey.export({ format: 'jwk' }) as any,
+      'ed25519'
+    );
+    const verifyKey = await importPublicKey(publicKey.export({ format: 'jwk' }) as any, 'ed25519');
+
+    const signature = await algo.sign(signingKey, data);
+    expect(await algo.verify(verifyKey, signature, data)).toBe(true);
+  });
+
+  it('should pass through already imported keys', async () => {
+    const { privateKey } = crypto.generateKeyPairSync('ed25519');
+
+    expect(await importPrivateKey(privateKey, 'ed25519')).toBe(privateKey);
+  });
+
+  it('should reject unknown algorithms', async () => {
+    await expect(importPublicKey('-----BEGIN PUBLIC KEY-----', 'unknown')).rejects.toThrow(
+      'Unsupported algorithm: unknown'
+    );
+  });
+});
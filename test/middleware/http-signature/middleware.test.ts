@@ -4,14 +4,17 @@ import '../../../src/middleware/http-signature/algorithms/rsa-pss-sha512.js';
 import { getAlgorithm } from '../../../src/middleware/http-signature/algorithms/index.js';
 import { generateKeyPair } from 'jose';
 import { buildSignatureBase, buildSignatureParams } from '../../../src/middleware/http-signature/signature-base.js';
+import { createSigner } from '../../../src/middleware/http-signature/sign.js';
 
 interface MockRequest {
   method: string;
   url: string;
   headers: Record<string, string | undefined>;
-  hostname: string;
+  host: string;
   protocol: string;
   httpSignature?: any;
+  body?: unknown;
+  rawBody?: Buffer;
 }
 
 interface MockReply {
@@ -28,7 +31,7 @@ function createMockRequest(overrides: Partial<MockRequest> = {}): MockRequest {
     method: 'POST',
     url: '/api/data',
     headers: {},
-    hostname: 'example.com',
+    host: 'example.com',
     protocol: 'https',
     ...overrides,
   };
@@ -110,6 +113,53 @@ describe('httpSig middleware', () => {
     expect(reply.responseHeaders['WWW-Authenticate']).toContain('Signature');
   });
 
+  it('should advertise the route requirements in Accept-Signature', async () => {
+    const middleware = httpSig({
+      required: ['@method', '@target-uri', 'content-digest'],
+      algorithms: ['ed25519'],
+      keyId: 'partner-key',
+      requireNonce: true,
+    });
+    const reply = createMockReply();
+
+    await callMiddleware(middleware, createMockRequest(), reply);
+
+    expect(reply.responseHeaders['Accept-Signature']).toBe(
+      'sig1=("@method" "@target-uri" "content-digest");created;keyid="partner-key";alg="ed25519";nonce'
+    );
+  });
+
+  it('should only ask for created in Accept-Signature when it is enforced', async () => {
+    const middleware = httpSig({ requireNonce: true });
+    const reply = createMockReply();
+
+    await callMiddleware(
+      middleware,
+      createMockRequest({
+        headers: {
+          signature: 'sig1=:AAAA:',
+          'signature-input':
+            'sig1=("@method" "@target-uri" "@authority");keyid="k1";alg="hmac-sha256";nonce="n1"',
+        },
+      }),
+      reply
+    );
+
+    expect(reply.responseHeaders['Accept-Signature']).toContain(';created');
+    expect(reply.body.error).toBe('created_required');
+  });
+
+  it('should not name an algorithm in Accept-Signature when several are allowed', async () => {
+    const middleware = httpSig({ algorithms: ['ed25519', 'rsa-pss-sha512'], label: 'client' });
+    const reply = createMockReply();
+
+    await callMiddleware(middleware, createMockRequest(), reply);
+
+    expect(reply.responseHeaders['Accept-Signature']).toBe(
+      'client=("@method" "@target-uri" "@authority")'
+    );
+  });
+
   it('should return 401 when Signature-Input header is missing', async () => {
     const middleware = httpSig();
     const request = createMockRequest({
@@ -159,7 +209,7 @@ describe('httpSig middleware', () => {
 
     const request = createMockRequest({
       headers: {
-        'signature-input': `sig1=("@method" "@target-uri" "@authority");keyid="test-key";alg="rsa-pss-sha512";created=${sigInput.created}`,
+        'signature-input': `sig1=${buildSignatureParams(sigInput)}`,
       },
     });
 
@@ -179,4 +229,289 @@ describe('httpSig middleware', () => {
     expect(request.httpSignature).toBeDefined();
     expect(request.httpSignature.keyId).toBe('test-key');
   });
+
+  it('should return 500 when content-digest is covered but the raw body was not captured', async () => {
+    const middleware = httpSig({ required: ['@method', 'content-digest'] });
+    const request = createMockRequest({
+      headers: {
+        signature: 'sig1=:dGVzdA==:',
+        'signature-input': 'sig1=("@method" "content-digest");keyid="k1";alg="rsa-pss-sha512"',
+        'content-digest': 'sha-256=:dGVzdA==:',
+      },
+      body: { test: true },
+    });
+    const reply = createMockReply();
+
+    await callMiddleware(middleware, request, reply);
+
+    expect(reply.code).toHaveBeenCalledWith(500);
+    expect(reply.body.error).toBe('configuration_error');
+  });
+
+  it('should challenge a covered content-digest that was not sent', async () => {
+    const middleware = httpSig({ required: ['@method', 'content-digest'] });
+    const request = createMockRequest({
+      headers: {
+        signature: 'sig1=:dGVzdA==:',
+        'signature-input': 'sig1=("@method" "content-digest");keyid="k1";alg="rsa-pss-sha512"',
+      },
+      body: { test: true },
+    });
+    const reply = createMockReply();
+
+    await callMiddleware(middleware, request, reply);
+
+    expect(reply.code).toHaveBeenCalledWith(401);
+    expect(reply.body.error).toBe('digest_mismatch');
+    expect(reply.responseHeaders['WWW-Authenticate']).toContain('headers="content-digest"');
+  });
+
+  it('should create the key resolver once per middleware instance', async () => {
+    const jwksMock = await import('../../../src/middleware/http-signature/jwks.js');
+    const middleware = httpSig();
+
+    for (let i = 0; i < 2; i++) {
+      const request = createMockRequest({
+        headers: {
+          signature: 'sig1=:dGVzdA==:',
+          'signature-input': `sig1=("@method" "@target-uri" "@authority");keyid="k1";alg="rsa-pss-sha512";created=${Math.floor(Date.now() / 1000)}`,
+        },
+      });
+      await callMiddleware(middleware, request, createMockReply());
+    }
+
+    expect(jwksMock.createKeyResolver).toHaveBeenCalledTimes(1);
+  });
+
+  it('should use a provided key resolver', async () => {
+    const jwksMock = await import('../../../src/middleware/http-signature/jwks.js');
+    const keyResolver = { resolve: jest.fn().mockRejectedValue(new Error('Key not found')) };
+    const middleware = httpSig({ keyResolver });
+    const request = createMockRequest({
+      headers: {
+        signature: 'sig1=:dGVzdA==:',
+        'signature-input': `sig1=("@method" "@target-uri" "@authority");keyid="unknown";alg="rsa-pss-sha512";created=${Math.floor(Date.now() / 1000)}`,
+      },
+    });
+    const reply = createMockReply();
+
+    await callMiddleware(middleware, request, reply);
+
+    expect(jwksMock.createKeyResolver).not.toHaveBeenCalled();
+    expect(keyResolver.resolve).toHaveBeenCalledWith('unknown', 'rsa-pss-sha512');
+    expect(reply.body.error).toBe('key_not_found');
+  });
+
+  describe('hmac-sha256', () => {
+    beforeEach(() => {
+      process.env.HTTP_SIG_SECRET_INTERNAL_CLIENT = 'internal-shared-secret';
+    });
+
+    afterEach(() => {
+      delete process.env.HTTP_SIG_SECRET_INTERNAL_CLIENT;
+    });
+
+    async function signedRequest(secret: string) {
+      const signer = await createSigner({
+        keyId: 'INTERNAL_CLIENT',
+        secret,
+        algorithm: 'hmac-sha256',
+        components: ['@method', '@target-uri', '@authority'],
+      });
+      const headers = await signer.sign({
+        method: 'POST',
+        url: 'https://example.com/api/data',
+        headers: {},
+      });
+
+      return createMockRequest({
+        headers: {
+          signature: headers['Signature'],
+          'signature-input': headers['Signature-Input'],
+        },
+      });
+    }
+
+    it('should verify a request signed with the shared secret', async () => {
+      const middleware = httpSig({ algorithms: ['hmac-sha256'] });
+      const request = await signedRequest('internal-shared-secret');
+      const reply = createMockReply();
+
+      await callMiddleware(middleware, request, reply);
+
+      expect(reply.code).not.toHaveBeenCalled();
+      expect(request.httpSignature.keyId).toBe('INTERNAL_CLIENT');
+      expect(request.httpSignature.algorithm).toBe('hmac-sha256');
+    });
+
+    it('should reject a request signed with a different secret', async () => {
+      const middleware = httpSig({ algorithms: ['hmac-sha256'] });
+      const request = await signedRequest('wrong-secret');
+      const reply = createMockReply();
+
+      await callMiddleware(middleware, request, reply);
+
+      expect(reply.code).toHaveBeenCalledWith(401);
+      expect(reply.body.error).toBe('invalid_signature');
+    });
+  });
+
+  describe('multiple signatures', () => {
+    let clientKeys: { publicKey: any; privateKey: any };
+    let proxyKeys: { publicKey: any; privateKey: any };
+    let keyResolver: { resolve: jest.Mock };
+
+    beforeAll(async () => {
+      clientKeys = await generateKeyPair('PS512');
+      proxyKeys = await generateKeyPair('PS512');
+    });
+
+    beforeEach(() => {
+      const keys: Record<string, any> = {
+        'client-key': clientKeys.publicKey,
+        'proxy-key': proxyKeys.publicKey,
+      };
+      keyResolver = {
+        resolve: jest.fn(async (keyId: string) => {
+          if (!keys[keyId]) throw new Error('Key not found');
+          return keys[keyId];
+        }),
+      };
+    });
+
+    async function sign(request: MockRequest, label: string, keyid: string, privateKey: any) {
+      const sigInput = {
+        label,
+        components: ['@method', '@target-uri', '@authority'],
+        keyid,
+        alg: 'rsa-pss-sha512',
+        created: Math.floor(Date.now() / 1000),
+      };
+      const algo = getAlgorithm('rsa-pss-sha512')!;
+      const signatureBase = buildSignatureBase(request as any, sigInput);
+      const bytes = await algo.sign(privateKey, new TextEncoder().encode(signatureBase));
+      return {
+        input: `${label}=${buildSignatureParams(sigInput)}`,
+        signature: `${label}=:${btoa(String.fromCharCode(...bytes))}:`,
+      };
+    }
+
+    async function createDoublySignedRequest(proxyPrivateKey = proxyKeys.privateKey) {
+      const request = createMockRequest();
+      const client = await sign(request, 'client', 'client-key', clientKeys.privateKey);
+      const proxy = await sign(request, 'proxy', 'proxy-key', proxyPrivateKey);
+      request.headers['signature-input'] = `${proxy.input}, ${client.input}`;
+      request.headers.signature = `${proxy.signature}, ${client.signature}`;
+      return request;
+    }
+
+    it('should verify the signature selected by label', async () => {
+      const middleware = httpSig({ keyResolver, label: 'client' });
+      const request = await createDoublySignedRequest(clientKeys.privateKey); // proxy signature invalid
+      const reply = createMockReply();
+
+      await callMiddleware(middleware, request, reply);
+
+      expect(reply.code).not.toHaveBeenCalled();
+      expect(request.httpSignature.label).toBe('client');
+      expect(request.httpSignature.keyId).toBe('client-key');
+    });
+
+    it('should select signatures by keyid pattern', async () => {
+      const middleware = httpSig({ keyResolver, keyId: /^proxy-/ });
+      const request = await createDoublySignedRequest();
+      const reply = createMockReply();
+
+      await callMiddleware(middleware, request, reply);
+
+      expect(reply.code).not.toHaveBeenCalled();
+      expect(request.httpSignature.signatures).toHaveLength(1);
+      expect(request.httpSignature.keyId).toBe('proxy-key');
+    });
+
+    it('should match a global keyid pattern on every request', async () => {
+      const middleware = httpSig({ keyResolver, keyId: /^proxy-/g });
+
+      for (let i = 0; i < 2; i++) {
+        const request = createMockRequest();
+        const proxy = await sign(request, 'proxy', 'proxy-key', proxyKeys.privateKey);
+        request.headers['signature-input'] = proxy.input;
+        request.headers.signature = proxy.signature;
+        const reply = createMockReply();
+
+        await callMiddleware(middleware, request, reply);
+
+        expect(reply.code).not.toHaveBeenCalled();
+        expect(request.httpSignature.keyId).toBe('proxy-key');
+      }
+    });
+
+    it('should reject when no signature matches the selection', async () => {
+      const middleware = httpSig({ keyResolver, label: 'partner' });
+      const request = await createDoublySignedRequest();
+      const reply = createMockReply();
+
+      await callMiddleware(middleware, request, reply);
+
+      expect(reply.code).toHaveBeenCalledWith(401);
+      expect(reply.body.error).toBe('invalid_signature');
+    });
+
+    it('should attach all verified signatures when N-of-M are required', async () => {
+      const middleware = httpSig({ keyResolver, minSignatures: 2 });
+      const request = await createDoublySignedRequest();
+      const reply = createMockReply();
+
+      await callMiddleware(middleware, request, reply);
+
+      expect(reply.code).not.toHaveBeenCalled();
+      expect(request.httpSignature.signatures.map((s: any) => s.label)).toEqual([
+        'proxy',
+        'client',
+      ]);
+    });
+
+    it('should reject when fewer than the required signatures verify', async () => {
+      const middleware = httpSig({ keyResolver, minSignatures: 2 });
+      const request = await createDoublySignedRequest(clientKeys.privateKey);
+      const reply = createMockReply();
+
+      await callMiddleware(middleware, request, reply);
+
+      expect(reply.code).toHaveBeenCalledWith(401);
+      expect(reply.body.error).toBe('invalid_signature');
+    });
+
+    it('should count signatures made with the same key once', async () => {
+      const middleware = httpSig({ keyResolver, minSignatures: 2 });
+      const request = createMockRequest();
+      const first = await sign(request, 'client', 'client-key', clientKeys.privateKey);
+      const second = await sign(request, 'proxy', 'client-key', clientKeys.privateKey);
+      request.headers['signature-input'] = `${first.input}, ${second.input}`;
+      request.headers.signature = `${first.signature}, ${second.signature}`;
+      const reply = createMockReply();
+
+      await callMiddleware(middleware, request, reply);
+
+      expect(reply.code).toHaveBeenCalledWith(401);
+      expect(reply.body.error).toBe('insufficient_signatures');
+    });
+
+    it('should reject a minSignatures below one', () => {
+      expect(() => httpSig({ keyResolver, minSignatures: 0 })).toThrow(
+        'httpSig minSignatures must be a positive integer, got 0'
+      );
+    });
+
+    it('should report insufficient signatures when too few are present', async () => {
+      const middleware = httpSig({ keyResolver, label: 'client', minSignatures: 2 });
+      const request = await createDoublySignedRequest();
+      const reply = createMockReply();
+
+      await callMiddleware(middleware, request, reply);
+
+      expect(reply.code).toHaveBeenCalledWith(401);
+      expect(reply.body.error).toBe('insufficient_signatures');
+    });
+  });
 });
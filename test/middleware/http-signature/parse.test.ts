@@ -32,6 +32,39 @@ describe('parseSignatureInput', () => {
     expect(result[1].label).toBe('sig2');
   });
 
+  it('should keep component parameters', () => {
+    const header =
+      'sig1=("@query-param";name="foo" "example-dict";key="a" "x-data";bs "@method";req);keyid="k1";alg="hmac-sha256"';
+
+    const result = parseSignatureInput(header);
+
+    expect(result[0].components).toEqual([
+      '@query-param;name="foo"',
+      'example-dict;key="a"',
+      'x-data;bs',
+      '@method;req',
+    ]);
+  });
+
+  it('should accept a missing alg and keep the parameters as received', () => {
+    const header = 'sig1=("@method");created=1618884473;keyid="k1";tag="app";x-ext=1';
+
+    const result = parseSignatureInput(header);
+
+    expect(result[0].alg).toBeUndefined();
+    expect(result[0].tag).toBe('app');
+    expect(result[0].signatureParams).toBe('("@method");created=1618884473;keyid="k1";tag="app";x-ext=1');
+  });
+
+  it('should skip malformed members', () => {
+    const header = 'sig1=("@method" @path);keyid="k1";alg="hmac-sha256", sig2=("@path");keyid="k2";alg="hmac-sha256"';
+
+    const result = parseSignatureInput(header);
+
+    expect(result).toHaveLength(1);
+    expect(result[0].label).toBe('sig2');
+  });
+
   it('should return empty array for invalid header', () => {
     const result = parseSignatureInput('invalid');
     expect(result).toEqual([]);
@@ -0,0 +1,86 @@
+import { createClient } from 'redis';
+import { RedisService } from '../../../src/services/redis.service.js';
+import {
+  createMemoryReplayStore,
+  createRedisReplayStore,
+} from '../../../src/middleware/http-signature/replay.js';
+
+describe('createMemoryReplayStore', () => {
+  it('should accept a nonce the first time and reject it afterwards', async () => {
+    const store = createMemoryReplayStore();
+
+    expect(await store.checkAndStore('key-1', 'nonce-1', 60)).toBe(true);
+    expect(await store.checkAndStore('key-1', 'nonce-1', 60)).toBe(false);
+  });
+
+  it('should scope nonces by keyid', async () => {
+    const store = createMemoryReplayStore();
+
+    expect(await store.checkAndStore('key-1', 'nonce-1', 60)).toBe(true);
+    expect(await store.checkAndStore('key-2', 'nonce-1', 60)).toBe(true);
+  });
+
+  it('should forget nonces after the TTL', async () => {
+    jest.useFakeTimers();
+    try {
+      const store = createMemoryReplayStore();
+
+      await store.checkAndStore('key-1', 'nonce-1', 60);
+      jest.advanceTimersByTime(61000);
+
+      expect(await store.checkAndStore('key-1', 'nonce-1', 60)).toBe(true);
+    } finally {
+      jest.useRealTimers();
+    }
+  });
+
+  it('should refuse new nonces rather than forget live ones when full', async () => {
+    jest.useFakeTimers();
+    try {
+      const store = createMemoryReplayStore(2);
+
+      await store.checkAndStore('key-1', 'nonce-1', 60);
+      await store.checkAndStore('key-1', 'nonce-2', 120);
+
+      expect(await store.checkAndStore('key-1', 'nonce-3', 60)).toBe(false);
+      expect(await store.checkAndStore('key-1', 'nonce-1', 60)).toBe(false);
+
+      // Room is made as nonces expire
+      jest.advanceTimersByTime(61000);
+      expect(await store.checkAndStore('key-1', 'nonce-3', 60)).toBe(true);
+      expect(await store.checkAndStore('key-1', 'nonce-2', 60)).toBe(false);
+    } finally {
+      jest.useRealTimers();
+    }
+  });
+});
+
+describe('createRedisReplayStore', () => {
+  const client: any = createClient();
+  const redis = new RedisService(client);
+
+  beforeEach(async () => {
+    const keys = await client.keys('*');
+    if (keys.length > 0) {
+      await client.del(...keys);
+    }
+  });
+
+  it('should reject a nonce already recorded in Redis', async () => {
+    const store = createRedisReplayStore(redis);
+
+    expect(await store.checkAndStore('key-1', 'nonce-1', 60)).toBe(true);
+    expect(await store.checkAndStore('key-1', 'nonce-1', 60)).toBe(false);
+  });
+
+  it('should store nonces with the signature window as TTL', async () => {
+    const store = createRedisReplayStore(redis);
+
+    await store.checkAndStore('key-1', 'nonce-1', 120);
+
+    expect(client.set).toHaveBeenCalledWith('httpsig:nonce:key-1:nonce-1', '1', {
+      NX: true,
+      EX: 120,
+    });
+  });
+});
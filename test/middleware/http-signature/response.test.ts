@@ -0,0 +1,194 @@
+import Fastify, { FastifyInstance } from 'fastify';
+import { signResponse, verifyResponse } from '../../../src/middleware/http-signature/response.js';
+import responseSigningPlugin from '../../../src/plugins/response-signing.plugin.js';
+import type { KeyResolver } from '../../../src/middleware/http-signature/jwks.js';
+import '../../../src/middleware/http-signature/algorithms/hmac-sha256.js';
+
+const secret = 'response-secret';
+
+const secretResolver: KeyResolver = {
+  resolve: async (keyId) => {
+    if (keyId !== 'api-server') {
+      throw new Error(`Key not found: ${keyId}`);
+    }
+    return new TextEncoder().encode(secret);
+  },
+};
+
+const signedRequest = {
+  method: 'POST',
+  url: 'http://localhost/receipt',
+  headers: {},
+};
+
+describe('response signatures', () => {
+  let app: FastifyInstance;
+
+  beforeEach(async () => {
+    app = Fastify({ logger: false });
+    await app.register(responseSigningPlugin);
+
+    app.post(
+      '/receipt',
+      { preHandler: signResponse({ keyId: 'api-server', secret, algorithm: 'hmac-sha256' }) },
+      async (request, reply) => reply.code(201).send({ accepted: true })
+    );
+    app.delete(
+      '/receipt',
+      { preHandler: signResponse({ keyId: 'api-server', secret, algorithm: 'hmac-sha256' }) },
+      async (request, reply) => reply.code(204).send()
+    );
+  });
+
+  afterEach(async () => {
+    await app.close();
+  });
+
+  async function callReceipt() {
+    const response = await app.inject({ method: 'POST', url: '/receipt' });
+    return {
+      status: response.statusCode,
+      headers: response.headers as Record<string, string>,
+      body: response.body,
+    };
+  }
+
+  it('should sign responses covering status, digest and the request', async () => {
+    const response = await callReceipt();
+
+    expect(response.headers['content-digest']).toMatch(/^sha-256=:/);
+    expect(response.headers['signature-input']).toContain(
+      '("@status" "content-type" "content-digest" "@method";req "@target-uri";req)'
+    );
+    expect(response.headers['signature-input']).toContain('keyid="api-server"');
+
+    const result = await verifyResponse(response, signedRequest, {
+      keyResolver: secretResolver,
+      required: ['@status', 'content-digest', '@target-uri;req'],
+    });
+
+    expect(result.valid).toBe(true);
+    expect(result.keyId).toBe('api-server');
+    expect(result.digest?.algorithm).toBe('sha-256');
+  });
+
+  it('should only list components a response without a body has', async () => {
+    const response = await app.inject({ method: 'DELETE', url: '/receipt' });
+
+    expect(response.statusCode).toBe(204);
+    expect(response.headers['content-digest']).toBeUndefined();
+    expect(response.headers['signature-input']).toContain(
+      '("@status" "@method";req "@target-uri";req)'
+    );
+
+    const result = await verifyResponse(
+      {
+        status: response.statusCode,
+        headers: response.headers as Record<string, string>,
+        body: response.body,
+      },
+      { ...signedRequest, method: 'DELETE' },
+      { keyResolver: secretResolver }
+    );
+
+    expect(result.valid).toBe(true);
+  });
+
+  it('should reject a tampered body', async () => {
+    const response = await callReceipt();
+
+    const result = await verifyResponse(
+      { ...response, body: '{"accepted":false}' },
+      signedRequest,
+      { keyResolver: secretResolver }
+    );
+
+    expect(result).toEqual({ valid: false, error: 'digest_mismatch' });
+  });
+
+  it('should reject a tampered status', async () => {
+    const response = await callReceipt();
+
+    const result = await verifyResponse({ ...response, status: 200 }, signedRequest, {
+      keyResolver: secretResolver,
+    });
+
+    expect(result).toEqual({ valid: false, error: 'invalid_signature' });
+  });
+
+  it('should bind the signature to the original request', async () => {
+    const response = await callReceipt();
+
+    const result = await verifyResponse(
+      response,
+      { ...signedRequest, url: 'http://localhost/other' },
+      { keyResolver: secretResolver }
+    );
+
+    expect(result).toEqual({ valid: false, error: 'invalid_signature' });
+  });
+
+  it('should accept fetch Headers', async () => {
+    const response = await callReceipt();
+
+    const result = await verifyResponse(
+      { ...response, headers: new Headers(response.headers) },
+      signedRequest,
+      { keyResolver: secretResolver }
+    );
+
+    expect(result.valid).toBe(true);
+  });
+
+  it('should report unsigned responses', async () => {
+    const result = await verifyResponse({ status: 200, headers: {} }, signedRequest, {
+      keyResolver: secretResolver,
+    });
+
+    expect(result).toEqual({ valid: false, error: 'signature_required' });
+  });
+
+  it('should report missing required components', async () => {
+    const response = await callReceipt();
+
+    const result = await verifyResponse(response, signedRequest, {
+      keyResolver: secretResolver,
+      required: ['@status', 'cache-control'],
+    });
+
+    expect(result).toEqual({ valid: false, error: 'missing_components' });
+  });
+});
+
+describe('signResponse', () => {
+  it('should return 500 when responseSigningPlugin is not registered', async () => {
+    const app = Fastify({ logger: false });
+    app.get(
+      '/unsigned',
+      { preHandler: signResponse({ keyId: 'api-server', secret, algorithm: 'hmac-sha256' }) },
+      async () => ({ ok: true })
+    );
+
+    const response = await app.inject({ method: 'GET', url: '/unsigned' });
+
+    expect(response.statusCode).toBe(500);
+    expect(response.json().message).toContain('responseSigningPlugin');
+    await app.close();
+  });
+
+  it('should return 500 when no signing key is configured', async () => {
+    const app = Fastify({ logger: false });
+    await app.register(responseSigningPlugin);
+    app.get(
+      '/unsigned',
+      { preHandler: signResponse({ keyId: undefined, privateKey: undefined }) },
+      async () => ({ ok: true })
+    );
+
+    const response = await app.inject({ method: 'GET', url: '/unsigned' });
+
+    expect(response.statusCode).toBe(500);
+    expect(response.json().error).toBe('configuration_error');
+    await app.close();
+  });
+});
@@ -0,0 +1,79 @@
+import { mkdtemp, rm, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import * as path from 'node:path';
+import { createClient } from 'redis';
+import { RedisService } from '../../../src/services/redis.service.js';
+import { createSecretKeyResolver } from '../../../src/middleware/http-signature/secrets.js';
+
+const decode = (key: unknown) => new TextDecoder().decode(key as Uint8Array);
+
+describe('createSecretKeyResolver', () => {
+  let dir: string;
+
+  beforeAll(async () => {
+    dir = await mkdtemp(path.join(tmpdir(), 'http-sig-secrets-'));
+    await writeFile(path.join(dir, 'file-client'), 'file-secret\n');
+  });
+
+  afterAll(async () => {
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  afterEach(() => {
+    delete process.env.HTTP_SIG_SECRET_ENV_CLIENT;
+  });
+
+  it('should resolve secrets from environment variables', async () => {
+    process.env.HTTP_SIG_SECRET_ENV_CLIENT = 'env-secret';
+    const resolver = createSecretKeyResolver();
+
+    expect(decode(await resolver.resolve('ENV_CLIENT', 'hmac-sha256'))).toBe('env-secret');
+  });
+
+  it('should not resolve other keyids from the same environment variable', async () => {
+    process.env.HTTP_SIG_SECRET_ENV_CLIENT = 'env-secret';
+    const resolver = createSecretKeyResolver();
+
+    for (const keyId of ['env-client', 'env.client', 'env_client']) {
+      await expect(resolver.resolve(keyId, 'hmac-sha256')).rejects.toThrow('Secret not found');
+    }
+  });
+
+  it('should resolve secrets from directories', async () => {
+    const resolver = createSecretKeyResolver({ secretDirs: [dir] });
+
+    expect(decode(await resolver.resolve('file-client', 'hmac-sha256'))).toBe('file-secret');
+  });
+
+  it('should resolve secrets from Redis', async () => {
+    const redis = new RedisService(createClient());
+    await redis.set('httpsig:secret:redis-client', 'redis-secret');
+    const resolver = createSecretKeyResolver({ redis });
+
+    expect(decode(await resolver.resolve('redis-client', 'hmac-sha256'))).toBe('redis-secret');
+  });
+
+  it('should cache resolved secrets', async () => {
+    process.env.HTTP_SIG_SECRET_ENV_CLIENT = 'env-secret';
+    const resolver = createSecretKeyResolver();
+
+    await resolver.resolve('ENV_CLIENT', 'hmac-sha256');
+    process.env.HTTP_SIG_SECRET_ENV_CLIENT = 'rotated';
+
+    expect(decode(await resolver.resolve('ENV_CLIENT', 'hmac-sha256'))).toBe('env-secret');
+  });
+
+  it('should reject unknown keyids', async () => {
+    const resolver = createSecretKeyResolver({ secretDirs: [dir] });
+
+    await expect(resolver.resolve('unknown', 'hmac-sha256')).rejects.toThrow('Secret not found');
+  });
+
+  it('should reject keyids that could escape the secret directory', async () => {
+    const resolver = createSecretKeyResolver({ secretDirs: [dir] });
+
+    await expect(resolver.resolve('../file-client', 'hmac-sha256')).rejects.toThrow(
+      'Invalid keyid'
+    );
+  });
+});
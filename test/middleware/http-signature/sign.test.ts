@@ -1,7 +1,11 @@
 import { createSigner } from '../../../src/middleware/http-signature/sign.js';
 import '../../../src/middleware/http-signature/algorithms/rsa-pss-sha512.js';
+import '../../../src/middleware/http-signature/algorithms/hmac-sha256.js';
 import { generateKeyPair, exportPKCS8 } from 'jose';
 import { parseSignatureInput, parseSignature } from '../../../src/middleware/http-signature/parse.js';
+import { buildSignatureBase } from '../../../src/middleware/http-signature/signature-base.js';
+import { getAlgorithm } from '../../../src/middleware/http-signature/algorithms/index.js';
+import type { FastifyRequest } from 'fastify';
 
 describe('createSigner', () => {
   it('should create a signer that produces valid Signature and Signature-Input headers', async () => {
@@ -78,4 +82,165 @@ describe('createSigner', () => {
     expect(headers['Content-Type']).toBe('application/json');
     expect(headers['X-Custom']).toBe('value');
   });
+
+  it('should generate a unique nonce per signature when configured', async () => {
+    const { privateKey } = await generateKeyPair('PS512');
+    const pemKey = await exportPKCS8(privateKey);
+
+    const signer = await createSigner({
+      keyId: 'my-key',
+      privateKey: pemKey,
+      algorithm: 'rsa-pss-sha512',
+      components: ['@method'],
+      nonce: true,
+    });
+
+    const request = { method: 'GET', url: 'https://example.com/api/data', headers: {} };
+    const first = parseSignatureInput((await signer.sign(request))['Signature-Input']);
+    const second = parseSignatureInput((await signer.sign(request))['Signature-Input']);
+
+    expect(first[0].nonce).toBeDefined();
+    expect(second[0].nonce).toBeDefined();
+    expect(first[0].nonce).not.toBe(second[0].nonce);
+  });
+
+  it('should require a secret for symmetric algorithms', async () => {
+    await expect(
+      createSigner({
+        keyId: 'my-key',
+        algorithm: 'hmac-sha256',
+        components: ['@method'],
+      })
+    ).rejects.toThrow('requires a secret');
+  });
+
+  it('should sign parameterized components the same way the verifier rebuilds them', async () => {
+    const secret = new TextEncoder().encode('shared-secret');
+    const signer = await createSigner({
+      keyId: 'internal',
+      secret,
+      algorithm: 'hmac-sha256',
+      components: ['@method', '@request-target', '@query-param;name="page"', 'example-dict;sf'],
+    });
+
+    const headers = await signer.sign({
+      method: 'GET',
+      url: 'https://example.com/api/items?page=2&size=10',
+      headers: { 'Example-Dict': 'a=1,   b=2' },
+    });
+
+    const [sigInput] = parseSignatureInput(headers['Signature-Input']);
+    const [signature] = parseSignature(headers['Signature']);
+    expect(sigInput.components).toEqual([
+      '@method',
+      '@request-target',
+      '@query-param;name="page"',
+      'example-dict;sf',
+    ]);
+
+    const request = {
+      method: 'GET',
+      url: '/api/items?page=2&size=10',
+      headers: { 'example-dict': 'a=1, b=2' },
+      host: 'example.com',
+      protocol: 'https',
+    } as unknown as FastifyRequest;
+    const base = new TextEncoder().encode(buildSignatureBase(request, sigInput));
+
+    expect(await getAlgorithm('hmac-sha256')!.verify(secret, signature.value, base)).toBe(true);
+  });
+
+  it('should refuse to sign a component the message does not have', async () => {
+    const signer = await createSigner({
+      keyId: 'internal',
+      secret: 'shared-secret',
+      algorithm: 'hmac-sha256',
+      components: ['@method', 'content-digest'],
+    });
+
+    await expect(
+      signer.sign({ method: 'GET', url: 'https://example.com/api/items', headers: {} })
+    ).rejects.toThrow('Covered component content-digest is absent or cannot be derived');
+  });
+
+  it('should leave out optional components the message does not have', async () => {
+    const signer = await createSigner({
+      keyId: 'api-server',
+      secret: 'shared-secret',
+      algorithm: 'hmac-sha256',
+      components: ['@status', 'content-type', 'content-digest'],
+      optionalComponents: ['content-type', 'content-digest'],
+    });
+
+    const empty = await signer.signResponse({ status: 204, headers: {} });
+    const json = await signer.signResponse({
+      status: 200,
+      headers: { 'Content-Type': 'application/json' },
+      body: '{}',
+    });
+
+    expect(empty['Signature-Input']).toContain('sig1=("@status")');
+    expect(json['Signature-Input']).toContain('sig1=("@status" "content-type" "content-digest")');
+  });
+
+  it('should sign responses with components of the related request', async () => {
+    const secret = new TextEncoder().encode('shared-secret');
+    const signer = await createSigner({
+      keyId: 'api-server',
+      secret,
+      algorithm: 'hmac-sha256',
+      components: ['@status', 'content-digest', '@method;req', '@authority;req'],
+    });
+
+    const headers = await signer.signResponse(
+      { status: 200, headers: { 'Content-Type': 'application/json' }, body: '{"ok":true}' },
+      { method: 'POST', url: 'https://example.com/api/data', headers: {} }
+    );
+
+    expect(headers['Content-Type']).toBe('application/json');
+    expect(headers['Content-Digest']).toMatch(/^sha-256=:/);
+    expect(headers['Signature-Input']).toContain(
+      'sig1=("@status" "content-digest" "@method";req "@authority";req)'
+    );
+    expect(parseSignature(headers['Signature'])).toHaveLength(1);
+  });
+
+  it('should build the signature a server requested with Accept-Signature', async () => {
+    const signer = await createSigner({
+      keyId: 'internal',
+      secret: 'shared-secret',
+      algorithm: 'hmac-sha256',
+      components: ['@method'],
+      acceptSignature:
+        'proxy=("@method");keyid="other", client=("@method" "@authority" "content-digest");created;expires;keyid="internal";alg="hmac-sha256";nonce="server-nonce";tag="app"',
+    });
+
+    const headers = await signer.sign({
+      method: 'POST',
+      url: 'https://example.com/api/data',
+      headers: {},
+      body: '{}',
+    });
+
+    const [sigInput] = parseSignatureInput(headers['Signature-Input']);
+    expect(sigInput.label).toBe('client');
+    expect(sigInput.components).toEqual(['@method', '@authority', 'content-digest']);
+    expect(sigInput.alg).toBe('hmac-sha256');
+    expect(sigInput.nonce).toBe('server-nonce');
+    expect(sigInput.tag).toBe('app');
+    expect(sigInput.expires).toBe(sigInput.created! + 300);
+    expect(headers['Content-Digest']).toBeDefined();
+  });
+
+  it('should reject an Accept-Signature it cannot satisfy', async () => {
+    await expect(
+      createSigner({
+        keyId: 'internal',
+        secret: 'shared-secret',
+        algorithm: 'hmac-sha256',
+        components: ['@method'],
+        acceptSignature: 'sig1=("@method");alg="ed25519"',
+      })
+    ).rejects.toThrow('Accept-Signature does not allow');
+  });
 });
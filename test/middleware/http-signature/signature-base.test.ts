@@ -1,4 +1,7 @@
-import { buildSignatureBase } from '../../../src/middleware/http-signature/signature-base.js';
+import {
+  buildSignatureBase,
+  ComponentError,
+} from '../../../src/middleware/http-signature/signature-base.js';
 import type { FastifyRequest } from 'fastify';
 import type { ParsedSignatureInput } from '../../../src/middleware/http-signature/types.js';
 
@@ -10,7 +13,7 @@ function createMockRequest(): FastifyRequest {
       'content-type': 'application/json',
       'content-digest': 'sha-256=:X48E9qOokqqrvdts8nOJRJN3OWDUoyWxBf7kbu9DBPE=:',
     },
-    hostname: 'example.com',
+    host: 'example.com',
     protocol: 'https',
   } as unknown as FastifyRequest;
 }
@@ -49,4 +52,55 @@ describe('buildSignatureBase', () => {
 
     expect(lastLine.startsWith('"@signature-params":')).toBe(true);
   });
+
+  it('should serialize component parameters in lines and signature-params', () => {
+    const request = {
+      ...createMockRequest(),
+      url: '/api/data?foo=bar',
+      headers: { 'example-dict': 'a=1,  b=2' },
+    } as unknown as FastifyRequest;
+    const sigInput: ParsedSignatureInput = {
+      label: 'sig1',
+      components: ['@query-param;name="foo"', 'example-dict;key="b"', 'example-dict;sf'],
+      keyid: 'key1',
+      alg: 'hmac-sha256',
+    };
+
+    const base = buildSignatureBase(request, sigInput);
+
+    expect(base.split('\n')).toEqual([
+      '"@query-param";name="foo": bar',
+      '"example-dict";key="b": 2',
+      '"example-dict";sf: a=1, b=2',
+      '"@signature-params": ("@query-param";name="foo" "example-dict";key="b" "example-dict";sf);keyid="key1";alg="hmac-sha256"',
+    ]);
+  });
+
+  describe('components that cannot be derived', () => {
+    const request = {
+      ...createMockRequest(),
+      url: '/api/data?a=1&a=2',
+      headers: { 'example-dict': 'a=1, b=2', 'x-plain': '"unterminated' },
+    } as unknown as FastifyRequest;
+
+    it.each([
+      ['a repeated @query-param', '@query-param;name="a"'],
+      ['a missing dictionary member', 'example-dict;key="c"'],
+      ['a field that is not a structured field', 'x-plain;sf'],
+      [';bs combined with ;sf', 'example-dict;bs;sf'],
+      [';bs combined with ;key', 'example-dict;bs;key="a"'],
+      [';req without a related request', '@method;req'],
+      ['an absent field', 'content-digest'],
+    ])('should fail on %s', (_case, component) => {
+      const sigInput: ParsedSignatureInput = {
+        label: 'sig1',
+        components: ['@method', component],
+        keyid: 'key1',
+        alg: 'hmac-sha256',
+      };
+
+      expect(() => buildSignatureBase(request, sigInput)).toThrow(ComponentError);
+      expect(() => buildSignatureBase(request, sigInput)).toThrow(component);
+    });
+  });
 });
@@ -0,0 +1,82 @@
+import {
+  Decimal,
+  Token,
+  isInnerList,
+  parseDictionary,
+  parseItem,
+  parseList,
+  parseParameters,
+  serializeBareItem,
+  serializeDictionary,
+  serializeList,
+} from '../../../src/middleware/http-signature/structured-fields.js';
+
+describe('structured fields', () => {
+  describe('parseItem', () => {
+    it('should parse bare item types', () => {
+      expect(parseItem('42').value).toBe(42);
+      expect(parseItem('-1.5').value).toEqual(new Decimal(-1.5));
+      expect(parseItem('"a \\"quoted\\" string"').value).toBe('a "quoted" string');
+      expect(parseItem('foo/bar').value).toEqual(new Token('foo/bar'));
+      expect(parseItem('?1').value).toBe(true);
+      expect(parseItem(':aGVsbG8=:').value).toEqual(new Uint8Array(Buffer.from('hello')));
+    });
+
+    it('should parse parameters', () => {
+      const item = parseItem('"@query-param";name="foo";req');
+
+      expect(item.value).toBe('@query-param');
+      expect(item.params.get('name')).toBe('foo');
+      expect(item.params.get('req')).toBe(true);
+    });
+
+    it('should reject malformed input', () => {
+      expect(() => parseItem('"unterminated')).toThrow();
+      expect(() => parseItem('1.2345')).toThrow();
+      expect(() => parseItem('a b')).toThrow();
+    });
+  });
+
+  describe('parseDictionary', () => {
+    it('should parse members with inner lists and booleans', () => {
+      const dictionary = parseDictionary('a=1, b;x=2,c=("x" "y");p=?0');
+
+      expect(dictionary.get('a')).toEqual({ value: 1, params: new Map() });
+      expect(dictionary.get('b')).toEqual({ value: true, params: new Map([['x', 2]]) });
+
+      const c = dictionary.get('c')!;
+      expect(isInnerList(c)).toBe(true);
+      expect(serializeDictionary(dictionary)).toBe('a=1, b;x=2, c=("x" "y");p=?0');
+    });
+
+    it('should reject uppercase keys and trailing commas', () => {
+      expect(() => parseDictionary('A=1')).toThrow();
+      expect(() => parseDictionary('a=1,')).toThrow();
+    });
+  });
+
+  describe('parseList', () => {
+    it('should normalize whitespace when re-serialized', () => {
+      expect(serializeList(parseList('1,   "two",\t(3 4)'))).toBe('1, "two", (3 4)');
+    });
+  });
+
+  describe('parseParameters', () => {
+    it('should parse a standalone parameter string', () => {
+      expect(parseParameters(';key="a";sf')).toEqual(
+        new Map<string, unknown>([
+          ['key', 'a'],
+          ['sf', true],
+        ])
+      );
+    });
+  });
+
+  describe('serializeBareItem', () => {
+    it('should escape strings and format decimals', () => {
+      expect(serializeBareItem('say "hi"')).toBe('"say \\"hi\\""');
+      expect(serializeBareItem(new Decimal(2))).toBe('2.0');
+      expect(serializeBareItem(new Decimal(0.12345))).toBe('0.123');
+    });
+  });
+});
@@ -1,10 +1,15 @@
 import { verifySignature } from '../../../src/middleware/http-signature/verify.js';
 import type { FastifyRequest } from 'fastify';
-import type { ParsedSignatureInput, ParsedSignature } from '../../../src/middleware/http-signature/types.js';
+import type {
+  ParsedSignatureInput,
+  ParsedSignature,
+} from '../../../src/middleware/http-signature/types.js';
 import '../../../src/middleware/http-signature/algorithms/rsa-pss-sha512.js';
 import { getAlgorithm } from '../../../src/middleware/http-signature/algorithms/index.js';
 import { generateKeyPair } from 'jose';
 import { buildSignatureBase } from '../../../src/middleware/http-signature/signature-base.js';
+import { computeContentDigest } from '../../../src/middleware/http-signature/digest.js';
+import { createMemoryReplayStore } from '../../../src/middleware/http-signature/replay.js';
 
 function createMockRequest(overrides: Partial<FastifyRequest> = {}): FastifyRequest {
   return {
@@ -13,7 +18,7 @@ function createMockRequest(overrides: Partial<FastifyRequest> = {}): FastifyRequ
     headers: {
       'content-type': 'application/json',
     },
-    hostname: 'example.com',
+    host: 'example.com',
     protocol: 'https',
     ...overrides,
   } as FastifyRequest;
@@ -77,7 +82,9 @@ describe('verifySignature', () => {
       resolve: jest.fn().mockResolvedValue(publicKey),
     };
 
-    const result = await verifySignature(request, sigInput, signature, mockResolver, { maxAge: 300 });
+    const result = await verifySignature(request, sigInput, signature, mockResolver, {
+      maxAge: 300,
+    });
 
     expect(result.valid).toBe(false);
     expect(result.error).toBe('signature_expired');
@@ -134,4 +141,244 @@ describe('verifySignature', () => {
     expect(result.valid).toBe(false);
     expect(result.error).toBe('algorithm_not_allowed');
   });
+
+  it('should reject a signature covering a component the request does not have', async () => {
+    const request = createMockRequest({ url: '/api/data?a=1&a=2' });
+    const sigInput: ParsedSignatureInput = {
+      label: 'sig1',
+      components: ['@method', '@query-param;name="a"'],
+      keyid: 'test-key',
+      alg: 'rsa-pss-sha512',
+      created: Math.floor(Date.now() / 1000),
+    };
+    const { publicKey } = await generateKeyPair('PS512');
+    const mockResolver = {
+      resolve: jest.fn().mockResolvedValue(publicKey),
+    };
+
+    const result = await verifySignature(
+      request,
+      sigInput,
+      { label: 'sig1', value: new Uint8Array([1, 2, 3]) },
+      mockResolver,
+      {}
+    );
+
+    expect(result.valid).toBe(false);
+    expect(result.error).toBe('invalid_component');
+  });
+
+  describe('content-digest', () => {
+    const body = '{"amount": 100}';
+
+    async function signWithDigest(request: FastifyRequest) {
+      const { publicKey, privateKey } = await generateKeyPair('PS512');
+      const sigInput: ParsedSignatureInput = {
+        label: 'sig1',
+        components: ['@method', 'content-digest'],
+        keyid: 'test-key',
+        alg: 'rsa-pss-sha512',
+        created: Math.floor(Date.now() / 1000),
+      };
+
+      const algo = getAlgorithm('rsa-pss-sha512')!;
+      const signatureBase = buildSignatureBase(request, sigInput);
+      const signature: ParsedSignature = {
+        label: 'sig1',
+        value: await algo.sign(privateKey, new TextEncoder().encode(signatureBase)),
+      };
+
+      const mockResolver = {
+        resolve: jest.fn().mockResolvedValue(publicKey),
+      };
+
+      return { sigInput, signature, mockResolver };
+    }
+
+    it('should accept a body matching the signed Content-Digest', async () => {
+      const request = createMockRequest({
+        headers: { 'content-digest': computeContentDigest(body) },
+        rawBody: Buffer.from(body),
+      });
+      const { sigInput, signature, mockResolver } = await signWithDigest(request);
+
+      const result = await verifySignature(request, sigInput, signature, mockResolver, {});
+
+      expect(result.valid).toBe(true);
+      expect(result.digest?.algorithm).toBe('sha-256');
+    });
+
+    it('should reject a body that differs from the signed Content-Digest', async () => {
+      const request = createMockRequest({
+        headers: { 'content-digest': computeContentDigest(body) },
+        rawBody: Buffer.from('{"amount": 1000000}'),
+      });
+      const { sigInput, signature, mockResolver } = await signWithDigest(request);
+
+      const result = await verifySignature(request, sigInput, signature, mockResolver, {});
+
+      expect(result.valid).toBe(false);
+      expect(result.error).toBe('digest_mismatch');
+    });
+
+    it('should reject a covered Content-Digest when the header is missing', async () => {
+      const signed = createMockRequest({
+        headers: { 'content-digest': computeContentDigest(body) },
+        rawBody: Buffer.from(body),
+      });
+      const { sigInput, signature, mockResolver } = await signWithDigest(signed);
+      const request = createMockRequest({ headers: {}, rawBody: Buffer.from(body) });
+
+      const result = await verifySignature(request, sigInput, signature, mockResolver, {});
+
+      expect(result.valid).toBe(false);
+      expect(result.error).toBe('invalid_component');
+    });
+  });
+
+  describe('nonce replay protection', () => {
+    async function signWithNonce(
+      request: FastifyRequest,
+      nonce?: string,
+      params: Partial<ParsedSignatureInput> = {}
+    ) {
+      const { publicKey, privateKey } = await generateKeyPair('PS512');
+      const sigInput: ParsedSignatureInput = {
+        label: 'sig1',
+        components: ['@method', '@target-uri'],
+        keyid: 'test-key',
+        alg: 'rsa-pss-sha512',
+        created: Math.floor(Date.now() / 1000),
+        nonce,
+        ...params,
+      };
+
+      const algo = getAlgorithm('rsa-pss-sha512')!;
+      const signatureBase = buildSignatureBase(request, sigInput);
+      const signature: ParsedSignature = {
+        label: 'sig1',
+        value: await algo.sign(privateKey, new TextEncoder().encode(signatureBase)),
+      };
+
+      const mockResolver = {
+        resolve: jest.fn().mockResolvedValue(publicKey),
+      };
+
+      return { sigInput, signature, mockResolver };
+    }
+
+    it('should reject a signature without nonce when required', async () => {
+      const request = createMockRequest();
+      const { sigInput, signature, mockResolver } = await signWithNonce(request);
+
+      const result = await verifySignature(request, sigInput, signature, mockResolver, {
+        requireNonce: true,
+      });
+
+      expect(result.valid).toBe(false);
+      expect(result.error).toBe('nonce_required');
+    });
+
+    it('should reject a replayed nonce', async () => {
+      const request = createMockRequest();
+      const { sigInput, signature, mockResolver } = await signWithNonce(request, 'abc123');
+      const replayStore = createMemoryReplayStore();
+
+      const first = await verifySignature(request, sigInput, signature, mockResolver, {
+        requireNonce: true,
+        replayStore,
+      });
+      const second = await verifySignature(request, sigInput, signature, mockResolver, {
+        requireNonce: true,
+        replayStore,
+      });
+
+      expect(first.valid).toBe(true);
+      expect(second.valid).toBe(false);
+      expect(second.error).toBe('replayed_signature');
+    });
+
+    it('should reject a signature without created when nonces are checked', async () => {
+      const request = createMockRequest();
+      const { sigInput, signature, mockResolver } = await signWithNonce(request, 'abc123', {
+        created: undefined,
+      });
+
+      const result = await verifySignature(request, sigInput, signature, mockResolver, {
+        requireNonce: true,
+        replayStore: createMemoryReplayStore(),
+      });
+
+      expect(result.valid).toBe(false);
+      expect(result.error).toBe('created_required');
+    });
+
+    it('should keep rejecting a replay after maxAge, once its nonce is forgotten', async () => {
+      const request = createMockRequest();
+      const { sigInput, signature, mockResolver } = await signWithNonce(request, 'abc123');
+      const replayStore = createMemoryReplayStore();
+      const options = { maxAge: 1, requireNonce: true, replayStore };
+      const now = Date.now();
+      const clock = jest.spyOn(Date, 'now').mockReturnValue(now);
+
+      try {
+        expect(
+          (await verifySignature(request, sigInput, signature, mockResolver, options)).valid
+        ).toBe(true);
+        expect(
+          (await verifySignature(request, sigInput, signature, mockResolver, options)).error
+        ).toBe('replayed_signature');
+
+        clock.mockReturnValue(now + 2000);
+        const later = await verifySignature(request, sigInput, signature, mockResolver, options);
+
+        expect(later.valid).toBe(false);
+        expect(later.error).toBe('signature_expired');
+      } finally {
+        clock.mockRestore();
+      }
+    });
+
+    it('should remember nonces until the signature expires', async () => {
+      const request = createMockRequest();
+      const created = Math.floor(Date.now() / 1000) - 100;
+      const { sigInput, signature, mockResolver } = await signWithNonce(request, 'abc123', {
+        created,
+      });
+      const replayStore = { checkAndStore: jest.fn().mockResolvedValue(true) };
+
+      await verifySignature(request, sigInput, signature, mockResolver, {
+        maxAge: 300,
+        replayStore,
+      });
+      const expiring = await signWithNonce(request, 'def456', { created, expires: created + 150 });
+      await verifySignature(request, expiring.sigInput, expiring.signature, expiring.mockResolver, {
+        maxAge: 300,
+        replayStore,
+      });
+
+      const windows = replayStore.checkAndStore.mock.calls.map((call) => call[2]);
+      expect(windows[0]).toBeGreaterThanOrEqual(199);
+      expect(windows[0]).toBeLessThanOrEqual(200);
+      expect(windows[1]).toBeGreaterThanOrEqual(49);
+      expect(windows[1]).toBeLessThanOrEqual(50);
+    });
+
+    it('should not record nonces of invalid signatures', async () => {
+      const request = createMockRequest();
+      const { sigInput, mockResolver } = await signWithNonce(request, 'abc123');
+      const replayStore = { checkAndStore: jest.fn().mockResolvedValue(true) };
+
+      const result = await verifySignature(
+        request,
+        sigInput,
+        { label: 'sig1', value: new Uint8Array([1, 2, 3]) },
+        mockResolver,
+        { replayStore }
+      );
+
+      expect(result.valid).toBe(false);
+      expect(replayStore.checkAndStore).not.toHaveBeenCalled();
+    });
+  });
 });
@@ -0,0 +1,241 @@
+import { FastifyReply } from 'fastify';
+import { introspectionAuth } from '../../src/middleware/introspection-auth.js';
+import { CacheService } from '../../src/plugins/cache.plugin.js';
+import { OAuth2Error } from '../../src/services/oauth2/errors.js';
+
+function createMockServer() {
+  return {
+    oauth2: { introspect: jest.fn() },
+    cache: new CacheService(),
+  };
+}
+
+function createMockRequest(server: ReturnType<typeof createMockServer>, authHeader?: string) {
+  return {
+    headers: { authorization: authHeader },
+    user: undefined as any,
+    server,
+    log: { warn: jest.fn(), error: jest.fn() },
+  };
+}
+
+function createMockReply() {
+  const reply = {
+    statusCode: 200,
+    body: null as any,
+    headers: {} as Record<string, string>,
+    code: jest.fn(),
+    send: jest.fn(),
+    header: jest.fn(),
+  };
+  reply.code.mockImplementation((code: number) => {
+    reply.statusCode = code;
+    return reply;
+  });
+  reply.send.mockImplementation((body: any) => {
+    reply.body = body;
+    return reply;
+  });
+  reply.header.mockImplementation((name: string, value: string) => {
+    reply.headers[name.toLowerCase()] = value;
+    return reply;
+  });
+  return reply;
+}
+
+async function callMiddleware(
+  middleware: ReturnType<typeof introspectionAuth>,
+  request: ReturnType<typeof createMockRequest>,
+  reply: ReturnType<typeof createMockReply>
+) {
+  return middleware.call({} as any, request as any, reply as unknown as FastifyReply, jest.fn());
+}
+
+const inOneHour = () => Math.floor(Date.now() / 1000) + 3600;
+
+describe('introspectionAuth middleware', () => {
+  let server: ReturnType<typeof createMockServer>;
+
+  beforeEach(() => {
+    server = createMockServer();
+  });
+
+  it('should challenge requests without a bearer token', async () => {
+    const reply = createMockReply();
+
+    await callMiddleware(
+      introspectionAuth(undefined, { provider: 'idp' }),
+      createMockRequest(server),
+      reply
+    );
+
+    expect(reply.statusCode).toBe(401);
+    expect(reply.headers['www-authenticate']).toBe('Bearer realm="api"');
+    expect(server.oauth2.introspect).not.toHaveBeenCalled();
+  });
+
+  it('should populate request.user with JWT-shaped claims', async () => {
+    const exp = inOneHour();
+    server.oauth2.introspect.mockResolvedValue({
+      active: true,
+      token_type: 'Bearer',
+      sub: 'user-123',
+      scope: 'read write',
+      client_id: 'web-app',
+      iss: 'https://idp.example.com',
+      exp,
+    });
+
+    const request = createMockRequest(server, 'Bearer opaque-token');
+    const reply = createMockReply();
+    await callMiddleware(introspectionAuth(undefined, { provider: 'idp' }), request, reply);
+
+    expect(server.oauth2.introspect).toHaveBeenCalledWith('idp', 'opaque-token');
+    expect(reply.code).not.toHaveBeenCalled();
+    expect(request.user).toEqual({
+      sub: 'user-123',
+      scope: 'read write',
+      client_id: 'web-app',
+      iss: 'https://idp.example.com',
+      exp,
+    });
+  });
+
+  it('should cache active results until exp', async () => {
+    jest.useFakeTimers();
+    try {
+      server.oauth2.introspect.mockResolvedValue({
+        active: true,
+        sub: 'user-123',
+        exp: inOneHour(),
+      });
+      const middleware = introspectionAuth(undefined, { provider: 'idp' });
+
+      await callMiddleware(
+        middleware,
+        createMockRequest(server, 'Bearer opaque-token'),
+        createMockReply()
+      );
+      await callMiddleware(
+        middleware,
+        createMockRequest(server, 'Bearer opaque-token'),
+        createMockReply()
+      );
+      expect(server.oauth2.introspect).toHaveBeenCalledTimes(1);
+
+      jest.advanceTimersByTime(3601 * 1000);
+      server.oauth2.introspect.mockResolvedValue({ active: false });
+
+      const reply = createMockReply();
+      await callMiddleware(middleware, createMockRequest(server, 'Bearer opaque-token'), reply);
+      expect(server.oauth2.introspect).toHaveBeenCalledTimes(2);
+      expect(reply.statusCode).toBe(401);
+    } finally {
+      jest.useRealTimers();
+    }
+  });
+
+  it('should not cache the token itself', async () => {
+    server.oauth2.introspect.mockResolvedValue({ active: true, exp: inOneHour() });
+
+    await callMiddleware(
+      introspectionAuth(undefined, { provider: 'idp' }),
+      createMockRequest(server, 'Bearer opaque-token'),
+      createMockReply()
+    );
+
+    const cache = server.cache.getCache('token-introspection');
+    expect(cache.keys().some((key) => key.includes('opaque-token'))).toBe(false);
+    expect(cache.size).toBe(1);
+  });
+
+  it('should introspect tokens without exp on every request', async () => {
+    server.oauth2.introspect.mockResolvedValue({ active: true, sub: 'user-123' });
+    const middleware = introspectionAuth(undefined, { provider: 'idp' });
+
+    await callMiddleware(
+      middleware,
+      createMockRequest(server, 'Bearer opaque-token'),
+      createMockReply()
+    );
+    await callMiddleware(
+      middleware,
+      createMockRequest(server, 'Bearer opaque-token'),
+      createMockReply()
+    );
+
+    expect(server.oauth2.introspect).toHaveBeenCalledTimes(2);
+  });
+
+  it.each([
+    ['inactive', { active: false }],
+    ['expired', { active: true, exp: Math.floor(Date.now() / 1000) - 10 }],
+  ])('should reject %s tokens with invalid_token', async (_case, result) => {
+    server.oauth2.introspect.mockResolvedValue(result);
+
+    const request = createMockRequest(server, 'Bearer opaque-token');
+    const reply = createMockReply();
+    await callMiddleware(introspectionAuth(undefined, { provider: 'idp' }), request, reply);
+
+    expect(reply.statusCode).toBe(401);
+    expect(reply.headers['www-authenticate']).toBe(
+      'Bearer realm="api", error="invalid_token", error_description="Token is not active"'
+    );
+    expect(reply.body).toEqual({
+      error: 'Unauthorized',
+      message: 'Token is not active',
+      reason: 'token_inactive',
+    });
+    expect(server.cache.getCache('token-introspection').size).toBe(0);
+  });
+
+  it('should return 503 when the introspection endpoint fails', async () => {
+    server.oauth2.introspect.mockRejectedValue(
+      new OAuth2Error('Token introspection failed: oops', 'introspection_failed', 'idp', 500)
+    );
+
+    const request = createMockRequest(server, 'Bearer opaque-token');
+    const reply = createMockReply();
+    await callMiddleware(introspectionAuth(undefined, { provider: 'idp' }), request, reply);
+
+    expect(reply.statusCode).toBe(503);
+    expect(reply.body).toEqual({
+      error: 'Service Unavailable',
+      message: 'Token introspection unavailable',
+    });
+    expect(request.log.error).toHaveBeenCalledWith(
+      { provider: 'idp', err: 'Token introspection failed: oops' },
+      'Token introspection failed'
+    );
+  });
+
+  it('should enforce scope requirements', async () => {
+    server.oauth2.introspect.mockResolvedValue({ active: true, scope: 'read', exp: inOneHour() });
+
+    const reply = createMockReply();
+    await callMiddleware(
+      introspectionAuth('admin', { provider: 'idp' }),
+      createMockRequest(server, 'Bearer opaque-token'),
+      reply
+    );
+
+    expect(reply.statusCode).toBe(403);
+    expect(reply.body).toEqual({
+      error: 'Forbidden',
+      message: 'Insufficient permissions: requires admin',
+      missing: ['admin'],
+    });
+  });
+
+  it('should return 500 when no provider is configured', async () => {
+    const reply = createMockReply();
+    await callMiddleware(
+      introspectionAuth(),
+      createMockRequest(server, 'Bearer opaque-token'),
+      reply
+    );
+
+    expect(reply.statusCode).toBe(500);
+    expect(reply.body.error).toBe('configuration_error');
+  });
+});
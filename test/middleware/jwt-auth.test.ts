@@ -1,14 +1,28 @@
+import { createHash } from 'node:crypto';
 import { jwtAuth } from '../../src/middleware/jwt-auth.js';
-import { jwtVerify, JWTPayload } from 'jose';
+import { createRemoteJWKSet, jwtVerify, JWTPayload } from 'jose';
 import { FastifyReply } from 'fastify';
+import { config } from '../../src/config/index.js';
+import { resetIssuerKeySets } from '../../src/middleware/jwt-issuers.js';
 
 const mockJwtVerify = jwtVerify as jest.MockedFunction<typeof jwtVerify>;
+const mockCreateRemoteJWKSet = createRemoteJWKSet as jest.Mock;
 
 interface MockRequest {
   headers: {
     authorization?: string;
   };
   user?: JWTPayload;
+  server?: {
+    revocation?: { isRevoked: jest.Mock };
+  };
+  raw?: {
+    socket: object;
+  };
+  log: {
+    warn: jest.Mock;
+    error?: jest.Mock;
+  };
 }
 
 function createMockRequest(authHeader?: string): MockRequest {
@@ -17,23 +31,43 @@ function createMockRequest(authHeader?: string): MockRequest {
       authorization: authHeader,
     },
     user: undefined,
+    log: {
+      warn: jest.fn(),
+    },
   };
 }
 
+function unsignedToken(payload: JWTPayload): string {
+  const encode = (value: object) => Buffer.from(JSON.stringify(value)).toString('base64url');
+  return `${encode({ alg: 'RS256' })}.${encode(payload)}.signature`;
+}
+
+function joseError(code: string, message: string, claim?: string): Error {
+  return Object.assign(new Error(message), { code, claim });
+}
+
 interface MockReply {
   statusCode: number;
   body: any;
+  headers: Record<string, string>;
   code: jest.Mock;
   send: jest.Mock;
+  header: jest.Mock;
 }
 
 function createMockReply(): MockReply {
   const reply: MockReply = {
     statusCode: 200,
     body: null,
+    headers: {},
     code: jest.fn(),
     send: jest.fn(),
+    header: jest.fn(),
   };
+  reply.header.mockImplementation((name: string, value: string) => {
+    reply.headers[name.toLowerCase()] = value;
+    return reply;
+  });
   reply.code.mockImplementation((code: number) => {
     reply.statusCode = code;
     return reply;
@@ -100,6 +134,7 @@ describe('jwtAuth middleware', () => {
       expect(reply.send).toHaveBeenCalledWith({
         error: 'Unauthorized',
         message: 'Invalid or missing token',
+        reason: 'invalid_token',
       });
     });
 
@@ -190,7 +225,8 @@ describe('jwtAuth middleware', () => {
       expect(reply.code).toHaveBeenCalledWith(403);
       expect(reply.send).toHaveBeenCalledWith({
         error: 'Forbidden',
-        message: 'Insufficient permissions',
+        message: 'Insufficient permissions: requires admin',
+        missing: ['admin'],
       });
     });
 
@@ -603,4 +639,677 @@ describe('jwtAuth middleware', () => {
       expect(reply.code).not.toHaveBeenCalled();
     });
   });
+
+  describe('claim validation options', () => {
+    const originalJwt = { ...config.jwt };
+
+    afterEach(() => {
+      Object.assign(config.jwt, originalJwt);
+    });
+
+    function mockValidToken() {
+      mockJwtVerify.mockResolvedValueOnce({
+        payload: { sub: 'user-123' },
+        protectedHeader: { alg: 'RS256' },
+      } as any);
+    }
+
+    it('should only pass clock tolerance when nothing else is configured', async () => {
+      mockValidToken();
+
+      await callMiddleware(jwtAuth(), createMockRequest('Bearer valid-token'), createMockReply());
+
+      expect(mockJwtVerify).toHaveBeenCalledWith('valid-token', expect.any(Function), {
+        clockTolerance: 0,
+      });
+    });
+
+    it('should pass issuers, audiences, algorithms and age limits from config', async () => {
+      Object.assign(config.jwt, {
+        issuers: ['https://auth.example.com/'],
+        audiences: ['api://orders', 'api://billing'],
+        algorithms: ['RS256', 'ES256'],
+        maxTokenAge: 3600,
+        clockTolerance: 30,
+      });
+      mockValidToken();
+
+      await callMiddleware(jwtAuth(), createMockRequest('Bearer valid-token'), createMockReply());
+
+      expect(mockJwtVerify).toHaveBeenCalledWith('valid-token', expect.any(Function), {
+        issuer: ['https://auth.example.com/'],
+        audience: ['api://orders', 'api://billing'],
+        algorithms: ['RS256', 'ES256'],
+        maxTokenAge: 3600,
+        clockTolerance: 30,
+      });
+    });
+
+    it('should let route options override config', async () => {
+      Object.assign(config.jwt, {
+        issuers: ['https://auth.example.com/'],
+        audiences: ['api://orders'],
+        clockTolerance: 30,
+      });
+      mockValidToken();
+
+      const middleware = jwtAuth('read', {
+        issuer: 'https://partner.example.com/',
+        audience: 'api://partner',
+        algorithms: ['EdDSA'],
+        maxTokenAge: '10m',
+        clockTolerance: 5,
+      });
+      await callMiddleware(middleware, createMockRequest('Bearer valid-token'), createMockReply());
+
+      expect(mockJwtVerify).toHaveBeenCalledWith('valid-token', expect.any(Function), {
+        issuer: 'https://partner.example.com/',
+        audience: 'api://partner',
+        algorithms: ['EdDSA'],
+        maxTokenAge: '10m',
+        clockTolerance: 5,
+      });
+    });
+  });
+
+  describe('rejection reasons', () => {
+    it.each([
+      [
+        'token_expired',
+        'Token has expired',
+        joseError('ERR_JWT_EXPIRED', '"exp" claim timestamp check failed', 'exp'),
+      ],
+      [
+        'invalid_issuer',
+        'Token issuer is not accepted',
+        joseError('ERR_JWT_CLAIM_VALIDATION_FAILED', 'unexpected "iss" claim value', 'iss'),
+      ],
+      [
+        'invalid_audience',
+        'Token audience is not accepted',
+        joseError('ERR_JWT_CLAIM_VALIDATION_FAILED', 'unexpected "aud" claim value', 'aud'),
+      ],
+      [
+        'token_not_yet_valid',
+        'Token is not yet valid',
+        joseError('ERR_JWT_CLAIM_VALIDATION_FAILED', '"nbf" claim timestamp check failed', 'nbf'),
+      ],
+      [
+        'token_too_old',
+        'Token exceeds maximum age',
+        joseError(
+          'ERR_JWT_CLAIM_VALIDATION_FAILED',
+          '"iat" claim timestamp check failed (too far in the past)',
+          'iat'
+        ),
+      ],
+      [
+        'invalid_claims',
+        'Token claim "sub" is invalid',
+        joseError('ERR_JWT_CLAIM_VALIDATION_FAILED', 'missing required "sub" claim', 'sub'),
+      ],
+      [
+        'algorithm_not_allowed',
+        'Token algorithm is not allowed',
+        joseError(
+          'ERR_JOSE_ALG_NOT_ALLOWED',
+          '"alg" (Algorithm) Header Parameter value not allowed'
+        ),
+      ],
+      [
+        'unknown_key',
+        'Token signing key not found',
+        joseError('ERR_JWKS_NO_MATCHING_KEY', 'no applicable key found in the JSON Web Key Set'),
+      ],
+      [
+        'invalid_signature',
+        'Token signature is invalid',
+        joseError('ERR_JWS_SIGNATURE_VERIFICATION_FAILED', 'signature verification failed'),
+      ],
+      [
+        'malformed_token',
+        'Token is malformed',
+        joseError('ERR_JWS_INVALID', 'Invalid Compact JWS'),
+      ],
+      [
+        'invalid_token',
+        'Invalid or missing token',
+        joseError('ERR_JWKS_TIMEOUT', 'request timed out'),
+      ],
+    ])('should report %s', async (reason, message, error) => {
+      mockJwtVerify.mockRejectedValueOnce(error);
+
+      const request = createMockRequest('Bearer rejected-token');
+      const reply = createMockReply();
+
+      await callMiddleware(jwtAuth(), request, reply);
+
+      expect(reply.code).toHaveBeenCalledWith(401);
+      expect(reply.send).toHaveBeenCalledWith({ error: 'Unauthorized', message, reason });
+    });
+
+    it('should log the rejection reason and jose message', async () => {
+      mockJwtVerify.mockRejectedValueOnce(
+        joseError('ERR_JWT_CLAIM_VALIDATION_FAILED', 'unexpected "aud" claim value', 'aud')
+      );
+
+      const request = createMockRequest('Bearer rejected-token');
+
+      await callMiddleware(jwtAuth(), request, createMockReply());
+
+      expect(request.log.warn).toHaveBeenCalledWith(
+        { reason: 'invalid_audience', err: 'unexpected "aud" claim value' },
+        'JWT rejected'
+      );
+    });
+  });
+
+  describe('issuer registry', () => {
+    const originalJwt = { ...config.jwt };
+
+    beforeEach(() => {
+      resetIssuerKeySets();
+      Object.assign(config.jwt, {
+        trustedIssuers: {
+          corp: {
+            issuer: 'https://login.corp.example.com/',
+            jwksUrl: 'https://login.corp.example.com/keys',
+            audiences: ['api://gateway'],
+            algorithms: ['RS256'],
+            claims: {},
+          },
+          partner: {
+            issuer: 'https://idp.partner.example.net',
+            jwksUrl: 'https://idp.partner.example.net/jwks',
+            audiences: [],
+            algorithms: [],
+            claims: { scope: 'scp' },
+          },
+        },
+      });
+    });
+
+    afterEach(() => {
+      Object.assign(config.jwt, originalJwt);
+    });
+
+    it('should verify with the key set and settings of the token issuer', async () => {
+      const token = unsignedToken({ iss: 'https://login.corp.example.com/' });
+      mockJwtVerify.mockResolvedValueOnce({
+        payload: { iss: 'https://login.corp.example.com/', sub: 'u1' },
+        protectedHeader: { alg: 'RS256' },
+      } as any);
+
+      const request = createMockRequest(`Bearer ${token}`);
+      const reply = createMockReply();
+      await callMiddleware(jwtAuth(), request, reply);
+
+      expect(reply.code).not.toHaveBeenCalled();
+      expect(mockCreateRemoteJWKSet).toHaveBeenCalledWith(
+        new URL('https://login.corp.example.com/keys')
+      );
+      expect(mockJwtVerify).toHaveBeenCalledWith(token, expect.any(Function), {
+        issuer: ['https://login.corp.example.com/'],
+        audience: ['api://gateway'],
+        algorithms: ['RS256'],
+        clockTolerance: 0,
+      });
+    });
+
+    it('should fall back to global audiences and let route options override', async () => {
+      Object.assign(config.jwt, { audiences: ['api://shared'] });
+      const token = unsignedToken({ iss: 'https://idp.partner.example.net' });
+      mockJwtVerify
+        .mockResolvedValueOnce({ payload: {}, protectedHeader: { alg: 'RS256' } } as any)
+        .mockResolvedValueOnce({ payload: {}, protectedHeader: { alg: 'RS256' } } as any);
+
+      await callMiddleware(jwtAuth(), createMockRequest(`Bearer ${token}`), createMockReply());
+      await callMiddleware(
+        jwtAuth(undefined, { audience: 'api://partner' }),
+        createMockRequest(`Bearer ${token}`),
+        createMockReply()
+      );
+
+      expect(mockJwtVerify).toHaveBeenNthCalledWith(1, token, expect.any(Function), {
+        issuer: ['https://idp.partner.example.net'],
+        audience: ['api://shared'],
+        clockTolerance: 0,
+      });
+      expect(mockJwtVerify).toHaveBeenNthCalledWith(2, token, expect.any(Function), {
+        issuer: ['https://idp.partner.example.net'],
+        audience: 'api://partner',
+        clockTolerance: 0,
+      });
+    });
+
+    it('should take the issuer from the route, then JWT_ISSUERS, then the registry', async () => {
+      Object.assign(config.jwt, { issuers: ['https://login.corp.example.com/'] });
+      const token = unsignedToken({ iss: 'https://idp.partner.example.net' });
+      const verified = { payload: {}, protectedHeader: { alg: 'RS256' } } as any;
+      mockJwtVerify
+        .mockResolvedValueOnce(verified)
+        .mockResolvedValueOnce(verified)
+        .mockResolvedValueOnce(verified);
+
+      await callMiddleware(
+        jwtAuth(undefined, { issuer: 'https://idp.partner.example.net' }),
+        createMockRequest(`Bearer ${token}`),
+        createMockReply()
+      );
+      await callMiddleware(jwtAuth(), createMockRequest(`Bearer ${token}`), createMockReply());
+      Object.assign(config.jwt, { issuers: [] });
+      await callMiddleware(jwtAuth(), createMockRequest(`Bearer ${token}`), createMockReply());
+
+      const issuers = mockJwtVerify.mock.calls.map(([, , options]) => options?.issuer);
+      expect(issuers).toEqual([
+        'https://idp.partner.example.net',
+        ['https://login.corp.example.com/'],
+        ['https://idp.partner.example.net'],
+      ]);
+    });
+
+    it('should map issuer claims before checking scopes', async () => {
+      const token = unsignedToken({ iss: 'https://idp.partner.example.net' });
+      mockJwtVerify.mockResolvedValueOnce({
+        payload: { iss: 'https://idp.partner.example.net', scp: 'orders:read' },
+        protectedHeader: { alg: 'RS256' },
+      } as any);
+
+      const request = createMockRequest(`Bearer ${token}`);
+      const reply = createMockReply();
+      await callMiddleware(jwtAuth('orders:read'), request, reply);
+
+      expect(reply.code).not.toHaveBeenCalled();
+      expect(request.user).toEqual({
+        iss: 'https://idp.partner.example.net',
+        scp: 'orders:read',
+        scope: 'orders:read',
+      });
+    });
+
+    it('should reject unknown issuers before fetching any keys', async () => {
+      const token = unsignedToken({ iss: 'https://evil.example.com' });
+
+      const request = createMockRequest(`Bearer ${token}`);
+      const reply = createMockReply();
+      await callMiddleware(jwtAuth(), request, reply);
+
+      expect(mockCreateRemoteJWKSet).not.toHaveBeenCalled();
+      expect(mockJwtVerify).not.toHaveBeenCalled();
+      expect(reply.code).toHaveBeenCalledWith(401);
+      expect(reply.send).toHaveBeenCalledWith({
+        error: 'Unauthorized',
+        message: 'Token issuer is not trusted',
+        reason: 'unknown_issuer',
+      });
+      expect(request.log.warn).toHaveBeenCalledWith(
+        { reason: 'unknown_issuer', err: 'Untrusted issuer: https://evil.example.com' },
+        'JWT rejected'
+      );
+    });
+
+    it('should reject tokens without an iss claim', async () => {
+      const reply = createMockReply();
+      await callMiddleware(
+        jwtAuth(),
+        createMockRequest(`Bearer ${unsignedToken({ sub: 'u1' })}`),
+        reply
+      );
+
+      expect(reply.send).toHaveBeenCalledWith(
+        expect.objectContaining({ reason: 'unknown_issuer' })
+      );
+    });
+
+    it('should reject malformed tokens before fetching any keys', async () => {
+      const reply = createMockReply();
+      await callMiddleware(jwtAuth(), createMockRequest('Bearer not-a-jwt'), reply);
+
+      expect(mockJwtVerify).not.toHaveBeenCalled();
+      expect(reply.send).toHaveBeenCalledWith(
+        expect.objectContaining({ reason: 'malformed_token' })
+      );
+    });
+  });
+
+  describe('scope and role expressions', () => {
+    it('should accept any satisfied alternative', async () => {
+      mockJwtVerify.mockResolvedValueOnce({
+        payload: { scope: 'users:write users:read' },
+        protectedHeader: { alg: 'RS256' },
+      } as any);
+
+      const reply = createMockReply();
+      await callMiddleware(
+        jwtAuth('admin OR (users:write AND users:read)'),
+        createMockRequest('Bearer valid-token'),
+        reply
+      );
+
+      expect(reply.code).not.toHaveBeenCalled();
+    });
+
+    it('should name the missing permissions of the closest alternative', async () => {
+      mockJwtVerify.mockResolvedValueOnce({
+        payload: { scope: 'users:read' },
+        protectedHeader: { alg: 'RS256' },
+      } as any);
+
+      const reply = createMockReply();
+      await callMiddleware(
+        jwtAuth('role(admin) AND admin OR (users:write AND users:read)'),
+        createMockRequest('Bearer valid-token'),
+        reply
+      );
+
+      expect(reply.code).toHaveBeenCalledWith(403);
+      expect(reply.send).toHaveBeenCalledWith({
+        error: 'Forbidden',
+        message: 'Insufficient permissions: requires users:write',
+        missing: ['users:write'],
+      });
+    });
+
+    it('should check Keycloak realm roles', async () => {
+      mockJwtVerify.mockResolvedValueOnce({
+        payload: { realm_access: { roles: ['editor'] } },
+        protectedHeader: { alg: 'RS256' },
+      } as any);
+
+      const reply = createMockReply();
+      await callMiddleware(jwtAuth('role(editor)'), createMockRequest('Bearer valid-token'), reply);
+
+      expect(reply.code).not.toHaveBeenCalled();
+    });
+
+    it('should throw at creation for malformed expressions', () => {
+      expect(() => jwtAuth('admin AND (read')).toThrow('Missing ")" in policy "admin AND (read"');
+    });
+  });
+
+  describe('WWW-Authenticate challenges', () => {
+    it('should send a bare challenge when no bearer token is presented', async () => {
+      for (const header of [undefined, 'Basic dXNlcjpwYXNz']) {
+        const reply = createMockReply();
+        await callMiddleware(jwtAuth(), createMockRequest(header), reply);
+
+        expect(reply.statusCode).toBe(401);
+        expect(reply.headers['www-authenticate']).toBe('Bearer realm="api"');
+      }
+    });
+
+    it('should accept the scheme case-insensitively', async () => {
+      const reply = createMockReply();
+      await callMiddleware(jwtAuth(), createMockRequest('bearer valid-token'), reply);
+
+      expect(mockJwtVerify).toHaveBeenCalledWith(
+        'valid-token',
+        expect.any(Function),
+        expect.any(Object)
+      );
+      expect(reply.code).not.toHaveBeenCalled();
+    });
+
+    it.each(['Bearer', 'Bearer ', 'Bearer two tokens', 'Bearer bad"token'])(
+      'should return 400 invalid_request for %j',
+      async (header) => {
+        const reply = createMockReply();
+        await callMiddleware(jwtAuth(), createMockRequest(header), reply);
+
+        expect(mockJwtVerify).not.toHaveBeenCalled();
+        expect(reply.statusCode).toBe(400);
+        expect(reply.headers['www-authenticate']).toBe(
+          'Bearer realm="api", error="invalid_request", error_description="Malformed bearer token"'
+        );
+        expect(reply.body).toEqual({
+          error: 'Bad Request',
+          message: 'Malformed bearer token',
+          reason: 'invalid_request',
+        });
+      }
+    );
+
+    it.each([
+      ['ERR_JWT_EXPIRED', 'Token has expired'],
+      ['ERR_JWS_SIGNATURE_VERIFICATION_FAILED', 'Token signature is invalid'],
+      ['ERR_JWT_INVALID', 'Token is malformed'],
+    ])('should describe %s in an invalid_token challenge', async (code, description) => {
+      mockJwtVerify.mockRejectedValueOnce(joseError(code, 'rejected'));
+
+      const reply = createMockReply();
+      await callMiddleware(jwtAuth(), createMockRequest('Bearer some.jwt.token'), reply);
+
+      expect(reply.statusCode).toBe(401);
+      expect(reply.headers['www-authenticate']).toBe(
+        `Bearer realm="api", error="invalid_token", error_description="${description}"`
+      );
+    });
+
+    it('should strip quotes from descriptions', async () => {
+      mockJwtVerify.mockRejectedValueOnce(
+        joseError('ERR_JWT_CLAIM_VALIDATION_FAILED', 'missing required "sub" claim', 'sub')
+      );
+
+      const reply = createMockReply();
+      await callMiddleware(jwtAuth(), createMockRequest('Bearer some.jwt.token'), reply);
+
+      expect(reply.headers['www-authenticate']).toBe(
+        'Bearer realm="api", error="invalid_token", error_description="Token claim sub is invalid"'
+      );
+    });
+
+    it('should list the missing scopes in an insufficient_scope challenge', async () => {
+      mockJwtVerify.mockResolvedValueOnce({
+        payload: { scope: 'users:read' },
+        protectedHeader: { alg: 'RS256' },
+      } as any);
+
+      const reply = createMockReply();
+      await callMiddleware(
+        jwtAuth('admin OR (users:write AND users:read AND role(editor))'),
+        createMockRequest('Bearer valid-token'),
+        reply
+      );
+
+      expect(reply.statusCode).toBe(403);
+      expect(reply.headers['www-authenticate']).toBe(
+        'Bearer realm="api", error="insufficient_scope", ' +
+          'error_description="Insufficient permissions: requires admin", scope="admin"'
+      );
+    });
+
+    it('should omit scope when only roles are missing', async () => {
+      mockJwtVerify.mockResolvedValueOnce({
+        payload: { scope: 'read' },
+        protectedHeader: { alg: 'RS256' },
+      } as any);
+
+      const reply = createMockReply();
+      await callMiddleware(jwtAuth('role(admin)'), createMockRequest('Bearer valid-token'), reply);
+
+      expect(reply.headers['www-authenticate']).toBe(
+        'Bearer realm="api", error="insufficient_scope", ' +
+          'error_description="Insufficient permissions: requires role(admin)"'
+      );
+    });
+  });
+
+  describe('revocation', () => {
+    function withRevocation(isRevoked: jest.Mock): MockRequest {
+      const request = createMockRequest('Bearer valid-token');
+      request.server = { revocation: { isRevoked } };
+      request.log.error = jest.fn();
+      return request;
+    }
+
+    it('should reject a revoked token with token_revoked', async () => {
+      const isRevoked = jest.fn().mockResolvedValue(true);
+      const request = withRevocation(isRevoked);
+      const reply = createMockReply();
+
+      await callMiddleware(jwtAuth(), request, reply);
+
+      expect(isRevoked).toHaveBeenCalledWith(expect.objectContaining({ sub: 'test-user-123' }));
+      expect(reply.statusCode).toBe(401);
+      expect(reply.headers['www-authenticate']).toBe(
+        'Bearer realm="api", error="invalid_token", error_description="Token has been revoked"'
+      );
+      expect(reply.body).toEqual({
+        error: 'Unauthorized',
+        message: 'Token has been revoked',
+        reason: 'token_revoked',
+      });
+      expect(request.user).toBeUndefined();
+    });
+
+    it('should accept a token that is not revoked', async () => {
+      const request = withRevocation(jest.fn().mockResolvedValue(false));
+      const reply = createMockReply();
+
+      await callMiddleware(jwtAuth(), request, reply);
+
+      expect(reply.code).not.toHaveBeenCalled();
+      expect(request.user).toBeDefined();
+    });
+
+    it('should fail closed with 503 when the check errors', async () => {
+      const request = withRevocation(jest.fn().mockRejectedValue(new Error('Redis down')));
+      const reply = createMockReply();
+
+      await callMiddleware(jwtAuth(), request, reply);
+
+      expect(reply.statusCode).toBe(503);
+      expect(request.log.error).toHaveBeenCalled();
+      expect(request.user).toBeUndefined();
+    });
+  });
+
+  describe('DPoP', () => {
+    const DPOP_ALGS = 'algs="ES256 RS256 PS256 EdDSA"';
+
+    it('should reject a bound token sent as a bearer token', async () => {
+      mockJwtVerify.mockResolvedValueOnce({
+        payload: { sub: 'user123', cnf: { jkt: 'thumbprint' } },
+        protectedHeader: { alg: 'RS256' },
+      } as any);
+
+      const reply = createMockReply();
+      await callMiddleware(jwtAuth(), createMockRequest('Bearer bound-token'), reply);
+
+      expect(reply.statusCode).toBe(401);
+      expect(reply.headers['www-authenticate']).toBe(
+        'DPoP realm="api", error="invalid_token", ' +
+          `error_description="DPoP-bound token must use the DPoP scheme", ${DPOP_ALGS}`
+      );
+      expect(reply.body.reason).toBe('invalid_token');
+    });
+
+    it('should reject an unbound token sent with the DPoP scheme', async () => {
+      const reply = createMockReply();
+      await callMiddleware(jwtAuth(), createMockRequest('DPoP valid-token'), reply);
+
+      expect(reply.statusCode).toBe(401);
+      expect(reply.body.message).toBe('Token is not DPoP-bound');
+    });
+
+    it('should report proof failures as invalid_dpop_proof', async () => {
+      mockJwtVerify.mockResolvedValueOnce({
+        payload: { sub: 'user123', cnf: { jkt: 'thumbprint' } },
+        protectedHeader: { alg: 'RS256' },
+      } as any);
+
+      const reply = createMockReply();
+      // No DPoP header on the request
+      await callMiddleware(jwtAuth(), createMockRequest('DPoP bound-token'), reply);
+
+      expect(reply.statusCode).toBe(401);
+      expect(reply.headers['www-authenticate']).toBe(
+        'DPoP realm="api", error="invalid_dpop_proof", ' +
+          `error_description="Exactly one DPoP proof is required", ${DPOP_ALGS}`
+      );
+    });
+
+    it('should challenge bearer tokens with DPoP when DPoP is required', async () => {
+      const reply = createMockReply();
+      await callMiddleware(
+        jwtAuth(undefined, { dpop: true }),
+        createMockRequest('Bearer valid-token'),
+        reply
+      );
+
+      expect(mockJwtVerify).not.toHaveBeenCalled();
+      expect(reply.statusCode).toBe(401);
+      expect(reply.headers['www-authenticate']).toBe('DPoP realm="api"');
+    });
+  });
+
+  describe('certificate-bound tokens', () => {
+    const certificate = Buffer.from('client-certificate-der');
+    const thumbprint = createHash('sha256').update(certificate).digest('base64url');
+
+    function overTls(raw?: Buffer): MockRequest {
+      const request = createMockRequest('Bearer bound-token');
+      request.raw = {
+        socket: {
+          encrypted: true,
+          authorized: true,
+          getPeerCertificate: () => (raw ? { raw } : {}),
+        },
+      };
+      return request;
+    }
+
+    function boundToken() {
+      mockJwtVerify.mockResolvedValueOnce({
+        payload: { sub: 'billing', cnf: { 'x5t#S256': thumbprint } },
+        protectedHeader: { alg: 'RS256' },
+      } as any);
+    }
+
+    it('should accept a bound token presented with its certificate', async () => {
+      boundToken();
+      const request = overTls(certificate);
+      const reply = createMockReply();
+
+      await callMiddleware(jwtAuth(), request, reply);
+
+      expect(reply.code).not.toHaveBeenCalled();
+      expect(request.user).toEqual(expect.objectContaining({ sub: 'billing' }));
+    });
+
+    it('should reject a bound token presented with another certificate', async () => {
+      boundToken();
+      const request = overTls(Buffer.from('other-certificate-der'));
+      const reply = createMockReply();
+
+      await callMiddleware(jwtAuth(), request, reply);
+
+      expect(reply.statusCode).toBe(401);
+      expect(reply.headers['www-authenticate']).toBe(
+        'Bearer realm="api", error="invalid_token", ' +
+          'error_description="Token is bound to a different client certificate"'
+      );
+      expect(reply.body.reason).toBe('certificate_mismatch');
+      expect(request.user).toBeUndefined();
+    });
+
+    it('should reject a bound token without a client certificate', async () => {
+      boundToken();
+      const reply = createMockReply();
+
+      await callMiddleware(jwtAuth(), createMockRequest('Bearer bound-token'), reply);
+
+      expect(reply.statusCode).toBe(401);
+      expect(reply.body.reason).toBe('certificate_mismatch');
+    });
+
+    it('should not require a certificate for unbound tokens', async () => {
+      const request = overTls();
+      const reply = createMockReply();
+
+      await callMiddleware(jwtAuth(), request, reply);
+
+      expect(reply.code).not.toHaveBeenCalled();
+    });
+  });
 });
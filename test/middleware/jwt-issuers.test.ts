@@ -0,0 +1,180 @@
+import * as fs from 'node:fs';
+import * as os from 'node:os';
+import * as path from 'node:path';
+import { createLocalJWKSet, createRemoteJWKSet } from 'jose';
+import { config } from '../../src/config/index.js';
+import {
+  findTrustedIssuer,
+  getIssuerKeySet,
+  hasTrustedIssuers,
+  mapClaims,
+  resetIssuerKeySets,
+  UntrustedIssuerError,
+  type TrustedIssuer,
+} from '../../src/middleware/jwt-issuers.js';
+
+const mockCreateRemoteJWKSet = createRemoteJWKSet as jest.Mock;
+const mockCreateLocalJWKSet = createLocalJWKSet as jest.Mock;
+
+function trustedIssuer(overrides: Partial<TrustedIssuer> = {}): TrustedIssuer {
+  return {
+    name: 'corp',
+    issuer: 'https://login.corp.example.com/',
+    audiences: [],
+    algorithms: [],
+    claims: {},
+    ...overrides,
+  };
+}
+
+describe('jwt issuer registry', () => {
+  const originalIssuers = config.jwt.trustedIssuers;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    resetIssuerKeySets();
+    config.jwt.trustedIssuers = {
+      corp: {
+        issuer: 'https://login.corp.example.com/',
+        jwksUrl: 'https://login.corp.example.com/keys',
+        audiences: ['api://gateway'],
+        algorithms: ['RS256'],
+        claims: {},
+      },
+      partner: {
+        issuer: 'https://idp.partner.example.net',
+        jwksUrl: 'https://idp.partner.example.net/jwks',
+        audiences: [],
+        algorithms: [],
+        claims: { scope: 'scp' },
+      },
+    };
+  });
+
+  afterAll(() => {
+    config.jwt.trustedIssuers = originalIssuers;
+  });
+
+  describe('findTrustedIssuer', () => {
+    it('should return the entry with its name for an exact iss match', () => {
+      expect(findTrustedIssuer('https://idp.partner.example.net')).toMatchObject({
+        name: 'partner',
+        issuer: 'https://idp.partner.example.net',
+        claims: { scope: 'scp' },
+      });
+    });
+
+    it('should not match issuers that differ only by a trailing slash', () => {
+      expect(findTrustedIssuer('https://login.corp.example.com')).toBeUndefined();
+    });
+
+    it('should return undefined for a missing iss', () => {
+      expect(findTrustedIssuer(undefined)).toBeUndefined();
+    });
+  });
+
+  describe('hasTrustedIssuers', () => {
+    it('should report whether any issuer is configured', () => {
+      expect(hasTrustedIssuers()).toBe(true);
+
+      config.jwt.trustedIssuers = {};
+      expect(hasTrustedIssuers()).toBe(false);
+    });
+  });
+
+  describe('getIssuerKeySet', () => {
+    it('should create one remote key set per issuer and reuse it', async () => {
+      const corp = findTrustedIssuer('https://login.corp.example.com/')!;
+      const partner = findTrustedIssuer('https://idp.partner.example.net')!;
+
+      const first = await getIssuerKeySet(corp);
+      const second = await getIssuerKeySet(corp);
+      await getIssuerKeySet(partner);
+
+      expect(first).toBe(second);
+      expect(mockCreateRemoteJWKSet).toHaveBeenCalledTimes(2);
+      expect(mockCreateRemoteJWKSet).toHaveBeenCalledWith(
+        new URL('https://login.corp.example.com/keys')
+      );
+      expect(mockCreateRemoteJWKSet).toHaveBeenCalledWith(
+        new URL('https://idp.partner.example.net/jwks')
+      );
+    });
+
+    describe('with a local JWKS file', () => {
+      let dir: string;
+
+      beforeEach(() => {
+        dir = fs.mkdtempSync(path.join(os.tmpdir(), 'jwt-issuers-'));
+      });
+
+      afterEach(() => {
+        fs.rmSync(dir, { recursive: true, force: true });
+      });
+
+      it('should load a JWKS document', async () => {
+        const jwks = { keys: [{ kty: 'OKP', crv: 'Ed25519', x: 'abc', kid: 'k1' }] };
+        const file = path.join(dir, 'jwks.json');
+        fs.writeFileSync(file, JSON.stringify(jwks));
+
+        await getIssuerKeySet(trustedIssuer({ jwksFile: file }));
+
+        expect(mockCreateLocalJWKSet).toHaveBeenCalledWith(jwks);
+        expect(mockCreateRemoteJWKSet).not.toHaveBeenCalled();
+      });
+
+      it('should wrap a single JWK in a key set', async () => {
+        const jwk = { kty: 'OKP', crv: 'Ed25519', x: 'abc' };
+        const file = path.join(dir, 'key.json');
+        fs.writeFileSync(file, JSON.stringify(jwk));
+
+        await getIssuerKeySet(trustedIssuer({ jwksFile: file }));
+
+        expect(mockCreateLocalJWKSet).toHaveBeenCalledWith({ keys: [jwk] });
+      });
+
+      it('should retry after a failed load', async () => {
+        const file = path.join(dir, 'late.json');
+        const issuer = trustedIssuer({ jwksFile: file });
+
+        await expect(getIssuerKeySet(issuer)).rejects.toThrow();
+
+        fs.writeFileSync(file, JSON.stringify({ keys: [] }));
+        await expect(getIssuerKeySet(issuer)).resolves.toBeDefined();
+      });
+    });
+
+    it('should reject an issuer with no key source', async () => {
+      await expect(getIssuerKeySet(trustedIssuer())).rejects.toThrow(
+        'JWT issuer "corp" has no JWKS_URL or JWKS_FILE configured'
+      );
+    });
+  });
+
+  describe('mapClaims', () => {
+    it('should copy mapped claims onto their normalized names', () => {
+      const payload = { sub: 'u1', scp: 'orders:read', oid: 'o1' };
+
+      expect(mapClaims(payload, { scope: 'scp', sub: 'oid' })).toEqual({
+        sub: 'o1',
+        scp: 'orders:read',
+        oid: 'o1',
+        scope: 'orders:read',
+      });
+    });
+
+    it('should leave claims alone when the source claim is absent', () => {
+      expect(mapClaims({ sub: 'u1' }, { scope: 'scp' })).toEqual({ sub: 'u1' });
+    });
+  });
+
+  describe('UntrustedIssuerError', () => {
+    it('should carry a stable code and the issuer', () => {
+      const error = new UntrustedIssuerError('https://evil.example.com');
+
+      expect(error.code).toBe('ERR_JWT_UNTRUSTED_ISSUER');
+      expect(error.issuer).toBe('https://evil.example.com');
+      expect(error.message).toBe('Untrusted issuer: https://evil.example.com');
+    });
+  });
+});
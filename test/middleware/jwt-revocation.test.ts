@@ -0,0 +1,113 @@
+import { createClient } from 'redis';
+import { RedisService } from '../../src/services/redis.service.js';
+import { createRedisRevocationStore } from '../../src/middleware/jwt-revocation.js';
+
+describe('createRedisRevocationStore', () => {
+  const client: any = createClient();
+  const redis = new RedisService(client);
+  const now = Math.floor(Date.now() / 1000);
+  const iss = 'https://idp.example.com/';
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('should revoke a token by jti with the given TTL', async () => {
+    const store = createRedisRevocationStore(redis);
+
+    await store.revokeToken(iss, 'jti-1', 120);
+
+    expect(client.set).toHaveBeenCalledWith(
+      'jwt:revoked:jti:https%3A%2F%2Fidp.example.com%2F:jti-1',
+      '1',
+      { EX: 120 }
+    );
+    expect(await store.isRevoked({ iss, jti: 'jti-1' })).toBe(true);
+    expect(await store.isRevoked({ iss, jti: 'jti-2' })).toBe(false);
+  });
+
+  it('should keep entries for at least one second', async () => {
+    const store = createRedisRevocationStore(redis);
+
+    await store.revokeToken(iss, 'jti-expired', -30);
+
+    expect(client.set).toHaveBeenCalledWith(expect.stringMatching(/:jti-expired$/), '1', { EX: 1 });
+  });
+
+  it('should revoke tokens for a subject issued before the cutoff', async () => {
+    const store = createRedisRevocationStore(redis);
+
+    await store.revokeSubject(iss, 'user-1', now, 3600);
+
+    expect(await store.isRevoked({ iss, sub: 'user-1', iat: now - 10 })).toBe(true);
+    expect(await store.isRevoked({ iss, sub: 'user-1', iat: now })).toBe(false);
+    expect(await store.isRevoked({ iss, sub: 'user-1' })).toBe(true);
+    expect(await store.isRevoked({ iss, sub: 'user-2', iat: now - 10 })).toBe(false);
+  });
+
+  it('should not move a subject cutoff backwards', async () => {
+    const store = createRedisRevocationStore(redis);
+
+    await store.revokeSubject(iss, 'user-3', now, 3600);
+    await store.revokeSubject(iss, 'user-3', now - 100, 3600);
+
+    expect(await store.isRevoked({ iss, sub: 'user-3', iat: now - 50 })).toBe(true);
+  });
+
+  it('should revoke tokens by session id', async () => {
+    const store = createRedisRevocationStore(redis);
+
+    await store.revokeSession(iss, 'sid-1', 3600);
+
+    expect(await store.isRevoked({ iss, sub: 'user-4', sid: 'sid-1' })).toBe(true);
+    expect(await store.isRevoked({ iss, sub: 'user-4', sid: 'sid-2' })).toBe(false);
+  });
+
+  it('should only revoke tokens from the given issuer', async () => {
+    const store = createRedisRevocationStore(redis);
+    const other = 'https://idp.partner.example.net';
+
+    await store.revokeToken(iss, 'jti-iss', 60);
+    await store.revokeSubject(iss, 'user-5', now, 3600);
+    await store.revokeSession(iss, 'sid-iss', 3600);
+
+    expect(await store.isRevoked({ iss: other, jti: 'jti-iss' })).toBe(false);
+    expect(await store.isRevoked({ iss: other, sub: 'user-5', iat: now - 10 })).toBe(false);
+    expect(await store.isRevoked({ iss: other, sid: 'sid-iss' })).toBe(false);
+    expect(await store.isRevoked({ jti: 'jti-iss' })).toBe(false);
+  });
+
+  it('should not let issuer and value boundaries collide', async () => {
+    const store = createRedisRevocationStore(redis);
+
+    await store.revokeToken('https://a', 'b', 60);
+
+    expect(await store.isRevoked({ iss: 'https:', jti: '//a:b' })).toBe(false);
+  });
+
+  it('should cache lookups, including misses, in-process', async () => {
+    const store = createRedisRevocationStore(redis, { cacheTtlMs: 60000 });
+
+    await store.isRevoked({ iss, jti: 'jti-cached' });
+    await store.isRevoked({ iss, jti: 'jti-cached' });
+
+    expect(client.get).toHaveBeenCalledTimes(1);
+  });
+
+  it('should see revocations from other instances once the cache expires', async () => {
+    jest.useFakeTimers();
+    try {
+      const local = createRedisRevocationStore(redis, { cacheTtlMs: 5000 });
+      const other = createRedisRevocationStore(redis);
+
+      expect(await local.isRevoked({ iss, jti: 'jti-shared' })).toBe(false);
+      await other.revokeToken(iss, 'jti-shared', 60);
+      expect(await local.isRevoked({ iss, jti: 'jti-shared' })).toBe(false);
+
+      jest.advanceTimersByTime(5001);
+      expect(await local.isRevoked({ iss, jti: 'jti-shared' })).toBe(true);
+    } finally {
+      jest.useRealTimers();
+    }
+  });
+});
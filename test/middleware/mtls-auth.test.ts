@@ -0,0 +1,219 @@
+import { createHash } from 'node:crypto';
+import type { FastifyReply } from 'fastify';
+import { config } from '../../src/config/index.js';
+import {
+  findMtlsClient,
+  getClientCertificate,
+  mtlsAuth,
+  verifyCertificateBinding,
+} from '../../src/middleware/mtls-auth.js';
+
+const DER = Buffer.from('billing-certificate-der');
+const THUMBPRINT = createHash('sha256').update(DER).digest('base64url');
+
+interface PeerOptions {
+  encrypted?: boolean;
+  authorized?: boolean;
+  authorizationError?: string;
+  cert?: object;
+}
+
+function createMockRequest(peer: PeerOptions = {}) {
+  const {
+    encrypted = true,
+    authorized = true,
+    authorizationError,
+    cert = {
+      raw: DER,
+      subject: { CN: 'billing', O: 'Corp', OU: ['Payments', 'Platform'] },
+      subjectaltname: 'DNS:billing.internal, URI:spiffe://corp/billing',
+      fingerprint256: 'AB:CD',
+    },
+  } = peer;
+
+  return {
+    headers: {},
+    raw: {
+      socket: { encrypted, authorized, authorizationError, getPeerCertificate: () => cert },
+    },
+    user: undefined as any,
+    clientCertificate: undefined as any,
+    log: { warn: jest.fn() },
+  };
+}
+
+function createMockReply() {
+  const reply = { code: jest.fn(), send: jest.fn() };
+  reply.code.mockReturnValue(reply);
+  reply.send.mockReturnValue(reply);
+  return reply;
+}
+
+async function callMiddleware(
+  middleware: ReturnType<typeof mtlsAuth>,
+  request: ReturnType<typeof createMockRequest>,
+  reply: ReturnType<typeof createMockReply>
+) {
+  return middleware.call({} as any, request as any, reply as unknown as FastifyReply, jest.fn());
+}
+
+describe('mtlsAuth', () => {
+  const originalClients = config.mtls.clients;
+
+  beforeEach(() => {
+    config.mtls.clients = {
+      billing: { subject: { CN: 'billing', O: 'Corp' }, san: [], scopes: ['invoices:write'] },
+      reports: { subject: {}, san: ['URI:spiffe://corp/reports'], scopes: ['reports:read'] },
+    };
+  });
+
+  afterAll(() => {
+    config.mtls.clients = originalClients;
+  });
+
+  describe('getClientCertificate', () => {
+    it('should read subject, SANs and the x5t#S256 thumbprint', () => {
+      const certificate = getClientCertificate(createMockRequest() as any);
+
+      expect(certificate).toEqual({
+        subject: { CN: 'billing', O: 'Corp', OU: ['Payments', 'Platform'] },
+        san: ['DNS:billing.internal', 'URI:spiffe://corp/billing'],
+        thumbprint: THUMBPRINT,
+        fingerprint256: 'AB:CD',
+        authorized: true,
+        authorizationError: undefined,
+      });
+    });
+
+    it('should return undefined over plain HTTP', () => {
+      expect(getClientCertificate(createMockRequest({ encrypted: false }) as any)).toBeUndefined();
+    });
+
+    it('should return undefined when no certificate was presented', () => {
+      expect(getClientCertificate(createMockRequest({ cert: {} }) as any)).toBeUndefined();
+    });
+  });
+
+  describe('findMtlsClient', () => {
+    const certificate = {
+      subject: { CN: 'reports', O: 'Corp', OU: ['Finance', 'Analytics'] },
+      san: ['DNS:reports.internal', 'URI:spiffe://corp/reports'],
+      thumbprint: 'x',
+      fingerprint256: 'x',
+      authorized: true,
+    };
+
+    it('should match on a configured SAN', () => {
+      expect(findMtlsClient(certificate)?.name).toBe('reports');
+    });
+
+    it('should require every configured subject field', () => {
+      const clients = { finance: { subject: { CN: 'reports', O: 'Other' }, san: [], scopes: [] } };
+      expect(findMtlsClient(certificate, clients)).toBeUndefined();
+    });
+
+    it('should match a multi-valued subject field on any value', () => {
+      const clients = { analytics: { subject: { OU: 'Analytics' }, san: [], scopes: [] } };
+      expect(findMtlsClient(certificate, clients)?.name).toBe('analytics');
+    });
+
+    it('should never match a client without subject fields or SANs', () => {
+      const clients = { billing: { subject: {}, san: [], scopes: ['invoices:write'] } };
+      expect(findMtlsClient(certificate, clients)).toBeUndefined();
+    });
+  });
+
+  describe('authentication', () => {
+    it('should attach the client principal with its scopes and certificate binding', async () => {
+      const request = createMockRequest();
+      const reply = createMockReply();
+
+      await callMiddleware(mtlsAuth(), request, reply);
+
+      expect(reply.code).not.toHaveBeenCalled();
+      expect(request.user).toEqual({
+        sub: 'billing',
+        scope: 'invoices:write',
+        cnf: { 'x5t#S256': THUMBPRINT },
+      });
+      expect(request.clientCertificate.thumbprint).toBe(THUMBPRINT);
+    });
+
+    it('should return 401 without a client certificate', async () => {
+      const reply = createMockReply();
+
+      await callMiddleware(mtlsAuth(), createMockRequest({ cert: {} }), reply);
+
+      expect(reply.code).toHaveBeenCalledWith(401);
+      expect(reply.send).toHaveBeenCalledWith({
+        error: 'Unauthorized',
+        message: 'Client certificate required',
+      });
+    });
+
+    it('should return 401 invalid_certificate when the chain did not validate', async () => {
+      const request = createMockRequest({
+        authorized: false,
+        authorizationError: 'UNABLE_TO_VERIFY_LEAF_SIGNATURE',
+      });
+      const reply = createMockReply();
+
+      await callMiddleware(mtlsAuth(), request, reply);
+
+      expect(reply.code).toHaveBeenCalledWith(401);
+      expect(reply.send).toHaveBeenCalledWith(
+        expect.objectContaining({ reason: 'invalid_certificate' })
+      );
+      expect(request.log.warn).toHaveBeenCalledWith(
+        { reason: 'invalid_certificate', err: 'UNABLE_TO_VERIFY_LEAF_SIGNATURE' },
+        'Client certificate rejected'
+      );
+      expect(request.user).toBeUndefined();
+    });
+
+    it('should return 401 unknown_client for a trusted but unregistered certificate', async () => {
+      config.mtls.clients = {};
+      const reply = createMockReply();
+
+      await callMiddleware(mtlsAuth(), createMockRequest(), reply);
+
+      expect(reply.code).toHaveBeenCalledWith(401);
+      expect(reply.send).toHaveBeenCalledWith(
+        expect.objectContaining({ reason: 'unknown_client' })
+      );
+    });
+
+    it('should return 403 when the client lacks a required scope', async () => {
+      const reply = createMockReply();
+
+      await callMiddleware(mtlsAuth('reports:read'), createMockRequest(), reply);
+
+      expect(reply.code).toHaveBeenCalledWith(403);
+      expect(reply.send).toHaveBeenCalledWith({
+        error: 'Forbidden',
+        message: 'Insufficient permissions: requires reports:read',
+        missing: ['reports:read'],
+      });
+    });
+  });
+
+  describe('verifyCertificateBinding', () => {
+    it('should accept tokens without a certificate binding', () => {
+      expect(verifyCertificateBinding(createMockRequest({ encrypted: false }) as any, {})).toBe(
+        true
+      );
+    });
+
+    it('should compare x5t#S256 with the presented certificate', () => {
+      const request = createMockRequest() as any;
+
+      expect(verifyCertificateBinding(request, { cnf: { 'x5t#S256': THUMBPRINT } })).toBe(true);
+      expect(verifyCertificateBinding(request, { cnf: { 'x5t#S256': 'other' } })).toBe(false);
+    });
+
+    it('should not require the chain to validate', () => {
+      const request = createMockRequest({ authorized: false }) as any;
+      expect(verifyCertificateBinding(request, { cnf: { 'x5t#S256': THUMBPRINT } })).toBe(true);
+    });
+  });
+});
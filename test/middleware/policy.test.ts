@@ -0,0 +1,250 @@
+import type { FastifyReply } from 'fastify';
+import {
+  authorize,
+  checkPolicyReferences,
+  compilePolicy,
+  evaluatePolicy,
+  formatPolicy,
+  getTokenRoles,
+  getTokenScopes,
+  parsePolicy,
+  PolicyError,
+  registerPolicy,
+  resetPolicies,
+} from '../../src/middleware/policy.js';
+
+const ROLE_CLAIMS = ['roles', 'groups', 'realm_access.roles'];
+
+function check(expression: string, payload: Record<string, unknown>) {
+  return evaluatePolicy(parsePolicy(expression), payload, ROLE_CLAIMS);
+}
+
+function createMockReply() {
+  const reply = {
+    code: jest.fn(),
+    send: jest.fn(),
+    header: jest.fn(),
+  };
+  reply.code.mockReturnValue(reply);
+  reply.send.mockReturnValue(reply);
+  reply.header.mockReturnValue(reply);
+  return reply;
+}
+
+describe('policy', () => {
+  afterEach(() => {
+    resetPolicies();
+  });
+
+  describe('parsePolicy', () => {
+    it('should parse a single scope', () => {
+      expect(parsePolicy('users:write')).toEqual({ type: 'scope', name: 'users:write' });
+    });
+
+    it('should bind AND tighter than OR', () => {
+      expect(parsePolicy('a OR b AND c')).toEqual({
+        type: 'or',
+        operands: [
+          { type: 'scope', name: 'a' },
+          {
+            type: 'and',
+            operands: [
+              { type: 'scope', name: 'b' },
+              { type: 'scope', name: 'c' },
+            ],
+          },
+        ],
+      });
+    });
+
+    it('should parse parentheses, NOT, roles and policy references', () => {
+      expect(parsePolicy('NOT (role(guest) OR policy(suspended))')).toEqual({
+        type: 'not',
+        operand: {
+          type: 'or',
+          operands: [
+            { type: 'role', name: 'guest' },
+            { type: 'policy', name: 'suspended' },
+          ],
+        },
+      });
+    });
+
+    it('should treat lower-case operators as scopes', () => {
+      expect(parsePolicy('or')).toEqual({ type: 'scope', name: 'or' });
+    });
+
+    it.each([
+      ['', 'Unexpected end'],
+      ['admin AND', 'Unexpected end'],
+      ['(admin', 'Missing ")"'],
+      ['admin)', 'Unexpected ")"'],
+      ['admin read', 'Unexpected "read"'],
+      ['OR admin', 'Unexpected "OR"'],
+    ])('should reject %j', (expression, message) => {
+      expect(() => parsePolicy(expression)).toThrow(PolicyError);
+      expect(() => parsePolicy(expression)).toThrow(message);
+    });
+
+    it('should format back to an equivalent expression', () => {
+      const expression = 'admin OR (users:write AND NOT role(guest))';
+      expect(formatPolicy(parsePolicy(expression))).toBe(expression);
+    });
+  });
+
+  describe('compilePolicy', () => {
+    it('should require every scope of a list', () => {
+      const policy = compilePolicy(['users:write', 'admin']);
+
+      expect(evaluatePolicy(policy, { scope: 'admin' }, ROLE_CLAIMS)).toEqual({
+        allowed: false,
+        missing: ['users:write'],
+      });
+    });
+  });
+
+  describe('evaluatePolicy', () => {
+    it('should allow when any OR alternative holds', () => {
+      expect(
+        check('admin OR (users:write AND users:read)', { scope: 'users:write users:read' })
+      ).toEqual({ allowed: true, missing: [] });
+    });
+
+    it('should report the alternative with fewest missing permissions', () => {
+      expect(
+        check('admin AND audit OR (users:write AND users:read)', { scope: 'users:read' })
+      ).toEqual({ allowed: false, missing: ['users:write'] });
+    });
+
+    it('should report every unmet AND operand', () => {
+      expect(check('a AND b AND c', { scope: 'b' })).toEqual({
+        allowed: false,
+        missing: ['a', 'c'],
+      });
+    });
+
+    it('should report NOT requirements that a token violates', () => {
+      expect(check('read AND NOT role(guest)', { scope: 'read', roles: ['guest'] })).toEqual({
+        allowed: false,
+        missing: ['NOT role(guest)'],
+      });
+    });
+
+    it.each([
+      ['roles', { roles: ['admin'] }],
+      ['groups', { groups: ['admin'] }],
+      ['realm_access.roles', { realm_access: { roles: ['admin'] } }],
+    ])('should read roles from %s', (_claim, payload) => {
+      expect(check('role(admin)', payload).allowed).toBe(true);
+    });
+
+    it('should not confuse scopes and roles', () => {
+      expect(check('role(admin)', { scope: 'admin' }).allowed).toBe(false);
+      expect(check('admin', { roles: ['admin'] }).allowed).toBe(false);
+    });
+
+    it('should evaluate registered policies', () => {
+      registerPolicy('user-admin', 'admin OR role(user-admin)');
+
+      expect(check('policy(user-admin)', { roles: ['user-admin'] }).allowed).toBe(true);
+      expect(check('policy(user-admin)', {})).toEqual({ allowed: false, missing: ['admin'] });
+    });
+
+    it('should fail on unregistered or self-referencing policies', () => {
+      registerPolicy('loop', 'policy(loop)');
+
+      expect(() => check('policy(missing)', {})).toThrow('Policy "missing" is not registered');
+      expect(() => check('policy(loop)', {})).toThrow('Policy "loop" references itself');
+    });
+  });
+
+  describe('checkPolicyReferences', () => {
+    it('should pass when every referenced policy is registered', () => {
+      registerPolicy('user-admin', 'admin OR role(user-admin)');
+      compilePolicy('policy(user-admin) AND users:write');
+
+      expect(() => checkPolicyReferences()).not.toThrow();
+    });
+
+    it('should fail on a requirement referencing an unregistered policy', () => {
+      compilePolicy('admin OR NOT policy(missing)');
+
+      expect(() => checkPolicyReferences()).toThrow('Policy "missing" is not registered');
+    });
+
+    it('should fail on policies referencing each other in a loop', () => {
+      registerPolicy('a', 'policy(b)');
+      registerPolicy('b', 'read AND policy(a)');
+
+      expect(() => checkPolicyReferences()).toThrow(PolicyError);
+    });
+  });
+
+  describe('getTokenScopes', () => {
+    it('should merge scope and scopes in string and array form', () => {
+      expect(getTokenScopes({ scope: 'a b', scopes: ['c'] })).toEqual(['a', 'b', 'c']);
+      expect(getTokenScopes({ scope: ['a'], scopes: 'b c' })).toEqual(['a', 'b', 'c']);
+    });
+  });
+
+  describe('getTokenRoles', () => {
+    it('should ignore missing paths and non-string entries', () => {
+      expect(
+        getTokenRoles({ roles: ['a', 1], realm_access: 'x' }, ['roles', 'realm_access.roles'])
+      ).toEqual(['a']);
+    });
+  });
+
+  describe('authorize', () => {
+    it('should return 401 when no token was verified', async () => {
+      const reply = createMockReply();
+
+      await authorize('admin').call(
+        {} as any,
+        {} as any,
+        reply as unknown as FastifyReply,
+        jest.fn()
+      );
+
+      expect(reply.code).toHaveBeenCalledWith(401);
+    });
+
+    it('should return 403 naming the missing permission', async () => {
+      const reply = createMockReply();
+      const request = { user: { scope: 'read' } };
+
+      await authorize('role(admin) OR admin').call(
+        {} as any,
+        request as any,
+        reply as unknown as FastifyReply,
+        jest.fn()
+      );
+
+      expect(reply.code).toHaveBeenCalledWith(403);
+      expect(reply.header).toHaveBeenCalledWith(
+        'WWW-Authenticate',
+        'Bearer realm="api", error="insufficient_scope", ' +
+          'error_description="Insufficient permissions: requires role(admin)"'
+      );
+      expect(reply.send).toHaveBeenCalledWith({
+        error: 'Forbidden',
+        message: 'Insufficient permissions: requires role(admin)',
+        missing: ['role(admin)'],
+      });
+    });
+
+    it('should pass when the requirement holds', async () => {
+      const reply = createMockReply();
+      const request = { user: { scope: 'admin' } };
+
+      await authorize('admin').call(
+        {} as any,
+        request as any,
+        reply as unknown as FastifyReply,
+        jest.fn()
+      );
+
+      expect(reply.code).not.toHaveBeenCalled();
+    });
+  });
+});
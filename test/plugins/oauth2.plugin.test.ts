@@ -0,0 +1,83 @@
+import Fastify, { FastifyInstance } from 'fastify';
+import fp from 'fastify-plugin';
+import oauth2Plugin from '../../src/plugins/oauth2.plugin.js';
+import { config } from '../../src/config/index.js';
+
+const mockFetch = jest.fn();
+global.fetch = mockFetch;
+
+// oauth2Plugin depends on the redis plugin by name
+const fakeRedisPlugin = fp(async () => {}, { name: 'redis' });
+
+describe('OAuth2Plugin', () => {
+  const originalProviders = config.oauth2.providers;
+  let app: FastifyInstance;
+
+  function buildApp(providers: typeof config.oauth2.providers) {
+    config.oauth2.providers = providers;
+    app = Fastify({ logger: false });
+    app.register(fakeRedisPlugin);
+    app.register(oauth2Plugin);
+    return app;
+  }
+
+  beforeEach(() => {
+    mockFetch.mockReset();
+  });
+
+  afterEach(async () => {
+    await app.close();
+    config.oauth2.providers = originalProviders;
+  });
+
+  it('should discover providers configured with an issuer before starting', async () => {
+    mockFetch.mockImplementation(async (url: string) =>
+      url === 'https://idp.example.com/token'
+        ? {
+            ok: true,
+            json: async () => ({ access_token: 'token', token_type: 'Bearer', expires_in: 60 }),
+          }
+        : {
+            ok: true,
+            json: async () => ({
+              issuer: 'https://idp.example.com',
+              token_endpoint: 'https://idp.example.com/token',
+            }),
+          }
+    );
+
+    await buildApp({
+      idp: { tokenUrl: '', clientId: 'c', clientSecret: 's', issuer: 'https://idp.example.com' },
+    }).ready();
+
+    expect(await app.oauth2.getToken('idp')).toBe('token');
+  });
+
+  it('should fail to start when discovery fails for a required provider', async () => {
+    mockFetch.mockResolvedValue({ ok: false, status: 503 });
+
+    await expect(
+      buildApp({
+        idp: { tokenUrl: '', clientId: 'c', clientSecret: 's', issuer: 'https://idp.example.com' },
+      }).ready()
+    ).rejects.toThrow('OAuth2 discovery failed for required provider(s): idp');
+  });
+
+  it('should start without a provider that is not required', async () => {
+    mockFetch.mockResolvedValue({ ok: false, status: 503 });
+
+    await buildApp({
+      idp: {
+        tokenUrl: '',
+        clientId: 'c',
+        clientSecret: 's',
+        issuer: 'https://idp.example.com',
+        required: false,
+      },
+    }).ready();
+
+    await expect(app.oauth2.getToken('idp')).rejects.toMatchObject({
+      code: 'provider_not_discovered',
+    });
+  });
+});
@@ -0,0 +1,81 @@
+import Fastify, { FastifyInstance } from 'fastify';
+import { Readable } from 'node:stream';
+import rawBodyPlugin from '../../src/plugins/raw-body.plugin.js';
+
+describe('RawBodyPlugin', () => {
+  let app: FastifyInstance;
+
+  beforeEach(async () => {
+    app = Fastify({ logger: false, bodyLimit: 100 });
+    await app.register(rawBodyPlugin);
+
+    app.post('/echo', async (request) => ({
+      rawBody: request.rawBody?.toString(),
+      body: request.body,
+    }));
+    app.post('/small', { bodyLimit: 10 }, async (request) => ({
+      rawBody: request.rawBody?.toString(),
+    }));
+  });
+
+  afterEach(async () => {
+    await app.close();
+  });
+
+  it('should capture the raw body when Content-Digest is present', async () => {
+    const payload = '{"a":  1}';
+    const response = await app.inject({
+      method: 'POST',
+      url: '/echo',
+      headers: { 'content-type': 'application/json', 'content-digest': 'sha-256=:abc=:' },
+      payload,
+    });
+
+    expect(response.statusCode).toBe(200);
+    expect(response.json()).toEqual({ rawBody: payload, body: { a: 1 } });
+  });
+
+  it('should stop buffering once the body exceeds bodyLimit', async () => {
+    const chunk = '{"a":"' + 'x'.repeat(60);
+    let read = 0;
+    const payload = new Readable({
+      read() {
+        read++;
+        this.push(read <= 1000 ? chunk : null);
+      },
+    });
+
+    const response = await app.inject({
+      method: 'POST',
+      url: '/echo',
+      headers: { 'content-type': 'application/json', 'content-digest': 'sha-256=:abc=:' },
+      payload,
+    });
+
+    expect(response.statusCode).toBe(413);
+    // The stream was abandoned instead of being read to the end
+    expect(read).toBeLessThan(1000);
+  });
+
+  it('should reject an oversized Content-Length before reading the body', async () => {
+    const response = await app.inject({
+      method: 'POST',
+      url: '/small',
+      headers: { 'content-type': 'application/json', 'content-digest': 'sha-256=:abc=:' },
+      payload: '{"a":"0123456789"}',
+    });
+
+    expect(response.statusCode).toBe(413);
+  });
+
+  it('should not buffer requests without Content-Digest', async () => {
+    const response = await app.inject({
+      method: 'POST',
+      url: '/echo',
+      headers: { 'content-type': 'application/json' },
+      payload: '{"a":1}',
+    });
+
+    expect(response.json()).toEqual({ body: { a: 1 } });
+  });
+});
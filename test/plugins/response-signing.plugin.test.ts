@@ -0,0 +1,75 @@
+import Fastify, { FastifyInstance } from 'fastify';
+import { Readable } from 'node:stream';
+import responseSigningPlugin from '../../src/plugins/response-signing.plugin.js';
+import type { Signer } from '../../src/middleware/http-signature/types.js';
+
+describe('ResponseSigningPlugin', () => {
+  let app: FastifyInstance;
+  let signer: Signer;
+
+  beforeEach(async () => {
+    signer = {
+      sign: jest.fn(),
+      signResponse: jest.fn(async (response) => ({
+        ...response.headers,
+        'Signature-Input': 'sig1=("@status");keyid="k";alg="hmac-sha256"',
+        Signature: 'sig1=:c2ln:',
+      })),
+    };
+
+    app = Fastify({ logger: false });
+    await app.register(responseSigningPlugin);
+
+    const optIn = async (request: any) => {
+      request.responseSigner = signer;
+    };
+
+    app.get('/plain', async () => ({ ok: true }));
+    app.get('/signed', { preHandler: optIn }, async () => ({ ok: true }));
+    app.get('/stream', { preHandler: optIn }, async (request, reply) =>
+      reply.type('text/plain').send(Readable.from(['chunk']))
+    );
+  });
+
+  afterEach(async () => {
+    await app.close();
+  });
+
+  it('should leave routes without a signer untouched', async () => {
+    const response = await app.inject({ method: 'GET', url: '/plain' });
+
+    expect(response.headers['signature']).toBeUndefined();
+    expect(signer.signResponse).not.toHaveBeenCalled();
+  });
+
+  it('should sign the serialized payload with the request as context', async () => {
+    const response = await app.inject({ method: 'GET', url: '/signed?x=1' });
+
+    expect(response.headers['signature']).toBe('sig1=:c2ln:');
+    expect(response.headers['signature-input']).toContain('keyid="k"');
+    expect(signer.signResponse).toHaveBeenCalledWith(
+      expect.objectContaining({ status: 200, body: '{"ok":true}' }),
+      expect.objectContaining({ method: 'GET', url: 'http://localhost/signed?x=1' })
+    );
+  });
+
+  it('should keep a non-default port in the request URL', async () => {
+    await app.inject({
+      method: 'GET',
+      url: '/signed',
+      headers: { host: 'api.example.com:8443' },
+    });
+
+    expect(signer.signResponse).toHaveBeenCalledWith(
+      expect.anything(),
+      expect.objectContaining({ url: 'http://api.example.com:8443/signed' })
+    );
+  });
+
+  it('should not sign streamed responses', async () => {
+    const response = await app.inject({ method: 'GET', url: '/stream' });
+
+    expect(response.body).toBe('chunk');
+    expect(response.headers['signature']).toBeUndefined();
+  });
+});
@@ -0,0 +1,182 @@
+import { EventEmitter } from 'node:events';
+import * as crypto from 'node:crypto';
+import { request as httpsRequest } from 'node:https';
+import { decodeJwt } from 'jose';
+import {
+  createClientAssertion,
+  postClientRequest,
+} from '../../../src/services/oauth2/client-auth.js';
+import type { OAuth2ProviderConfig } from '../../../src/services/oauth2/types.js';
+
+jest.mock('node:https', () => ({ request: jest.fn() }));
+
+const mockFetch = jest.fn();
+global.fetch = mockFetch;
+
+const mockHttpsRequest = httpsRequest as unknown as jest.Mock;
+
+const { publicKey, privateKey } = crypto.generateKeyPairSync('rsa', { modulusLength: 2048 });
+const privateKeyPem = privateKey.export({ type: 'pkcs8', format: 'pem' }) as string;
+
+const TOKEN_URL = 'https://auth.example.com/token';
+
+function provider(overrides: Partial<OAuth2ProviderConfig> = {}): OAuth2ProviderConfig {
+  return {
+    tokenUrl: TOKEN_URL,
+    clientId: 'my-client',
+    clientSecret: 'my secret&more',
+    ...overrides,
+  };
+}
+
+function sentRequest() {
+  const [url, init] = mockFetch.mock.calls[0];
+  return { url, headers: init.headers, body: new URLSearchParams(init.body) };
+}
+
+describe('postClientRequest', () => {
+  beforeEach(() => {
+    mockFetch.mockReset();
+    mockFetch.mockResolvedValue({ ok: true });
+    mockHttpsRequest.mockReset();
+  });
+
+  it('should send the secret in the body by default (client_secret_post)', async () => {
+    await postClientRequest(provider(), TOKEN_URL, { grant_type: 'client_credentials' });
+
+    const { url, headers, body } = sentRequest();
+    expect(url).toBe(TOKEN_URL);
+    expect(headers).toEqual({ 'Content-Type': 'application/x-www-form-urlencoded' });
+    expect(body.get('grant_type')).toBe('client_credentials');
+    expect(body.get('client_id')).toBe('my-client');
+    expect(body.get('client_secret')).toBe('my secret&more');
+  });
+
+  it('should send form-encoded credentials with HTTP Basic (client_secret_basic)', async () => {
+    await postClientRequest(
+      provider({ authMethod: 'client_secret_basic' }),
+      TOKEN_URL,
+      { grant_type: 'client_credentials' },
+      { Accept: 'application/json' }
+    );
+
+    const { headers, body } = sentRequest();
+    const encoded = Buffer.from('my-client:my+secret%26more').toString('base64');
+    expect(headers).toEqual({
+      'Content-Type': 'application/x-www-form-urlencoded',
+      Accept: 'application/json',
+      Authorization: `Basic ${encoded}`,
+    });
+    expect(body.has('client_id')).toBe(false);
+    expect(body.has('client_secret')).toBe(false);
+  });
+
+  it('should send a signed client assertion instead of a secret (private_key_jwt)', async () => {
+    await postClientRequest(
+      provider({ authMethod: 'private_key_jwt', privateKey: privateKeyPem }),
+      TOKEN_URL,
+      { grant_type: 'client_credentials' }
+    );
+
+    const { body } = sentRequest();
+    expect(body.get('client_id')).toBe('my-client');
+    expect(body.has('client_secret')).toBe(false);
+    expect(body.get('client_assertion_type')).toBe(
+      'urn:ietf:params:oauth:client-assertion-type:jwt-bearer'
+    );
+    expect(decodeJwt(body.get('client_assertion')!)).toMatchObject({ aud: TOKEN_URL });
+  });
+
+  it('should present the client certificate over TLS (tls_client_auth)', async () => {
+    mockHttpsRequest.mockImplementation((_url, _options, callback) => {
+      const req = Object.assign(new EventEmitter(), { end: jest.fn() });
+      req.end.mockImplementation(() => {
+        const res = Object.assign(new EventEmitter(), {
+          statusCode: 200,
+          headers: { 'content-type': 'application/json' },
+        });
+        callback(res);
+        res.emit('data', Buffer.from('{"access_token":"mtls-token"}'));
+        res.emit('end');
+      });
+      return req;
+    });
+
+    const response = await postClientRequest(
+      provider({ authMethod: 'tls_client_auth', tlsCert: 'CERT', tlsKey: 'KEY' }),
+      TOKEN_URL,
+      { grant_type: 'client_credentials' }
+    );
+
+    expect(mockFetch).not.toHaveBeenCalled();
+    const [url, options] = mockHttpsRequest.mock.calls[0];
+    expect(url).toBe(TOKEN_URL);
+    expect(options).toMatchObject({ method: 'POST', cert: 'CERT', key: 'KEY' });
+    const body = new URLSearchParams(mockHttpsRequest.mock.results[0].value.end.mock.calls[0][0]);
+    expect(body.get('client_id')).toBe('my-client');
+    expect(body.has('client_secret')).toBe(false);
+
+    expect(response.status).toBe(200);
+    expect(response.headers.get('content-type')).toBe('application/json');
+    expect(await response.json()).toEqual({ access_token: 'mtls-token' });
+  });
+
+  it('should reject tls_client_auth without a certificate', async () => {
+    await expect(
+      postClientRequest(provider({ authMethod: 'tls_client_auth' }), TOKEN_URL, {})
+    ).rejects.toMatchObject({ code: 'invalid_client_config' });
+  });
+});
+
+describe('createClientAssertion', () => {
+  it('should sign iss, sub, aud, jti, iat and exp with the private key', async () => {
+    const assertion = await createClientAssertion(
+      provider({ authMethod: 'private_key_jwt', privateKey: privateKeyPem, keyId: 'key-1' }),
+      TOKEN_URL
+    );
+
+    const [header, payload, signature] = assertion.split('.');
+    expect(JSON.parse(Buffer.from(header, 'base64url').toString())).toEqual({
+      alg: 'RS256',
+      typ: 'JWT',
+      kid: 'key-1',
+    });
+    expect(
+      crypto.verify(
+        'sha256',
+        Buffer.from(`${header}.${payload}`),
+        publicKey,
+        Buffer.from(signature, 'base64url')
+      )
+    ).toBe(true);
+
+    const claims = decodeJwt(assertion);
+    expect(claims).toMatchObject({ iss: 'my-client', sub: 'my-client', aud: TOKEN_URL });
+    expect(claims.exp! - claims.iat!).toBe(60);
+    expect(typeof claims.jti).toBe('string');
+  });
+
+  it('should use a new jti for every assertion', async () => {
+    const config = provider({ authMethod: 'private_key_jwt', privateKey: privateKeyPem });
+
+    const first = decodeJwt(await createClientAssertion(config, TOKEN_URL));
+    const second = decodeJwt(await createClientAssertion(config, TOKEN_URL));
+
+    expect(first.jti).not.toBe(second.jti);
+  });
+
+  it('should use the configured audience', async () => {
+    const assertion = await createClientAssertion(
+      provider({ privateKey: privateKeyPem, assertionAudience: 'https://auth.example.com' }),
+      'https://auth.example.com/introspect'
+    );
+
+    expect(decodeJwt(assertion).aud).toBe('https://auth.example.com');
+  });
+
+  it('should reject a provider without a private key', async () => {
+    await expect(
+      createClientAssertion(provider({ authMethod: 'private_key_jwt' }), TOKEN_URL)
+    ).rejects.toMatchObject({ code: 'invalid_client_config' });
+  });
+});
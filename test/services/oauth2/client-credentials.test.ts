@@ -84,6 +84,69 @@ describe('fetchClientCredentialsToken', () => {
     const [, options] = mockFetch.mock.calls[0];
     expect(options.body).toContain('scope=read+write');
   });
+
+  it('should send per-call scope, audience and resources', async () => {
+    mockFetch.mockResolvedValue({
+      ok: true,
+      json: async () => ({
+        access_token: 'token',
+        token_type: 'Bearer',
+        expires_in: 3600,
+      }),
+    });
+
+    const token = await fetchClientCredentialsToken(
+      {
+        tokenUrl: 'https://auth.example.com/token',
+        clientId: 'client',
+        clientSecret: 'secret',
+        scope: 'read',
+      },
+      30,
+      {
+        scope: 'orders:write',
+        audience: 'orders-api',
+        resource: ['https://orders.example.com', 'https://billing.example.com'],
+      }
+    );
+
+    const body = new URLSearchParams(mockFetch.mock.calls[0][1].body);
+    expect(body.get('scope')).toBe('orders:write');
+    expect(body.get('audience')).toBe('orders-api');
+    expect(body.getAll('resource')).toEqual([
+      'https://orders.example.com',
+      'https://billing.example.com',
+    ]);
+    // No scope in the response means the requested scope was granted
+    expect(token.scope).toBe('orders:write');
+  });
+
+  it('should reject a token missing a requested scope', async () => {
+    mockFetch.mockResolvedValue({
+      ok: true,
+      json: async () => ({
+        access_token: 'token',
+        token_type: 'Bearer',
+        expires_in: 3600,
+        scope: 'orders:read',
+      }),
+    });
+
+    await expect(
+      fetchClientCredentialsToken(
+        {
+          tokenUrl: 'https://auth.example.com/token',
+          clientId: 'client',
+          clientSecret: 'secret',
+        },
+        30,
+        { scope: 'orders:read orders:write' }
+      )
+    ).rejects.toMatchObject({
+      code: 'insufficient_scope',
+      message: 'Token was not granted the requested scope: orders:write',
+    });
+  });
 });
 
 describe('tokenResponseToCachedToken', () => {
@@ -0,0 +1,154 @@
+import {
+  applyProviderMetadata,
+  fetchProviderMetadata,
+} from '../../../src/services/oauth2/discovery.js';
+import type {
+  AuthorizationServerMetadata,
+  OAuth2ProviderConfig,
+} from '../../../src/services/oauth2/types.js';
+
+const mockFetch = jest.fn();
+global.fetch = mockFetch;
+
+const ISSUER = 'https://idp.example.com/tenant1';
+
+function metadata(overrides: Partial<AuthorizationServerMetadata> = {}) {
+  return {
+    issuer: ISSUER,
+    token_endpoint: 'https://idp.example.com/tenant1/oauth/token',
+    introspection_endpoint: 'https://idp.example.com/tenant1/oauth/introspect',
+    revocation_endpoint: 'https://idp.example.com/tenant1/oauth/revoke',
+    jwks_uri: 'https://idp.example.com/tenant1/jwks',
+    token_endpoint_auth_methods_supported: ['client_secret_basic', 'private_key_jwt'],
+    ...overrides,
+  };
+}
+
+function jsonResponse(body: unknown) {
+  return { ok: true, status: 200, json: async () => body };
+}
+
+function provider(overrides: Partial<OAuth2ProviderConfig> = {}): OAuth2ProviderConfig {
+  return {
+    tokenUrl: '',
+    clientId: 'orders-api',
+    clientSecret: 'secret',
+    issuer: ISSUER,
+    ...overrides,
+  };
+}
+
+describe('fetchProviderMetadata', () => {
+  beforeEach(() => {
+    mockFetch.mockReset();
+  });
+
+  it('should read the OpenID configuration under the issuer path', async () => {
+    mockFetch.mockResolvedValueOnce(jsonResponse(metadata()));
+
+    const result = await fetchProviderMetadata(ISSUER);
+
+    expect(result.token_endpoint).toBe('https://idp.example.com/tenant1/oauth/token');
+    expect(mockFetch).toHaveBeenCalledWith(
+      'https://idp.example.com/tenant1/.well-known/openid-configuration',
+      expect.objectContaining({ headers: { Accept: 'application/json' } })
+    );
+  });
+
+  it('should fall back to RFC 8414 metadata inserted before the issuer path', async () => {
+    mockFetch
+      .mockResolvedValueOnce({ ok: false, status: 404 })
+      .mockResolvedValueOnce(jsonResponse(metadata()));
+
+    await fetchProviderMetadata(ISSUER);
+
+    expect(mockFetch.mock.calls[1][0]).toBe(
+      'https://idp.example.com/.well-known/oauth-authorization-server/tenant1'
+    );
+  });
+
+  it('should reject metadata for another issuer', async () => {
+    mockFetch.mockResolvedValueOnce(jsonResponse(metadata({ issuer: 'https://evil.example.com' })));
+
+    await expect(fetchProviderMetadata(ISSUER)).rejects.toMatchObject({
+      code: 'discovery_failed',
+      message: expect.stringContaining("is for issuer 'https://evil.example.com'"),
+    });
+  });
+
+  it('should reject metadata without a token endpoint', async () => {
+    mockFetch.mockResolvedValueOnce(jsonResponse({ issuer: ISSUER }));
+
+    await expect(fetchProviderMetadata(ISSUER)).rejects.toMatchObject({
+      code: 'discovery_failed',
+    });
+  });
+
+  it('should report every location tried when none answers', async () => {
+    mockFetch
+      .mockResolvedValueOnce({ ok: false, status: 404 })
+      .mockRejectedValueOnce(new Error('ECONNREFUSED'));
+
+    await expect(fetchProviderMetadata(ISSUER)).rejects.toThrow(
+      /openid-configuration: HTTP 404; .*oauth-authorization-server\/tenant1: ECONNREFUSED$/
+    );
+  });
+});
+
+describe('applyProviderMetadata', () => {
+  it('should take endpoints and JWKS URI from the metadata', () => {
+    expect(applyProviderMetadata(provider(), metadata())).toMatchObject({
+      tokenUrl: 'https://idp.example.com/tenant1/oauth/token',
+      introspectionUrl: 'https://idp.example.com/tenant1/oauth/introspect',
+      revocationUrl: 'https://idp.example.com/tenant1/oauth/revoke',
+      jwksUri: 'https://idp.example.com/tenant1/jwks',
+    });
+  });
+
+  it('should keep explicitly configured endpoints', () => {
+    const config = provider({
+      tokenUrl: 'https://gateway.example.com/token',
+      introspectionUrl: 'https://gateway.example.com/introspect',
+    });
+
+    expect(applyProviderMetadata(config, metadata())).toMatchObject({
+      tokenUrl: 'https://gateway.example.com/token',
+      introspectionUrl: 'https://gateway.example.com/introspect',
+    });
+  });
+
+  it('should pick the first supported method the credentials allow', () => {
+    expect(applyProviderMetadata(provider(), metadata()).authMethod).toBe('client_secret_basic');
+    expect(applyProviderMetadata(provider({ privateKey: 'PEM' }), metadata()).authMethod).toBe(
+      'private_key_jwt'
+    );
+  });
+
+  it('should assume client_secret_basic when the metadata lists no methods', () => {
+    const result = applyProviderMetadata(
+      provider(),
+      metadata({ token_endpoint_auth_methods_supported: undefined })
+    );
+
+    expect(result.authMethod).toBe('client_secret_basic');
+  });
+
+  it('should reject a configured method the provider does not support', () => {
+    expect(() =>
+      applyProviderMetadata(provider({ authMethod: 'client_secret_post' }), metadata())
+    ).toThrow('Provider does not support client_secret_post');
+  });
+
+  it('should use mTLS endpoint aliases for tls_client_auth', () => {
+    const result = applyProviderMetadata(
+      provider({ authMethod: 'tls_client_auth', tlsCert: 'CERT', tlsKey: 'KEY' }),
+      metadata({
+        token_endpoint_auth_methods_supported: ['tls_client_auth'],
+        mtls_endpoint_aliases: { token_endpoint: 'https://mtls.idp.example.com/token' },
+      })
+    );
+
+    expect(result.tokenUrl).toBe('https://mtls.idp.example.com/token');
+    expect(result.introspectionUrl).toBe('https://idp.example.com/tenant1/oauth/introspect');
+  });
+});
@@ -0,0 +1,85 @@
+import { introspectToken } from '../../../src/services/oauth2/introspection.js';
+import { OAuth2Error } from '../../../src/services/oauth2/errors.js';
+
+// Mock global fetch
+const mockFetch = jest.fn();
+global.fetch = mockFetch;
+
+const provider = {
+  tokenUrl: 'https://auth.example.com/token',
+  introspectionUrl: 'https://auth.example.com/introspect',
+  clientId: 'resource-server',
+  clientSecret: 'rs-secret',
+};
+
+describe('introspectToken', () => {
+  beforeEach(() => {
+    mockFetch.mockReset();
+  });
+
+  it('should post the token with client credentials', async () => {
+    mockFetch.mockResolvedValue({
+      ok: true,
+      json: async () => ({ active: true, sub: 'user-123', scope: 'read' }),
+    });
+
+    const result = await introspectToken(provider, 'opaque-token');
+
+    expect(result).toEqual({ active: true, sub: 'user-123', scope: 'read' });
+    expect(mockFetch).toHaveBeenCalledWith(
+      'https://auth.example.com/introspect',
+      expect.objectContaining({
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/x-www-form-urlencoded',
+          Accept: 'application/json',
+        },
+      })
+    );
+
+    const body = new URLSearchParams(mockFetch.mock.calls[0][1].body);
+    expect(body.get('token')).toBe('opaque-token');
+    expect(body.get('token_type_hint')).toBe('access_token');
+    expect(body.get('client_id')).toBe('resource-server');
+    expect(body.get('client_secret')).toBe('rs-secret');
+  });
+
+  it('should return inactive results', async () => {
+    mockFetch.mockResolvedValue({ ok: true, json: async () => ({ active: false }) });
+
+    await expect(introspectToken(provider, 'revoked')).resolves.toEqual({ active: false });
+  });
+
+  it('should throw invalid_credentials on 401', async () => {
+    mockFetch.mockResolvedValue({ ok: false, status: 401, text: async () => 'bad client' });
+
+    await expect(introspectToken(provider, 'token')).rejects.toMatchObject({
+      code: 'invalid_credentials',
+      statusCode: 401,
+    });
+  });
+
+  it('should throw introspection_failed on other errors', async () => {
+    mockFetch.mockResolvedValue({ ok: false, status: 500, text: async () => 'oops' });
+
+    await expect(introspectToken(provider, 'token')).rejects.toMatchObject({
+      code: 'introspection_failed',
+      message: 'Token introspection failed: oops',
+    });
+  });
+
+  it('should reject responses without a boolean active member', async () => {
+    mockFetch.mockResolvedValue({ ok: true, json: async () => ({ sub: 'user-123' }) });
+
+    await expect(introspectToken(provider, 'token')).rejects.toThrow(OAuth2Error);
+  });
+
+  it('should require an introspection endpoint', async () => {
+    const { introspectionUrl: _url, ...withoutEndpoint } = provider;
+
+    await expect(introspectToken(withoutEndpoint, 'token')).rejects.toMatchObject({
+      code: 'introspection_not_configured',
+    });
+    expect(mockFetch).not.toHaveBeenCalled();
+  });
+});
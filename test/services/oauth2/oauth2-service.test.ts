@@ -1,5 +1,8 @@
 import { OAuth2Service, OAuth2Error } from '../../../src/services/oauth2/index.js';
 import type { OAuth2ProviderConfig } from '../../../src/services/oauth2/types.js';
+import { createRedisTokenStore } from '../../../src/services/oauth2/redis-token-store.js';
+import { RedisService } from '../../../src/services/redis.service.js';
+import { createClient } from 'redis';
 
 const mockFetch = jest.fn();
 global.fetch = mockFetch;
@@ -17,6 +20,7 @@ const testProviders: Record<string, OAuth2ProviderConfig> = {
     clientId: 'test-client',
     clientSecret: 'test-secret',
     scope: 'api:read',
+    introspectionUrl: 'https://partner.com/oauth/introspect',
   },
 };
 
@@ -63,6 +67,52 @@ describe('OAuth2Service', () => {
       expect(mockFetch).toHaveBeenCalledTimes(1); // Only one fetch
     });
 
+    it('should cache a token per scope, audience and resource', async () => {
+      mockFetch.mockImplementation(async (_url: string, init: RequestInit) => ({
+        ok: true,
+        json: async () => ({
+          access_token: `token-${new URLSearchParams(init.body as string).get('audience')}`,
+          token_type: 'Bearer',
+          expires_in: 3600,
+        }),
+      }));
+
+      const orders = await service.getToken('partner', undefined, { audience: 'orders' });
+      const billing = await service.getToken('partner', undefined, { audience: 'billing' });
+      const defaultToken = await service.getToken('partner');
+      const ordersAgain = await service.getToken('partner', undefined, {
+        audience: ['orders'],
+      });
+
+      expect([orders, billing, defaultToken, ordersAgain]).toEqual([
+        'token-orders',
+        'token-billing',
+        'token-null',
+        'token-orders',
+      ]);
+      expect(mockFetch).toHaveBeenCalledTimes(3);
+    });
+
+    it('should not cache a token missing a requested scope', async () => {
+      mockFetch.mockResolvedValue({
+        ok: true,
+        json: async () => ({
+          access_token: 'token',
+          token_type: 'Bearer',
+          expires_in: 3600,
+          scope: 'api:read',
+        }),
+      });
+
+      const request = { scope: 'api:read api:write' };
+      await expect(service.getToken('partner', undefined, request)).rejects.toMatchObject({
+        code: 'insufficient_scope',
+        provider: 'partner',
+      });
+      await expect(service.getToken('partner', undefined, request)).rejects.toThrow(OAuth2Error);
+      expect(mockFetch).toHaveBeenCalledTimes(2);
+    });
+
     it('should throw for unknown provider', async () => {
       await expect(service.getToken('unknown')).rejects.toThrow(OAuth2Error);
       await expect(service.getToken('unknown')).rejects.toMatchObject({
@@ -166,6 +216,98 @@ describe('OAuth2Service', () => {
       const tokenCall = mockFetch.mock.calls[0];
       expect(tokenCall[1].body).toContain('grant_type=urn%3Aietf%3Aparams%3Aoauth%3Agrant-type%3Atoken-exchange');
     });
+
+    it('should cache a token per subject and actor', async () => {
+      mockFetch.mockImplementation(async (_url: string, init: RequestInit) => ({
+        ok: true,
+        json: async () => ({
+          access_token: `token-${new URLSearchParams(init.body as string).get('actor_token')}`,
+          token_type: 'Bearer',
+          expires_in: 3600,
+        }),
+      }));
+
+      const plain = await service.getToken('partner', { subjectToken: 'user-jwt' });
+      const delegated = await service.getToken('partner', {
+        subjectToken: 'user-jwt',
+        actorToken: 'service-jwt',
+      });
+      const delegatedAgain = await service.getToken('partner', {
+        subjectToken: 'user-jwt',
+        actorToken: 'service-jwt',
+      });
+
+      expect([plain, delegated, delegatedAgain]).toEqual([
+        'token-null',
+        'token-service-jwt',
+        'token-service-jwt',
+      ]);
+      expect(mockFetch).toHaveBeenCalledTimes(2);
+    });
+
+    it('should request the token for the given resource', async () => {
+      mockFetch
+        .mockResolvedValueOnce({
+          ok: true,
+          json: async () => ({
+            access_token: 'profile-token',
+            token_type: 'Bearer',
+            expires_in: 60,
+          }),
+        })
+        .mockResolvedValueOnce({ ok: true, status: 200 });
+
+      await service.fetch('partner', 'https://profile.partner.com/me', {
+        method: 'GET',
+        tokenExchange: { subjectToken: 'user-jwt' },
+        resource: 'https://profile.partner.com',
+      });
+
+      const [tokenCall, apiCall] = mockFetch.mock.calls;
+      expect(new URLSearchParams(tokenCall[1].body).get('resource')).toBe(
+        'https://profile.partner.com'
+      );
+      expect(apiCall[1]).not.toHaveProperty('resource');
+      expect(apiCall[1].headers.Authorization).toBe('Bearer profile-token');
+    });
+
+    it('should return the issued token type', async () => {
+      mockFetch.mockResolvedValueOnce({
+        ok: true,
+        json: async () => ({
+          access_token: 'user-id-token',
+          issued_token_type: 'urn:ietf:params:oauth:token-type:id_token',
+          token_type: 'N_A',
+          expires_in: 3600,
+        }),
+      });
+
+      const issued = await service.getIssuedToken('partner', { subjectToken: 'user-jwt' });
+
+      expect(issued).toEqual({
+        token: 'user-id-token',
+        issuedTokenType: 'urn:ietf:params:oauth:token-type:id_token',
+      });
+    });
+
+    it('should refuse to send tokens that are not access tokens', async () => {
+      mockFetch.mockResolvedValueOnce({
+        ok: true,
+        json: async () => ({
+          access_token: 'saml-assertion',
+          issued_token_type: 'urn:ietf:params:oauth:token-type:saml2',
+          token_type: 'N_A',
+          expires_in: 3600,
+        }),
+      });
+
+      await expect(
+        service.fetch('partner', 'https://api.partner.com/user-data', {
+          tokenExchange: { subjectToken: 'user-jwt' },
+        })
+      ).rejects.toMatchObject({ code: 'unexpected_token_type', provider: 'partner' });
+      expect(mockFetch).toHaveBeenCalledTimes(1);
+    });
   });
 
   describe('clearCache', () => {
@@ -187,4 +329,197 @@ describe('OAuth2Service', () => {
       expect(mockFetch).toHaveBeenCalledTimes(2);
     });
   });
+
+  describe('shared token store', () => {
+    const client = createClient() as any;
+    const redis = new RedisService(client);
+
+    function createInstance() {
+      const store = createRedisTokenStore(redis, {
+        secret: 'test-key',
+        logger: mockLogger,
+        pollMs: 5,
+      });
+      return new OAuth2Service(testProviders, mockLogger, 30, store);
+    }
+
+    function tokenResponse(accessToken: string) {
+      return {
+        ok: true,
+        json: async () => ({ access_token: accessToken, token_type: 'Bearer', expires_in: 3600 }),
+      };
+    }
+
+    beforeEach(async () => {
+      const keys = await client.keys('*');
+      if (keys.length > 0) {
+        await client.del(...keys);
+      }
+    });
+
+    it('should fetch one token for all instances', async () => {
+      mockFetch.mockImplementation(async () => {
+        await new Promise((resolve) => setTimeout(resolve, 20));
+        return tokenResponse('shared-token');
+      });
+
+      const tokens = await Promise.all([
+        createInstance().getToken('partner'),
+        createInstance().getToken('partner'),
+        createInstance().getToken('partner'),
+      ]);
+
+      expect(tokens).toEqual(['shared-token', 'shared-token', 'shared-token']);
+      expect(mockFetch).toHaveBeenCalledTimes(1);
+    });
+
+    it('should use a token fetched by an instance started earlier', async () => {
+      mockFetch.mockResolvedValue(tokenResponse('shared-token'));
+
+      await createInstance().getToken('partner');
+      const token = await createInstance().getToken('partner');
+
+      expect(token).toBe('shared-token');
+      expect(mockFetch).toHaveBeenCalledTimes(1);
+    });
+
+    it('should drop a rejected token from the store before retrying', async () => {
+      mockFetch
+        .mockResolvedValueOnce(tokenResponse('stale'))
+        .mockResolvedValueOnce({ status: 401 })
+        .mockResolvedValueOnce(tokenResponse('renewed'))
+        .mockResolvedValueOnce({ status: 200 });
+
+      await createInstance().fetch('partner', 'https://api.partner.com/data');
+
+      expect(await createInstance().getToken('partner')).toBe('renewed');
+    });
+  });
+
+  describe('discover', () => {
+    const issuerProviders: Record<string, OAuth2ProviderConfig> = {
+      idp: {
+        tokenUrl: '',
+        clientId: 'orders-api',
+        clientSecret: 'secret',
+        issuer: 'https://idp.example.com',
+      },
+      optional: {
+        tokenUrl: '',
+        clientId: 'orders-api',
+        clientSecret: 'secret',
+        issuer: 'https://down.example.com',
+        required: false,
+      },
+    };
+
+    function metadataResponse(tokenEndpoint: string) {
+      return {
+        ok: true,
+        json: async () => ({
+          issuer: 'https://idp.example.com',
+          token_endpoint: tokenEndpoint,
+          token_endpoint_auth_methods_supported: ['client_secret_post'],
+        }),
+      };
+    }
+
+    beforeEach(() => {
+      service = new OAuth2Service(issuerProviders, mockLogger, 30);
+      mockFetch.mockImplementation(async (url: string) => {
+        if (url.startsWith('https://idp.example.com/.well-known/')) {
+          return metadataResponse('https://idp.example.com/token');
+        }
+        if (url === 'https://idp.example.com/token') {
+          return {
+            ok: true,
+            json: async () => ({
+              access_token: 'discovered',
+              token_type: 'Bearer',
+              expires_in: 60,
+            }),
+          };
+        }
+        return { ok: false, status: 503 };
+      });
+    });
+
+    it('should fetch tokens from the discovered endpoint', async () => {
+      await service.discover();
+
+      expect(await service.getToken('idp')).toBe('discovered');
+      expect(mockFetch).toHaveBeenLastCalledWith(
+        'https://idp.example.com/token',
+        expect.objectContaining({ method: 'POST' })
+      );
+    });
+
+    it('should report failed providers with whether they are required', async () => {
+      const failures = await service.discover();
+
+      expect(failures).toEqual([
+        { provider: 'optional', required: false, error: expect.any(OAuth2Error) },
+      ]);
+      expect(failures[0].error).toMatchObject({ code: 'discovery_failed', provider: 'optional' });
+    });
+
+    it('should refuse tokens for a provider that has not been discovered', async () => {
+      await service.discover();
+
+      await expect(service.getToken('optional')).rejects.toMatchObject({
+        code: 'provider_not_discovered',
+      });
+    });
+
+    it('should keep the previous metadata when a refresh fails', async () => {
+      await service.discover();
+      mockFetch.mockResolvedValue({ ok: false, status: 503 });
+
+      const failures = await service.discover();
+
+      expect(failures.map((failure) => failure.provider)).toEqual(['idp', 'optional']);
+      mockFetch.mockResolvedValueOnce({
+        ok: true,
+        json: async () => ({ access_token: 'still-works', token_type: 'Bearer', expires_in: 60 }),
+      });
+      expect(await service.getToken('idp')).toBe('still-works');
+      expect(mockFetch).toHaveBeenLastCalledWith(
+        'https://idp.example.com/token',
+        expect.anything()
+      );
+    });
+  });
+
+  describe('introspect', () => {
+    it('should introspect with the provider endpoint', async () => {
+      mockFetch.mockResolvedValue({
+        ok: true,
+        json: async () => ({ active: true, sub: 'user-123' }),
+      });
+
+      const result = await service.introspect('partner', 'opaque-token');
+
+      expect(result).toEqual({ active: true, sub: 'user-123' });
+      expect(mockFetch).toHaveBeenCalledWith(
+        'https://partner.com/oauth/introspect',
+        expect.anything()
+      );
+    });
+
+    it('should throw for unknown provider', async () => {
+      await expect(service.introspect('unknown', 'token')).rejects.toMatchObject({
+        code: 'provider_not_found',
+      });
+    });
+
+    it('should attach the provider name to errors', async () => {
+      mockFetch.mockRejectedValue(new Error('ECONNREFUSED'));
+
+      await expect(service.introspect('partner', 'token')).rejects.toMatchObject({
+        code: 'introspection_failed',
+        provider: 'partner',
+        message: 'Token introspection failed: ECONNREFUSED',
+      });
+    });
+  });
 });
@@ -0,0 +1,174 @@
+import { createClient } from 'redis';
+import { RedisService } from '../../../src/services/redis.service.js';
+import { createRedisTokenStore } from '../../../src/services/oauth2/redis-token-store.js';
+import type { CachedToken } from '../../../src/services/oauth2/types.js';
+
+const mockLogger = {
+  info: jest.fn(),
+  debug: jest.fn(),
+  warn: jest.fn(),
+  error: jest.fn(),
+} as any;
+
+function token(overrides: Partial<CachedToken> = {}): CachedToken {
+  return {
+    accessToken: 'secret-access-token',
+    expiresAt: Date.now() + 3600000,
+    refreshAt: Date.now() + 2700000,
+    scope: 'api:read',
+    ...overrides,
+  };
+}
+
+describe('createRedisTokenStore', () => {
+  const client = createClient() as any;
+  const redis = new RedisService(client);
+
+  beforeEach(async () => {
+    jest.clearAllMocks();
+    const keys = await client.keys('*');
+    if (keys.length > 0) {
+      await client.del(...keys);
+    }
+  });
+
+  describe('get/set', () => {
+    it('should store tokens encrypted and read them back', async () => {
+      const store = createRedisTokenStore(redis, { secret: 'test-key', logger: mockLogger });
+      const stored = token();
+
+      await store.set('partner:client_credentials', stored);
+
+      const raw = await client.get('oauth2:token:partner:client_credentials');
+      expect(raw).toMatch(/^v2\./);
+      expect(raw).not.toContain('secret-access-token');
+      expect(await store.get('partner:client_credentials')).toEqual(stored);
+    });
+
+    it('should expire entries with the token', async () => {
+      const store = createRedisTokenStore(redis, { secret: 'test-key', logger: mockLogger });
+
+      await store.set('partner:client_credentials', token({ expiresAt: Date.now() + 120000 }));
+
+      expect(await client.ttl('oauth2:token:partner:client_credentials')).toBe(120);
+    });
+
+    it('should not store expired tokens', async () => {
+      const store = createRedisTokenStore(redis, { secret: 'test-key', logger: mockLogger });
+
+      await store.set('partner:client_credentials', token({ expiresAt: Date.now() - 1000 }));
+
+      expect(await client.get('oauth2:token:partner:client_credentials')).toBeNull();
+    });
+
+    it('should treat entries encrypted with another key as missing', async () => {
+      const writer = createRedisTokenStore(redis, { secret: 'old-key', logger: mockLogger });
+      const reader = createRedisTokenStore(redis, { secret: 'new-key', logger: mockLogger });
+
+      await writer.set('partner:client_credentials', token());
+
+      expect(await reader.get('partner:client_credentials')).toBeUndefined();
+      expect(mockLogger.warn).toHaveBeenCalledWith(
+        expect.objectContaining({ key: 'partner:client_credentials' }),
+        'OAuth2 token store entry could not be decrypted'
+      );
+    });
+
+    it('should treat entries copied from another cache key as missing', async () => {
+      const store = createRedisTokenStore(redis, { secret: 'test-key', logger: mockLogger });
+
+      await store.set('partner:client_credentials', token());
+      const raw = await client.get('oauth2:token:partner:client_credentials');
+      await client.set('oauth2:token:billing:client_credentials', raw);
+
+      expect(await store.get('billing:client_credentials')).toBeUndefined();
+      expect(mockLogger.warn).toHaveBeenCalledWith(
+        expect.objectContaining({ key: 'billing:client_credentials' }),
+        'OAuth2 token store entry could not be decrypted'
+      );
+    });
+
+    it('should treat Redis errors as a miss', async () => {
+      const store = createRedisTokenStore(redis, { secret: 'test-key', logger: mockLogger });
+      client.get.mockRejectedValueOnce(new Error('Connection refused'));
+
+      expect(await store.get('partner:client_credentials')).toBeUndefined();
+      expect(mockLogger.warn).toHaveBeenCalledWith(
+        { key: 'partner:client_credentials', err: 'Connection refused' },
+        'OAuth2 token store read failed'
+      );
+    });
+
+    it('should delete entries', async () => {
+      const store = createRedisTokenStore(redis, { secret: 'test-key', logger: mockLogger });
+
+      await store.set('partner:client_credentials', token());
+      await store.delete('partner:client_credentials');
+
+      expect(await store.get('partner:client_credentials')).toBeUndefined();
+    });
+  });
+
+  describe('withLock', () => {
+    it('should wait for the instance holding the lock', async () => {
+      const store = createRedisTokenStore(redis, {
+        secret: 'test-key',
+        logger: mockLogger,
+        pollMs: 5,
+      });
+      const order: string[] = [];
+
+      let release!: () => void;
+      const first = store.withLock('partner:client_credentials', async () => {
+        order.push('first:start');
+        await new Promise<void>((resolve) => (release = resolve));
+        order.push('first:end');
+      });
+      const second = store.withLock('partner:client_credentials', async () => {
+        order.push('second');
+      });
+
+      await new Promise((resolve) => setTimeout(resolve, 20));
+      release();
+      await Promise.all([first, second]);
+
+      expect(order).toEqual(['first:start', 'first:end', 'second']);
+    });
+
+    it('should rethrow errors from the locked function without retrying', async () => {
+      const store = createRedisTokenStore(redis, { secret: 'test-key', logger: mockLogger });
+      const fn = jest.fn().mockRejectedValue(new Error('Token fetch failed'));
+
+      await expect(store.withLock('partner:client_credentials', fn)).rejects.toThrow(
+        'Token fetch failed'
+      );
+      expect(fn).toHaveBeenCalledTimes(1);
+    });
+
+    it('should run without the lock once the wait times out', async () => {
+      const store = createRedisTokenStore(redis, {
+        secret: 'test-key',
+        logger: mockLogger,
+        waitMs: 20,
+        pollMs: 5,
+      });
+
+      let release!: () => void;
+      const holder = store.withLock(
+        'partner:client_credentials',
+        () => new Promise<void>((resolve) => (release = resolve))
+      );
+
+      await expect(
+        store.withLock('partner:client_credentials', async () => 'fetched')
+      ).resolves.toBe('fetched');
+      expect(mockLogger.warn).toHaveBeenCalledWith(
+        expect.objectContaining({ key: 'partner:client_credentials' }),
+        'OAuth2 token lock not acquired, fetching without it'
+      );
+
+      release();
+      await holder;
+    });
+  });
+});
@@ -18,6 +18,15 @@ describe('TokenCache', () => {
       const key = cache.buildKey('partner', 'token_exchange', 'user-123');
       expect(key).toBe('partner:token_exchange:user-123');
     });
+
+    it('should append the token request digest', () => {
+      expect(cache.buildKey('partner', 'client_credentials', undefined, 'abc')).toBe(
+        'partner:client_credentials:abc'
+      );
+      expect(cache.buildKey('partner', 'token_exchange', 'user-123', 'abc')).toBe(
+        'partner:token_exchange:user-123:abc'
+      );
+    });
   });
 
   describe('get/set/delete', () => {
@@ -134,4 +143,79 @@ describe('TokenCache', () => {
       expect(cache.getRefreshPromise('key')).toBeUndefined();
     });
   });
+
+  describe('shared store', () => {
+    const fresh = (accessToken: string): CachedToken => ({
+      accessToken,
+      expiresAt: Date.now() + 3600000,
+      refreshAt: Date.now() + 2700000,
+    });
+
+    function createStore(initial: Record<string, CachedToken> = {}) {
+      const tokens = new Map(Object.entries(initial));
+      return {
+        tokens,
+        get: jest.fn(async (key: string) => tokens.get(key)),
+        set: jest.fn(async (key: string, token: CachedToken) => void tokens.set(key, token)),
+        delete: jest.fn(async (key: string) => void tokens.delete(key)),
+        withLock: jest.fn((_key: string, fn: () => Promise<unknown>) => fn()) as any,
+      };
+    }
+
+    it('should load a token stored by another instance', async () => {
+      const store = createStore({ 'partner:client_credentials': fresh('shared') });
+      cache = new TokenCache(store);
+
+      expect((await cache.load('partner:client_credentials'))?.accessToken).toBe('shared');
+      expect(cache.get('partner:client_credentials')?.accessToken).toBe('shared');
+    });
+
+    it('should not read the store while the local token is fresh', async () => {
+      const store = createStore();
+      cache = new TokenCache(store);
+      cache.set('key', fresh('local'));
+
+      expect((await cache.load('key'))?.accessToken).toBe('local');
+      expect(store.get).not.toHaveBeenCalled();
+    });
+
+    it('should fetch under the lock and store the new token', async () => {
+      const store = createStore();
+      cache = new TokenCache(store);
+      const fetchToken = jest.fn().mockResolvedValue(fresh('fetched'));
+
+      const token = await cache.refresh('key', fetchToken);
+
+      expect(token.accessToken).toBe('fetched');
+      expect(store.withLock).toHaveBeenCalledWith('key', expect.any(Function));
+      expect(store.tokens.get('key')?.accessToken).toBe('fetched');
+      expect(cache.get('key')).toBe(token);
+    });
+
+    it('should use a token refreshed by another instance while waiting for the lock', async () => {
+      const store = createStore();
+      store.withLock.mockImplementation(async (key: string, fn: () => Promise<unknown>) => {
+        store.tokens.set(key, fresh('from-other-instance'));
+        return fn();
+      });
+      cache = new TokenCache(store);
+      const fetchToken = jest.fn();
+
+      const token = await cache.refresh('key', fetchToken);
+
+      expect(token.accessToken).toBe('from-other-instance');
+      expect(fetchToken).not.toHaveBeenCalled();
+    });
+
+    it('should remove tokens locally and from the store', async () => {
+      const store = createStore({ key: fresh('shared') });
+      cache = new TokenCache(store);
+      cache.set('key', fresh('local'));
+
+      await cache.remove('key');
+
+      expect(cache.get('key')).toBeUndefined();
+      expect(store.tokens.has('key')).toBe(false);
+    });
+  });
 });
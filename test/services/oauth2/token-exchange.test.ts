@@ -108,6 +108,113 @@ describe('fetchTokenExchange', () => {
     expect(options.body).toContain('subject_token_type=urn%3Aietf%3Aparams%3Aoauth%3Atoken-type%3Aid_token');
   });
 
+  it('should send per-call audience and resource', async () => {
+    mockFetch.mockResolvedValue({
+      ok: true,
+      json: async () => ({
+        access_token: 'token',
+        token_type: 'Bearer',
+        expires_in: 3600,
+        scope: 'profile',
+      }),
+    });
+
+    await fetchTokenExchange(
+      {
+        tokenUrl: 'https://auth.example.com/token',
+        clientId: 'client',
+        clientSecret: 'secret',
+      },
+      { subjectToken: 'subject' },
+      30,
+      { scope: 'profile', audience: 'profile-api', resource: 'https://profile.example.com' }
+    );
+
+    const body = new URLSearchParams(mockFetch.mock.calls[0][1].body);
+    expect(body.get('scope')).toBe('profile');
+    expect(body.get('audience')).toBe('profile-api');
+    expect(body.get('resource')).toBe('https://profile.example.com');
+  });
+
+  it('should send the actor token and requested token type', async () => {
+    mockFetch.mockResolvedValue({
+      ok: true,
+      json: async () => ({
+        access_token: 'delegated-token',
+        token_type: 'Bearer',
+        expires_in: 3600,
+        issued_token_type: 'urn:ietf:params:oauth:token-type:jwt',
+      }),
+    });
+
+    const token = await fetchTokenExchange(
+      {
+        tokenUrl: 'https://auth.example.com/token',
+        clientId: 'client',
+        clientSecret: 'secret',
+      },
+      {
+        subjectToken: 'user-token',
+        actorToken: 'service-token',
+        requestedTokenType: 'urn:ietf:params:oauth:token-type:jwt',
+      },
+      30
+    );
+
+    const body = new URLSearchParams(mockFetch.mock.calls[0][1].body);
+    expect(body.get('actor_token')).toBe('service-token');
+    expect(body.get('actor_token_type')).toBe('urn:ietf:params:oauth:token-type:access_token');
+    expect(body.get('requested_token_type')).toBe('urn:ietf:params:oauth:token-type:jwt');
+    expect(token.issuedTokenType).toBe('urn:ietf:params:oauth:token-type:jwt');
+  });
+
+  it('should not send actor parameters without an actor token', async () => {
+    mockFetch.mockResolvedValue({
+      ok: true,
+      json: async () => ({ access_token: 'token', token_type: 'Bearer', expires_in: 3600 }),
+    });
+
+    const token = await fetchTokenExchange(
+      {
+        tokenUrl: 'https://auth.example.com/token',
+        clientId: 'client',
+        clientSecret: 'secret',
+      },
+      { subjectToken: 'subject', actorTokenType: 'urn:ietf:params:oauth:token-type:id_token' },
+      30
+    );
+
+    const body = new URLSearchParams(mockFetch.mock.calls[0][1].body);
+    expect(body.has('actor_token_type')).toBe(false);
+    expect(body.has('requested_token_type')).toBe(false);
+    // A response without issued_token_type is taken to be an access token
+    expect(token.issuedTokenType).toBe('urn:ietf:params:oauth:token-type:access_token');
+  });
+
+  it('should reject a token of another type than requested', async () => {
+    mockFetch.mockResolvedValue({
+      ok: true,
+      json: async () => ({
+        access_token: 'token',
+        token_type: 'Bearer',
+        expires_in: 3600,
+        issued_token_type: 'urn:ietf:params:oauth:token-type:access_token',
+      }),
+    });
+
+    await expect(
+      fetchTokenExchange(
+        {
+          tokenUrl: 'https://auth.example.com/token',
+          clientId: 'client',
+          clientSecret: 'secret',
+        },
+        { subjectToken: 'subject', requestedTokenType: 'urn:ietf:params:oauth:token-type:jwt' },
+        30
+      )
+    ).rejects.toMatchObject({ code: 'unexpected_token_type' });
+  });
+
   it('should throw OAuth2Error on failure', async () => {
     mockFetch.mockResolvedValue({
       ok: false,
@@ -49,6 +49,21 @@ describe('RedisService', () => {
     });
   });
 
+  describe('setnx', () => {
+    it('should set value when key does not exist', async () => {
+      const result = await app.redis.setnx('test-nx', 10, 'first');
+      expect(result).toBe(true);
+      expect(await app.redis.get('test-nx')).toBe('first');
+    });
+
+    it('should not overwrite an existing key', async () => {
+      await app.redis.setnx('test-nx', 10, 'first');
+      const result = await app.redis.setnx('test-nx', 10, 'second');
+      expect(result).toBe(false);
+      expect(await app.redis.get('test-nx')).toBe('first');
+    });
+  });
+
   describe('del', () => {
     it('should delete a key', async () => {
       await app.redis.set('test-delete', 'value');
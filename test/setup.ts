@@ -18,7 +18,13 @@ jest.mock('redis', () => {
       }
       return item.value;
     }),
-    set: jest.fn(async (key: string, value: string, options?: { EX?: number }) => {
+    set: jest.fn(async (key: string, value: string, options?: { EX?: number; NX?: boolean }) => {
+      if (options?.NX) {
+        const existing = mockStore.get(key);
+        if (existing && (!existing.expiry || Date.now() <= existing.expiry)) {
+          return null;
+        }
+      }
       const expiry = options?.EX ? Date.now() + options.EX * 1000 : undefined;
       mockStore.set(key, { value, expiry });
       return 'OK';
@@ -2,6 +2,8 @@ import 'reflect-metadata';
 import { registerControllers } from '../../src/utils/registerControllers.js';
 import { Controller, Get, Post, Put, Delete, Patch } from '../../src/decorators/route.decorator.js';
 import { Schema } from '../../src/decorators/schema.decorator.js';
+import { Authorize } from '../../src/decorators/authorize.decorator.js';
+import { registerPolicy, resetPolicies } from '../../src/middleware/policy.js';
 import { FastifyInstance, FastifyRequest, FastifyReply } from 'fastify';
 import { z } from 'zod';
 
@@ -262,6 +264,70 @@ describe('registerControllers', () => {
     });
   });
 
+  describe('authorization', () => {
+    it('should add authorization prehandler between middleware and validation', async () => {
+      const middleware = jest.fn();
+
+      @Controller('/api')
+      class TestController {
+        @Post('/users', middleware)
+        @Authorize('admin OR users:write')
+        @Schema({
+          body: z.object({
+            name: z.string(),
+          }),
+        })
+        createUser() {}
+      }
+
+      const app = createMockApp();
+      registerControllers(app, [TestController]);
+
+      const [, options] = (app.post as jest.Mock).mock.calls[0];
+      expect(options.preHandler).toHaveLength(3);
+      expect(options.preHandler[0]).toBe(middleware);
+
+      // The second prehandler enforces the expression against request.user
+      const reply = {
+        code: jest.fn().mockReturnThis(),
+        send: jest.fn().mockReturnThis(),
+        header: jest.fn().mockReturnThis(),
+      };
+      await options.preHandler[1]({ user: { scope: 'read' } }, reply);
+      expect(reply.code).toHaveBeenCalledWith(403);
+    });
+
+    it('should reject invalid expressions at registration', () => {
+      expect(() => {
+        @Controller('/api')
+        class TestController {
+          @Get('/users')
+          @Authorize('admin OR')
+          listUsers() {}
+        }
+
+        registerControllers(createMockApp(), [TestController]);
+      }).toThrow('Unexpected end in policy "admin OR"');
+    });
+
+    it('should reject references to unregistered policies at registration', () => {
+      @Controller('/api')
+      class TestController {
+        @Get('/users')
+        @Authorize('admin OR policy(user-reader)')
+        listUsers() {}
+      }
+
+      expect(() => registerControllers(createMockApp(), [TestController])).toThrow(
+        'Policy "user-reader" is not registered'
+      );
+
+      registerPolicy('user-reader', 'users:read');
+      expect(() => registerControllers(createMockApp(), [TestController])).not.toThrow();
+      resetPolicies();
+    });
+  });
+
   describe('handler binding', () => {
     it('should bind handler to controller instance', async () => {
       @Controller('/api')